@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { buildCalendarFeed, fetchCalendarFeed } from '@/lib/icalendar';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_req: Request, { params }: { params: Promise<{ token: string }> }) {
+  try {
+    const { token } = await params;
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const feed = await fetchCalendarFeed(supabase, token.replace(/\.ics$/i, ''));
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Calendar feed not found' }, { status: 404 });
+    }
+
+    return new Response(buildCalendarFeed(feed.plan, { startTime: feed.preferred_workout_time }), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="athleto-workouts.ics"',
+        'Cache-Control': 'private, max-age=900'
+      }
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+    return NextResponse.json({ error: 'Failed to build calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { createLLMProvider } from '@/lib/llm';
+import { ADAPTATION_BATCH_SIZE, createPlanAdjustment, fetchPlansDueForAdjustment } from '@/lib/planAdaptation';
+
+// No new plan is started after RUN_BUDGET_MS, and LLM calls still in flight
+// are aborted at RUN_DEADLINE_MS, inside the 60s function limit (vercel.json).
+const RUN_BUDGET_MS = 30000;
+const RUN_DEADLINE_MS = 50000;
+
+// Job (see vercel.json) that proposes next week's adjustment for every active
+// plan, a batch per run. It runs every 15 minutes on Sundays and each run
+// reports how many plans it left for later runs.
+// Runs with the service role, so it is guarded by CRON_SECRET.
+export async function GET(req: Request) {
+  const startedAt = Date.now();
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      { auth: { persistSession: false } }
+    );
+
+    const plans = await fetchPlansDueForAdjustment(supabase);
+    const llm = createLLMProvider(process.env, { timeoutMs: 15000, maxRetries: 1 });
+    const signal = AbortSignal.timeout(Math.max(RUN_DEADLINE_MS - (Date.now() - startedAt), 0));
+    const result = { created: 0, skipped: 0, failed: 0, remaining: plans.length };
+
+    for (const plan of plans.slice(0, ADAPTATION_BATCH_SIZE)) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break;
+      result.remaining--;
+
+      try {
+        const adjustment = await createPlanAdjustment(supabase, llm, plan.user_id, plan, { signal });
+        if (adjustment?.status === 'pending') {
+          result.created++;
+        } else {
+          result.skipped++;
+        }
+      } catch (planError) {
+        console.error(`Plan adaptation failed for plan ${plan.id}:`, planError);
+        result.failed++;
+      }
+    }
+
+    if (result.remaining > 0) {
+      console.warn(`Plan adaptation left ${result.remaining} plans for the next run`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Plan adaptation job error:', error);
+    return NextResponse.json({ error: 'Failed to adapt plans' }, { status: 500 });
+  }
+}
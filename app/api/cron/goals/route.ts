@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { GOAL_SYNC_BATCH_SIZE, fetchUsersDueForGoalSync, markGoalsSynced, syncGoals } from '@/lib/goals';
+
+// No new batch is started after this point, leaving the rest of the 60s
+// function limit (vercel.json) for the batch already in flight.
+const RUN_BUDGET_MS = 40000;
+
+// Daily job (see vercel.json) that moves goals to completed or abandoned even
+// when their owner never opens the goals page. It runs every 15 minutes for
+// an hour, each run picking up users not yet synced that day and reporting
+// how many it left for later runs.
+// Runs with the service role, so it is guarded by CRON_SECRET.
+export async function GET(req: Request) {
+  const startedAt = Date.now();
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!,
+      { auth: { persistSession: false } }
+    );
+
+    const startOfDay = new Date(startedAt);
+    startOfDay.setUTCHours(0, 0, 0, 0);
+
+    const userIds = await fetchUsersDueForGoalSync(supabase, startOfDay.toISOString());
+    const result = { synced: 0, failed: 0, remaining: userIds.length };
+
+    for (let i = 0; i < userIds.length; i += GOAL_SYNC_BATCH_SIZE) {
+      if (Date.now() - startedAt > RUN_BUDGET_MS) break;
+
+      const batch = userIds.slice(i, i + GOAL_SYNC_BATCH_SIZE);
+      result.remaining -= batch.length;
+
+      // Failed users are not marked, so the next run retries them.
+      await Promise.all(batch.map(async userId => {
+        try {
+          await syncGoals(supabase, userId);
+          await markGoalsSynced(supabase, userId);
+          result.synced++;
+        } catch (userError) {
+          console.error(`Goal sync failed for user ${userId}:`, userError);
+          result.failed++;
+        }
+      }));
+    }
+
+    if (result.remaining > 0) {
+      console.warn(`Goal sync left ${result.remaining} users for the next run`);
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Goal sync job error:', error);
+    return NextResponse.json({ error: 'Failed to update goals' }, { status: 500 });
+  }
+}
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { z } from 'zod';
+import { createLLMProvider, type LLMProvider } from '@/lib/llm';
+import { buildRepairMessage, buildSubstitutionCompletion, cleanJsonContent } from '@/lib/llm/prompts';
+import { PlanValidationError, VALID_DIFFICULTIES, formatPlanIssues } from '@/lib/workoutPlan';
+import {
+  ALTERNATIVE_COUNT,
+  parseExerciseAlternatives,
+  type ExerciseAlternative,
+  type SubstitutionRequest
+} from '@/lib/exerciseSubstitution';
+
+const MAX_REPAIR_ATTEMPTS = 2;
+
+const RequestBodySchema = z.object({
+  reason: z.string().trim().max(200).optional()
+});
+
+async function generateAlternatives(llm: LLMProvider, request: SubstitutionRequest): Promise<ExerciseAlternative[]> {
+  const completion = buildSubstitutionCompletion(request);
+  let lastError: PlanValidationError | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await llm.complete(completion);
+    if (!content) throw new Error('No alternatives generated');
+
+    const cleanedContent = cleanJsonContent(content);
+    try {
+      return parseExerciseAlternatives(cleanedContent, request);
+    } catch (e) {
+      if (!(e instanceof PlanValidationError)) throw e;
+      console.error(`Alternative validation failed (${llm.name}/${llm.model}, attempt ${attempt + 1}):`, e.issues);
+      lastError = e;
+      completion.messages = [
+        ...completion.messages,
+        { role: 'assistant', content: cleanedContent },
+        { role: 'user', content: buildRepairMessage(e.issues, 'list of alternatives') }
+      ];
+    }
+  }
+
+  throw new PlanValidationError(
+    `Failed to suggest valid alternatives after ${MAX_REPAIR_ATTEMPTS + 1} attempts`,
+    lastError?.issues ?? []
+  );
+}
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = RequestBodySchema.parse(await req.json().catch(() => ({})));
+
+    const { data: exercise, error: exerciseError } = await supabase
+      .from('exercises')
+      .select('*, workouts!inner(plan_id, workout_plans!inner(user_id))')
+      .eq('id', id)
+      .is('retired_at', null)
+      .eq('workouts.workout_plans.user_id', user.id)
+      .maybeSingle();
+
+    if (exerciseError) throw exerciseError;
+    if (!exercise) {
+      return NextResponse.json({ error: 'Exercise not found' }, { status: 404 });
+    }
+
+    const [siblingsResult, profileResult] = await Promise.all([
+      supabase.from('exercises').select('name').eq('workout_id', exercise.workout_id).neq('id', id).is('retired_at', null),
+      supabase
+        .from('profiles')
+        .select('fitness_level, age, medical_conditions, preferred_workout_time, available_equipment')
+        .eq('id', user.id)
+        .maybeSingle()
+    ]);
+
+    if (siblingsResult.error) throw siblingsResult.error;
+    if (profileResult.error) throw profileResult.error;
+
+    const profile = profileResult.data;
+    const llm = createLLMProvider(process.env, { timeoutMs: 25000, maxRetries: 2 });
+
+    const alternatives = await generateAlternatives(llm, {
+      exercise: {
+        name: exercise.name,
+        description: exercise.description ?? '',
+        sets: exercise.sets,
+        reps: exercise.reps,
+        primary_muscles: exercise.primary_muscles,
+        secondary_muscles: exercise.secondary_muscles,
+        equipment_needed: exercise.equipment_needed,
+        exercise_type: exercise.exercise_type
+      },
+      workoutExercises: (siblingsResult.data ?? []).map(sibling => sibling.name),
+      availableEquipment: profile?.available_equipment ?? [],
+      count: ALTERNATIVE_COUNT,
+      athlete: {
+        fitnessLevel: VALID_DIFFICULTIES.find(level => level === profile?.fitness_level) ?? null,
+        age: profile?.age ?? null,
+        medicalConditions: profile?.medical_conditions?.filter(Boolean) ?? [],
+        preferredWorkoutTime: profile?.preferred_workout_time ?? null
+      },
+      reason: body.reason
+    });
+
+    return NextResponse.json({ alternatives });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 422 });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request', details: formatPlanIssues(error) }, { status: 400 });
+    }
+    console.error('Exercise substitution error:', error);
+    return NextResponse.json({ error: 'Failed to suggest alternatives' }, { status: 500 });
+  }
+}
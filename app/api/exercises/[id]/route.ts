@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { PlanValidationError, formatPlanIssues } from '@/lib/workoutPlan';
+import { ExerciseAlternativeSchema, findAlternativeIssues, replaceExercise } from '@/lib/exerciseSubstitution';
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let json: unknown;
+    try {
+      json = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+
+    const result = ExerciseAlternativeSchema.safeParse(json);
+    if (!result.success) {
+      throw new PlanValidationError('Replacement exercise failed validation', formatPlanIssues(result.error));
+    }
+
+    const { data: exercise, error: exerciseError } = await supabase
+      .from('exercises')
+      .select('*, workouts!inner(plan_id, workout_plans!inner(user_id))')
+      .eq('id', id)
+      .is('retired_at', null)
+      .eq('workouts.workout_plans.user_id', user.id)
+      .maybeSingle();
+
+    if (exerciseError) throw exerciseError;
+    if (!exercise) {
+      return NextResponse.json({ error: 'Exercise not found' }, { status: 404 });
+    }
+
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('available_equipment')
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (profileError) throw profileError;
+
+    const issues = findAlternativeIssues([result.data], {
+      exercise,
+      workoutExercises: [],
+      availableEquipment: profile?.available_equipment ?? [],
+      count: 1
+    });
+    if (issues.length) {
+      throw new PlanValidationError('Replacement exercise does not fit the workout', issues);
+    }
+
+    return NextResponse.json({ id: await replaceExercise(supabase, exercise.id, result.data) });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 422 });
+    }
+    console.error('Exercise replacement error:', error);
+    return NextResponse.json({ error: 'Failed to replace exercise' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { createLLMProvider } from '@/lib/llm';
+import { PlanValidationError } from '@/lib/workoutPlan';
+import { createPlanAdjustment } from '@/lib/planAdaptation';
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: plan, error: planError } = await supabase
+      .from('workout_plans')
+      .select('id, name, created_at, duration_weeks, is_active')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (planError) throw planError;
+    if (!plan) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+    if (!plan.is_active) {
+      return NextResponse.json({ error: 'Only the active plan can be adapted' }, { status: 409 });
+    }
+
+    const llm = createLLMProvider(process.env, { timeoutMs: 25000, maxRetries: 2 });
+    const adjustment = await createPlanAdjustment(supabase, llm, user.id, plan, { regenerateRejected: true });
+
+    if (!adjustment) {
+      return NextResponse.json({ error: 'This plan is in its final week' }, { status: 409 });
+    }
+
+    return NextResponse.json({ adjustment }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 422 });
+    }
+    console.error('Plan adaptation error:', error);
+    return NextResponse.json({ error: 'Failed to adapt plan' }, { status: 500 });
+  }
+}
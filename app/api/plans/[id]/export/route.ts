@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { fetchPlanExport, getExportFilename, planExportToCsv } from '@/lib/planExport';
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const format = new URL(req.url).searchParams.get('format') ?? 'json';
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'Format must be json or csv' }, { status: 400 });
+    }
+
+    const planExport = await fetchPlanExport(supabase, user.id, id);
+    if (!planExport) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    const body = format === 'csv' ? planExportToCsv(planExport) : JSON.stringify(planExport, null, 2);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${getExportFilename(planExport, format)}"`
+      }
+    });
+  } catch (error) {
+    console.error('Plan export error:', error);
+    return NextResponse.json({ error: 'Failed to export plan' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { PlanValidationError } from '@/lib/workoutPlan';
+import { parsePlanDraft } from '@/lib/planEditor';
+import { PlanConflictError, updateWorkoutPlan } from '@/lib/planStorage';
+
+export async function PUT(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let json: unknown;
+    try {
+      json = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+
+    const { data: existing, error: planError } = await supabase
+      .from('workout_plans')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (planError) throw planError;
+    if (!existing) {
+      return NextResponse.json({ error: 'Plan not found' }, { status: 404 });
+    }
+
+    const saved = await updateWorkoutPlan(supabase, id, parsePlanDraft(json));
+    return NextResponse.json({ id: saved.id });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 422 });
+    }
+    if (error instanceof PlanConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Plan update error:', error);
+    return NextResponse.json({ error: 'Failed to update plan' }, { status: 500 });
+  }
+}
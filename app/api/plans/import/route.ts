@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/types/supabase';
+import { PlanValidationError } from '@/lib/workoutPlan';
+import { parsePlanExport } from '@/lib/planExport';
+import { ACTIVE_PLAN_MESSAGE, saveWorkoutPlan } from '@/lib/planStorage';
+
+export async function POST(req: Request) {
+  try {
+    const supabase = createRouteHandlerClient<Database>({ cookies });
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    let json: unknown;
+    try {
+      json = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Request body is not valid JSON' }, { status: 400 });
+    }
+
+    const { plan, workoutPlan } = parsePlanExport(json);
+
+    const saved = await saveWorkoutPlan(supabase, user.id, plan.goalType, workoutPlan, {
+      name: plan.name,
+      durationWeeks: plan.durationWeeks,
+      workoutType: plan.workoutType,
+      focusMuscles: plan.focusMuscles,
+      daysPerWeek: workoutPlan.workouts.length
+    });
+
+    return NextResponse.json({ id: saved.id }, { status: 201 });
+  } catch (error) {
+    if (error instanceof PlanValidationError) {
+      return NextResponse.json({ error: error.message, details: error.issues }, { status: 422 });
+    }
+    if (error instanceof Error && error.message === ACTIVE_PLAN_MESSAGE) {
+      return NextResponse.json({ error: ACTIVE_PLAN_MESSAGE }, { status: 409 });
+    }
+    console.error('Plan import error:', error);
+    return NextResponse.json({ error: 'Failed to import plan' }, { status: 500 });
+  }
+}
@@ -1,24 +1,36 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 'use client';
 
-import React, { useEffect, useState, useCallback, useRef } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
 import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
 import { 
     Loader2, TrendingUp, Calendar, Weight, Activity, 
-    Sparkles, Flame, Trophy, Target
+    Sparkles, Flame, Trophy, Target, CalendarCheck, PersonStanding
 } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import MetricChart from '@/components/MetricChart';
 import { useToast } from "@/hooks/use-toast";
 import { Database } from '@/types/supabase';
 import { ErrorBoundary } from 'react-error-boundary';
+import { fetchPlanPrescriptions, formatPrescription, getPlanWeek, type WeeklyPrescription } from '@/lib/progression';
+import { computeLiftRecords, fetchLiftHistory, type LiftRecords } from '@/lib/personalRecords';
+import { getLocalDate, getStartOfDay, getTodaySchedule } from '@/lib/schedule';
+import { fetchAdherence, type AdherenceSummary } from '@/lib/adherence';
+import { computeVolumeAnalytics, fetchVolumeLogs, type VolumeLogEntry } from '@/lib/trainingVolume';
+import BodyHeatmap from '@/components/BodyHeatmap';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+import { formatWeight, getUnitLabel } from '@/lib/units';
+import { toDisplayMetrics } from '@/lib/progressMetrics';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 type WorkoutPlan = Database['public']['Tables']['workout_plans']['Row'];
 type Workout = Database['public']['Tables']['workouts']['Row'];
+type Exercise = Database['public']['Tables']['exercises']['Row'];
 type UserMetadata = {
     full_name?: string;
     avatar_url?: string;
@@ -39,15 +51,23 @@ interface ProgressMetric {
     notes: string | null;
 }
 
+interface EnhancedWorkout extends Workout {
+    exercises: Exercise[];
+}
+
 interface EnhancedWorkoutPlan extends WorkoutPlan {
-    workouts: Workout[];
+    workouts: EnhancedWorkout[];
 }
 
 interface DashboardData {
     profile: Profile | null;
     activePlan: EnhancedWorkoutPlan | null;
     progressMetrics: ProgressMetric[];
-    todayWorkout: Workout | null;
+    todayWorkout: EnhancedWorkout | null;
+    prescriptions: Record<string, WeeklyPrescription>;
+    personalRecords: LiftRecords[];
+    adherence: AdherenceSummary | null;
+    volumeLogs: VolumeLogEntry[];
     isRestDay: boolean;
     hasLoggedToday: boolean;
 }
@@ -57,6 +77,10 @@ const initialDashboardData: DashboardData = {
     activePlan: null,
     progressMetrics: [],
     todayWorkout: null,
+    prescriptions: {},
+    personalRecords: [],
+    adherence: null,
+    volumeLogs: [],
     isRestDay: false,
     hasLoggedToday: false
 };
@@ -110,9 +134,10 @@ export default function Dashboard() {
         abortControllerRef.current = new AbortController();
 
         try {
-            const today = new Date().toISOString().split('T')[0];
+            const today = getLocalDate();
+            const startOfToday = getStartOfDay().toISOString();
             
-            const [profileData, planData, metricsData, todayLogs] = await Promise.all([
+            const [profileData, planData, metricsData, todayLogs, liftHistory, adherence] = await Promise.all([
                 retryOperation(async () => {
                     const { data, error } = await supabase
                         .from('profiles')
@@ -125,9 +150,10 @@ export default function Dashboard() {
                 retryOperation(async () => {
                     const { data, error } = await supabase
                         .from('workout_plans')
-                        .select('*, workouts(*)')
+                        .select('*, workouts(*, exercises(*))')
                         .eq('user_id', session.user.id)
                         .eq('is_active', true)
+                        .is('workouts.exercises.retired_at', null)
                         .single();
                     if (error && error.code !== 'PGRST116') throw error;
                     return data;
@@ -149,7 +175,8 @@ export default function Dashboard() {
                         .from('workout_logs')
                         .select('id')
                         .eq('user_id', session.user.id)
-                        .gte('completed_at', today)
+                        .gte('completed_at', startOfToday)
+                        .limit(1)
                         .maybeSingle();
 
                     const restLogsPromise = supabase
@@ -157,6 +184,7 @@ export default function Dashboard() {
                         .select('id')
                         .eq('user_id', session.user.id)
                         .gte('rest_date', today)
+                        .limit(1)
                         .maybeSingle();
 
                     const [workoutLog, restLog] = await Promise.all([workoutLogsPromise, restLogsPromise]);
@@ -164,7 +192,17 @@ export default function Dashboard() {
                         hasLoggedWorkout: !!workoutLog.data,
                         hasLoggedRest: !!restLog.data
                     };
-                })
+                }),
+                retryOperation(() => fetchLiftHistory(supabase, session.user.id))
+                    .catch(error => {
+                        console.error('Error loading personal records:', error);
+                        return [];
+                    }),
+                retryOperation(() => fetchAdherence(supabase, session.user.id))
+                    .catch(error => {
+                        console.error('Error loading adherence:', error);
+                        return null;
+                    })
             ]);
 
             let processedMetrics = metricsData?.length ? metricsData.map(metric => ({
@@ -188,11 +226,23 @@ export default function Dashboard() {
                 }];
             }
 
-            const todayNum = new Date().getDay() === 0 ? 7 : new Date().getDay();
-            const isRestDay = planData?.rest_days?.includes(todayNum) ?? false;
-            const todayWorkout = !isRestDay && planData?.workouts 
-  ? planData.workouts.find((w: Workout) => w.day_of_week === todayNum) ?? null
-  : null;
+            const { isRestDay, workout: todayWorkout } = getTodaySchedule<EnhancedWorkout>(planData);
+
+            const prescriptions = todayWorkout && planData
+                ? await fetchPlanPrescriptions(supabase, session.user.id, { ...planData, workouts: [todayWorkout] })
+                    .catch(error => {
+                        console.error('Error computing weekly prescriptions:', error);
+                        return {};
+                    })
+                : {};
+
+            const volumeLogs = planData
+                ? await fetchVolumeLogs(supabase, session.user.id, planData.workouts.map((workout: Workout) => workout.id))
+                    .catch(error => {
+                        console.error('Error loading training volume:', error);
+                        return [];
+                    })
+                : [];
 
             setDashboardData(prev => ({
                 ...prev,
@@ -200,6 +250,10 @@ export default function Dashboard() {
                 activePlan: planData as EnhancedWorkoutPlan,
                 progressMetrics: processedMetrics,
                 todayWorkout,
+                prescriptions,
+                personalRecords: computeLiftRecords(liftHistory).slice(0, 5),
+                adherence,
+                volumeLogs,
                 isRestDay,
                 hasLoggedToday: todayLogs.hasLoggedWorkout || todayLogs.hasLoggedRest
             }));
@@ -226,41 +280,7 @@ export default function Dashboard() {
             return;
         }
 
-        try {
-            const { error: insertError } = await supabase
-                .from('workout_logs')
-                .insert({
-                    user_id: session.user.id,
-                    workout_id: dashboardData.todayWorkout.id,
-                    completed_at: new Date().toISOString(),
-                    duration: dashboardData.todayWorkout.estimated_duration,
-                    difficulty_rating: 3,
-                    mood: 'good'
-                });
-
-            if (insertError) throw insertError;
-
-            const userMetadata = session.user.user_metadata as UserMetadata;
-            const userFullName = userMetadata?.full_name || session.user.email?.split('@')[0];
-
-            toast({
-                title: `Great work, ${userFullName}!`,
-                description: "Your workout has been logged successfully.",
-            });
-
-            setDashboardData(prev => ({
-                ...prev,
-                hasLoggedToday: true
-            }));
-
-        } catch (error) {
-            console.error('Workout logging error:', error);
-            toast({
-                title: "Error",
-                description: error instanceof Error ? error.message : 'Failed to log workout',
-                variant: "destructive",
-            });
-        }
+        router.push(`/workouts/${dashboardData.todayWorkout.id}/session`);
     };
 
     const handleLogRestDay = async (wasFollowed: boolean) => {
@@ -279,7 +299,7 @@ export default function Dashboard() {
                 .insert({
                     user_id: session.user.id,
                     plan_id: dashboardData.activePlan.id,
-                    rest_date: new Date().toISOString(),
+                    rest_date: getLocalDate(),
                     was_followed: wasFollowed,
                 });
 
@@ -298,6 +318,10 @@ export default function Dashboard() {
                 hasLoggedToday: true
             }));
 
+            fetchAdherence(supabase, session.user.id)
+                .then(adherence => setDashboardData(prev => ({ ...prev, adherence })))
+                .catch(error => console.error('Error refreshing adherence:', error));
+
         } catch (error) {
             toast({
                 title: "Error",
@@ -378,6 +402,19 @@ export default function Dashboard() {
                         <BMITrackingCard 
                             progressMetrics={dashboardData.progressMetrics}
                         />
+
+                        <PersonalRecordsCard 
+                            personalRecords={dashboardData.personalRecords}
+                        />
+
+                        <AdherenceCard 
+                            adherence={dashboardData.adherence}
+                        />
+
+                        <MuscleCoverageCard 
+                            activePlan={dashboardData.activePlan}
+                            volumeLogs={dashboardData.volumeLogs}
+                        />
                     </div>
                 </div>
             </div>
@@ -431,6 +468,7 @@ interface ActivityCardProps {
 
 function ActivityCard({ dashboardData, handleLogWorkout, handleLogRestDay }: ActivityCardProps) {
     const session = useSession();
+    const { unitSystem } = useUnitSystem();
     const userMetadata = session?.user?.user_metadata as UserMetadata;
     const userFullName = userMetadata?.full_name || session?.user?.email?.split('@')[0];
 
@@ -494,6 +532,30 @@ function ActivityCard({ dashboardData, handleLogWorkout, handleLogRestDay }: Act
                             {dashboardData.todayWorkout.description}
                         </p>
                     </div>
+                    {dashboardData.activePlan && dashboardData.todayWorkout.exercises?.length > 0 && (
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium text-blue-300">
+                                This week&apos;s prescription · Week {getPlanWeek({
+                                    createdAt: dashboardData.activePlan.created_at,
+                                    durationWeeks: dashboardData.activePlan.duration_weeks
+                                })} of {dashboardData.activePlan.duration_weeks}
+                            </p>
+                            <ul className="space-y-1">
+                                {[...dashboardData.todayWorkout.exercises]
+                                    .sort((a, b) => a.order_in_workout - b.order_in_workout)
+                                    .map(exercise => (
+                                        <li key={exercise.id} className="flex justify-between gap-4 text-sm">
+                                            <span className="text-gray-200">{exercise.name}</span>
+                                            <span className="font-mono text-blue-200">
+                                                {dashboardData.prescriptions[exercise.id]
+                                                    ? formatPrescription(dashboardData.prescriptions[exercise.id], unitSystem)
+                                                    : `${exercise.sets} × ${exercise.reps}`}
+                                            </span>
+                                        </li>
+                                    ))}
+                            </ul>
+                        </div>
+                    )}
                     <Button 
                         onClick={handleLogWorkout}
                         className="bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-500 hover:to-purple-500 text-white"
@@ -516,6 +578,8 @@ interface WeightProgressCardProps {
 }
 
 function WeightProgressCard({ progressMetrics, weightProgress }: WeightProgressCardProps) {
+    const { unitSystem } = useUnitSystem();
+
     return (
         <Card className="bg-gray-800/30 border-gray-700/50 backdrop-blur-xl relative group overflow-hidden">
             <div className="absolute inset-0 bg-gradient-to-r from-blue-600/5 to-purple-600/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
@@ -525,68 +589,20 @@ function WeightProgressCard({ progressMetrics, weightProgress }: WeightProgressC
                     <Weight className="h-6 w-6 text-blue-400" />
                     Weight Progress
                 </CardTitle>
+                <Link href="/progress" className="text-sm text-blue-300 hover:text-blue-200">
+                    Log measurements →
+                </Link>
             </CardHeader>
             
             <CardContent>
                 <div className="h-64">
-                    {progressMetrics.length === 0 ? (
-                        <div className="h-full flex items-center justify-center text-gray-400">
-                            No weight data available yet
-                        </div>
-                    ) : (
-                        <ResponsiveContainer width="100%" height="100%">
-                            <LineChart 
-                                data={progressMetrics}
-                                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-                            >
-                                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                                <XAxis 
-                                    dataKey="measurement_date" 
-                                    tickFormatter={(date) => new Date(date).toLocaleDateString()}
-                                    stroke="#9CA3AF"
-                                    minTickGap={50}
-                                />
-                                <YAxis 
-                                    domain={['auto', 'auto']}
-                                    tickFormatter={(value) => `${value.toFixed(1)} kg`}
-                                    stroke="#9CA3AF"
-                                />
-                                <Tooltip 
-                                    contentStyle={{
-                                        backgroundColor: 'rgba(17, 24, 39, 0.8)',
-                                        border: '1px solid rgba(59, 130, 246, 0.2)',
-                                        borderRadius: '0.5rem',
-                                        backdropFilter: 'blur(4px)'
-                                    }}
-                                    labelStyle={{ color: '#E5E7EB' }}
-                                    itemStyle={{ color: '#93C5FD' }}
-                                    labelFormatter={(date) => new Date(date).toLocaleDateString()}
-                                    formatter={(value: number | string) => {
-                                        const numValue = typeof value === 'string' ? parseFloat(value) : value;
-                                        return [`${numValue.toFixed(1)} kg`, 'Weight'];
-                                    }}
-                                />
-                                <Line 
-                                    type="monotone" 
-                                    dataKey="weight" 
-                                    stroke="#3B82F6"
-                                    strokeWidth={2}
-                                    dot={{
-                                        stroke: '#3B82F6',
-                                        strokeWidth: 2,
-                                        r: 4,
-                                        fill: '#1E3A8A'
-                                    }}
-                                    activeDot={{
-                                        stroke: '#3B82F6',
-                                        strokeWidth: 2,
-                                        r: 6,
-                                        fill: '#1E3A8A'
-                                    }}
-                                />
-                            </LineChart>
-                        </ResponsiveContainer>
-                    )}
+                    <MetricChart
+                        data={progressMetrics.map(metric => toDisplayMetrics(metric, unitSystem))}
+                        dataKey="weight"
+                        label="Weight"
+                        unit={getUnitLabel('weight', unitSystem)}
+                        emptyMessage="No weight data available yet"
+                    />
                 </div>
                 <div className="mt-6 space-y-3">
                     <p className="text-sm text-blue-200/60">
@@ -642,64 +658,13 @@ function BMITrackingCard({ progressMetrics }: BMITrackingCardProps) {
             
             <CardContent>
                 <div className="h-64">
-                    {progressMetrics.length === 0 ? (
-                        <div className="h-full flex items-center justify-center text-gray-400">
-                            No BMI data available yet
-                        </div>
-                    ) : (
-                        <ResponsiveContainer width="100%" height="100%">
-                            <LineChart 
-                                data={progressMetrics}
-                                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
-                            >
-                                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
-                                <XAxis 
-                                    dataKey="measurement_date" 
-                                    tickFormatter={(date) => new Date(date).toLocaleDateString()}
-                                    stroke="#9CA3AF"
-                                    minTickGap={50}
-                                />
-                                <YAxis 
-                                    domain={[15, 35]}
-                                    tickFormatter={(value) => value.toFixed(1)}
-                                    stroke="#9CA3AF"
-                                />
-                                <Tooltip 
-                                    contentStyle={{
-                                        backgroundColor: 'rgba(17, 24, 39, 0.8)',
-                                        border: '1px solid rgba(59, 130, 246, 0.2)',
-                                        borderRadius: '0.5rem',
-                                        backdropFilter: 'blur(4px)'
-                                    }}
-                                    labelStyle={{ color: '#E5E7EB' }}
-                                    itemStyle={{ color: '#93C5FD' }}
-                                    labelFormatter={(date) => new Date(date).toLocaleDateString()}
-                                    formatter={(value: number | string) => {
-                                        const numValue = typeof value === 'string' ? parseFloat(value) : value;
-                                        return [`${numValue.toFixed(1)}`, 'BMI'];
-                                    }}
-                                />
-                                <Line 
-                                    type="monotone" 
-                                    dataKey="current_bmi" 
-                                    stroke="#3B82F6"
-                                    strokeWidth={2}
-                                    dot={{
-                                        stroke: '#3B82F6',
-                                        strokeWidth: 2,
-                                        r: 4,
-                                        fill: '#1E3A8A'
-                                    }}
-                                    activeDot={{
-                                        stroke: '#3B82F6',
-                                        strokeWidth: 2,
-                                        r: 6,
-                                        fill: '#1E3A8A'
-                                    }}
-                                />
-                            </LineChart>
-                        </ResponsiveContainer>
-                    )}
+                    <MetricChart
+                        data={progressMetrics}
+                        dataKey="current_bmi"
+                        label="BMI"
+                        domain={[15, 35]}
+                        emptyMessage="No BMI data available yet"
+                    />
                 </div>
 
                 {currentBMI && bmiStatus && (
@@ -757,3 +722,197 @@ function BMITrackingCard({ progressMetrics }: BMITrackingCardProps) {
         </Card>
     );
 }
+
+interface PersonalRecordsCardProps {
+    personalRecords: LiftRecords[];
+}
+
+function PersonalRecordsCard({ personalRecords }: PersonalRecordsCardProps) {
+    const { unitSystem } = useUnitSystem();
+
+    return (
+        <Card className="bg-gray-800/30 border-gray-700/50 backdrop-blur-xl relative group overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-r from-blue-600/5 to-purple-600/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+
+            <CardHeader>
+                <CardTitle className="flex items-center gap-3 text-gray-100">
+                    <Trophy className="h-6 w-6 text-yellow-500" />
+                    Personal Records
+                </CardTitle>
+                <Link href="/records" className="text-sm text-blue-300 hover:text-blue-200">
+                    View all records →
+                </Link>
+            </CardHeader>
+
+            <CardContent>
+                {personalRecords.length === 0 ? (
+                    <p className="text-gray-400">Log weights in your workouts to start setting records.</p>
+                ) : (
+                    <ul className="space-y-3">
+                        {personalRecords.map(record => (
+                            <li key={record.liftKey} className="flex items-center justify-between gap-4">
+                                <span className="text-gray-200">{record.exerciseName}</span>
+                                <div className="text-right">
+                                    <p className="font-mono text-blue-200">{formatWeight(record.bestE1rm.e1rm, unitSystem)} e1RM</p>
+                                    <p className="text-xs text-blue-200/60">
+                                        Best {formatWeight(record.bestWeight.weight, unitSystem)} × {record.bestWeight.reps}
+                                    </p>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+interface AdherenceCardProps {
+    adherence: AdherenceSummary | null;
+}
+
+const formatShortDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+function AdherenceCard({ adherence }: AdherenceCardProps) {
+    const activePlan = adherence?.plans.find(plan => plan.isActive);
+    const recap = adherence?.recap;
+    const change = recap?.percent != null && recap.previousPercent != null
+        ? recap.percent - recap.previousPercent
+        : null;
+
+    return (
+        <Card className="bg-gray-800/30 border-gray-700/50 backdrop-blur-xl relative group overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-r from-blue-600/5 to-purple-600/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+
+            <CardHeader>
+                <CardTitle className="flex items-center gap-3 text-gray-100">
+                    <CalendarCheck className="h-6 w-6 text-green-400" />
+                    Consistency
+                </CardTitle>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {!adherence || adherence.plans.length === 0 ? (
+                    <p className="text-gray-400">Start a workout plan to track your streaks and adherence.</p>
+                ) : (
+                    <>
+                        <div className="grid grid-cols-3 gap-4">
+                            <div>
+                                <p className="text-sm text-blue-200/60">Current streak</p>
+                                <p className="flex items-center gap-1 text-2xl font-bold text-gray-100">
+                                    <Flame className="h-5 w-5 text-orange-400" />
+                                    {adherence.currentStreak}
+                                </p>
+                            </div>
+                            <div>
+                                <p className="text-sm text-blue-200/60">Longest streak</p>
+                                <p className="text-2xl font-bold text-gray-100">{adherence.longestStreak}</p>
+                            </div>
+                            <div>
+                                <p className="text-sm text-blue-200/60">Plan adherence</p>
+                                <p className="text-2xl font-bold text-gray-100">
+                                    {activePlan?.percent != null ? `${activePlan.percent}%` : '—'}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium text-blue-300">Weekly adherence</p>
+                            <div className="flex items-end gap-2 h-24">
+                                {adherence.weeks.map(week => (
+                                    <div
+                                        key={week.start}
+                                        className="flex-1 flex flex-col items-center justify-end gap-1 h-full"
+                                        title={`Week of ${formatShortDate(week.start)}: ${week.completed}/${week.scheduled}`}
+                                    >
+                                        <div
+                                            className="w-full rounded-t bg-gradient-to-t from-blue-600/60 to-purple-500/60"
+                                            style={{ height: `${week.percent ?? 0}%` }}
+                                        />
+                                        <span className="text-[10px] text-gray-400">{formatShortDate(week.start)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {recap && (
+                            <div className="rounded-lg border border-blue-500/20 bg-blue-950/20 p-4 space-y-1">
+                                <p className="text-sm font-medium text-blue-300">
+                                    Last week · {formatShortDate(recap.weekStart)} – {formatShortDate(recap.weekEnd)}
+                                </p>
+                                {recap.workoutsScheduled + recap.restDaysScheduled === 0 ? (
+                                    <p className="text-sm text-gray-400">No plan was scheduled last week.</p>
+                                ) : (
+                                    <>
+                                        <p className="text-sm text-gray-200">
+                                            {recap.workoutsCompleted} of {recap.workoutsScheduled} workouts completed ·{' '}
+                                            {recap.restDaysFollowed} of {recap.restDaysScheduled} rest days followed
+                                        </p>
+                                        <p className="text-sm text-blue-200/60">
+                                            {recap.percent != null ? `${recap.percent}% adherence` : 'Nothing logged yet'}
+                                            {change != null && change !== 0 && (
+                                                <span className={change > 0 ? 'text-green-400' : 'text-red-400'}>
+                                                    {' '}({change > 0 ? '+' : ''}{change}% vs the week before)
+                                                </span>
+                                            )}
+                                        </p>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
+
+interface MuscleCoverageCardProps {
+    activePlan: EnhancedWorkoutPlan | null;
+    volumeLogs: VolumeLogEntry[];
+}
+
+function MuscleCoverageCard({ activePlan, volumeLogs }: MuscleCoverageCardProps) {
+    const [source, setSource] = useState<'planned' | 'completed'>('planned');
+
+    const currentWeek = useMemo(() => {
+        if (!activePlan) return null;
+        const { weeks } = computeVolumeAnalytics(activePlan, volumeLogs);
+        return weeks[weeks.length - 1] ?? null;
+    }, [activePlan, volumeLogs]);
+
+    return (
+        <Card className="bg-gray-800/30 border-gray-700/50 backdrop-blur-xl relative group overflow-hidden">
+            <div className="absolute inset-0 bg-gradient-to-r from-blue-600/5 to-purple-600/5 opacity-0 group-hover:opacity-100 transition-opacity duration-500" />
+
+            <CardHeader>
+                <CardTitle className="flex items-center justify-between gap-3 text-gray-100">
+                    <span className="flex items-center gap-3">
+                        <PersonStanding className="h-6 w-6 text-blue-400" />
+                        Muscle Coverage
+                    </span>
+                    {currentWeek && (
+                        <Tabs value={source} onValueChange={value => setSource(value as 'planned' | 'completed')}>
+                            <TabsList className="bg-gray-800/50">
+                                <TabsTrigger value="planned">Planned</TabsTrigger>
+                                <TabsTrigger value="completed">This week</TabsTrigger>
+                            </TabsList>
+                        </Tabs>
+                    )}
+                </CardTitle>
+            </CardHeader>
+
+            <CardContent>
+                {currentWeek ? (
+                    <BodyHeatmap 
+                        muscleSets={source === 'planned' ? currentWeek.planned.muscleSets : currentWeek.actual.muscleSets}
+                        unitLabel={source === 'planned' ? 'hard sets per week' : 'hard sets this week'}
+                    />
+                ) : (
+                    <p className="text-gray-400">Start a workout plan to see which muscles it trains.</p>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,7 @@
+'use client'
+import React from 'react';
+import GoalTracker from '@/components/GoalTracker';
+
+export default function Goals() {
+    return <GoalTracker />;
+}
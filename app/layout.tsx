@@ -4,6 +4,7 @@ import "./globals.css";
 import { createServerComponentClient } from '@supabase/auth-helpers-nextjs';
 import { cookies } from 'next/headers';
 import SupabaseProvider from '@/components/SupabaseProvider';
+import UnitPreferenceProvider from '@/components/UnitPreferenceProvider';
 import { Toaster } from "sonner";
 import Navbar from "@/components/Navbar";
 
@@ -29,9 +30,11 @@ export default async function RootLayout({
     <html lang="en">
       <body className={inter.className}>
         <SupabaseProvider session={session}>
-          <Navbar />
-          {children}
-          <Toaster />
+          <UnitPreferenceProvider>
+            <Navbar />
+            {children}
+            <Toaster />
+          </UnitPreferenceProvider>
         </SupabaseProvider>
       </body>
     </html>
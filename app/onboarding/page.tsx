@@ -0,0 +1,7 @@
+'use client'
+import React from 'react';
+import OnboardingWizard from '@/components/OnboardingWizard';
+
+export default function Onboarding() {
+    return <OnboardingWizard />;
+}
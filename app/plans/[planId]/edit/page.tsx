@@ -0,0 +1,16 @@
+'use client'
+import React from 'react';
+import { useParams } from 'next/navigation';
+import PlanEditor from "@/components/PlanEditor";
+
+export default function EditPlan() {
+    const { planId } = useParams<{ planId: string }>();
+
+    return (
+        <main className="min-h-screen bg-black pt-16" aria-label="Edit Workout Plan">
+            <div className="container mx-auto px-6 max-w-5xl py-12">
+                <PlanEditor planId={planId} />
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,16 @@
+'use client'
+import React from 'react';
+import { useParams } from 'next/navigation';
+import PlanPrintView from "@/components/PlanPrintView";
+
+export default function PrintPlan() {
+    const { planId } = useParams<{ planId: string }>();
+
+    return (
+        <main className="min-h-screen bg-black pt-16 print:bg-white print:pt-0" aria-label="Printable Workout Plan">
+            <div className="container mx-auto px-6 max-w-4xl py-12 print:max-w-none print:p-0">
+                <PlanPrintView planId={planId} />
+            </div>
+        </main>
+    );
+}
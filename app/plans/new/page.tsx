@@ -0,0 +1,13 @@
+'use client'
+import React from 'react';
+import PlanEditor from "@/components/PlanEditor";
+
+export default function NewPlan() {
+    return (
+        <main className="min-h-screen bg-black pt-16" aria-label="Build Workout Plan">
+            <div className="container mx-auto px-6 max-w-5xl py-12">
+                <PlanEditor />
+            </div>
+        </main>
+    );
+}
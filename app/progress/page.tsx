@@ -0,0 +1,7 @@
+'use client'
+import React from 'react';
+import ProgressMetricsPage from '@/components/ProgressMetrics';
+
+export default function Progress() {
+    return <ProgressMetricsPage />;
+}
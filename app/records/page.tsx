@@ -0,0 +1,7 @@
+'use client'
+import React from 'react';
+import PersonalRecordsBoard from '@/components/PersonalRecords';
+
+export default function Records() {
+    return <PersonalRecordsBoard />;
+}
@@ -0,0 +1,20 @@
+'use client'
+import React from 'react';
+import { useParams } from 'next/navigation';
+import WorkoutSessionLogger from "@/components/WorkoutSession";
+
+export default function WorkoutSession() {
+    const { workoutId } = useParams<{ workoutId: string }>();
+
+    return (
+        <main className="min-h-screen bg-black relative overflow-hidden pt-16" aria-label="Workout Session">
+            <div 
+                className="absolute inset-0 bg-gradient-to-br from-blue-900/30 via-purple-900/20 to-blue-900/30"
+                aria-hidden="true"
+            />
+            <div className="relative container mx-auto px-6 max-w-4xl py-12">
+                <WorkoutSessionLogger workoutId={workoutId} />
+            </div>
+        </main>
+    );
+}
@@ -0,0 +1,137 @@
+'use client'
+import React, { useState } from 'react';
+import type { MuscleGroup } from '@/types/supabase';
+import { FOCUS_SET_RANGE } from '@/lib/trainingVolume';
+
+type Shape =
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; rx?: number }
+  | { type: 'path'; d: string };
+
+type Region = { muscle: MuscleGroup; shapes: Shape[] };
+
+const mirror = (cx: number, cy: number, rx: number, ry: number): Shape[] => [
+  { type: 'ellipse', cx, cy, rx, ry },
+  { type: 'ellipse', cx: 100 - cx, cy, rx, ry }
+];
+
+const FRONT_REGIONS: Region[] = [
+  { muscle: 'traps', shapes: [{ type: 'path', d: 'M42 27 L50 31 L58 27 L64 33 L36 33 Z' }] },
+  { muscle: 'shoulders', shapes: mirror(30, 40, 8, 7) },
+  { muscle: 'chest', shapes: mirror(41, 47, 9, 7) },
+  { muscle: 'biceps', shapes: mirror(24, 61, 5, 10) },
+  { muscle: 'forearms', shapes: mirror(20, 85, 4.5, 11) },
+  { muscle: 'core', shapes: [{ type: 'rect', x: 40, y: 56, width: 20, height: 36, rx: 4 }] },
+  { muscle: 'quadriceps', shapes: mirror(42, 126, 7, 22) },
+  { muscle: 'calves', shapes: mirror(42, 176, 5, 15) }
+];
+
+const BACK_REGIONS: Region[] = [
+  { muscle: 'shoulders', shapes: mirror(30, 40, 8, 7) },
+  { muscle: 'back', shapes: [{ type: 'rect', x: 42, y: 42, width: 16, height: 18, rx: 3 }] },
+  { muscle: 'traps', shapes: [{ type: 'path', d: 'M50 24 L64 33 L50 46 L36 33 Z' }] },
+  { muscle: 'lats', shapes: [
+    { type: 'path', d: 'M38 46 L42 46 L42 72 L37 74 Q33 60 38 46 Z' },
+    { type: 'path', d: 'M62 46 L58 46 L58 72 L63 74 Q67 60 62 46 Z' }
+  ] },
+  { muscle: 'triceps', shapes: mirror(24, 61, 5, 10) },
+  { muscle: 'forearms', shapes: mirror(20, 85, 4.5, 11) },
+  { muscle: 'lower_back', shapes: [{ type: 'rect', x: 43, y: 74, width: 14, height: 16, rx: 3 }] },
+  { muscle: 'glutes', shapes: mirror(43, 104, 8, 9) },
+  { muscle: 'hamstrings', shapes: mirror(42, 134, 7, 18) },
+  { muscle: 'calves', shapes: mirror(42, 176, 6, 15) }
+];
+
+const HEAT_LEVELS = [
+  { label: 'None', fill: '#1F2937', matches: (sets: number) => sets <= 0 },
+  { label: `< ${FOCUS_SET_RANGE.min / 2}`, fill: '#1E3A8A', matches: (sets: number) => sets < FOCUS_SET_RANGE.min / 2 },
+  { label: `${FOCUS_SET_RANGE.min / 2}–${FOCUS_SET_RANGE.min - 1}`, fill: '#2563EB', matches: (sets: number) => sets < FOCUS_SET_RANGE.min },
+  { label: `${FOCUS_SET_RANGE.min}–${FOCUS_SET_RANGE.max}`, fill: '#60A5FA', matches: (sets: number) => sets <= FOCUS_SET_RANGE.max },
+  { label: `> ${FOCUS_SET_RANGE.max}`, fill: '#A855F7', matches: () => true }
+];
+
+const getHeatFill = (sets: number): string => HEAT_LEVELS.find(level => level.matches(sets))!.fill;
+
+const formatMuscle = (muscle: string) => muscle.replace('_', ' ');
+
+const renderShape = (shape: Shape, key: number, props: React.SVGProps<SVGElement>) => {
+  switch (shape.type) {
+    case 'ellipse':
+      return <ellipse key={key} cx={shape.cx} cy={shape.cy} rx={shape.rx} ry={shape.ry} {...props as React.SVGProps<SVGEllipseElement>} />;
+    case 'rect':
+      return <rect key={key} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.rx} {...props as React.SVGProps<SVGRectElement>} />;
+    case 'path':
+      return <path key={key} d={shape.d} {...props as React.SVGProps<SVGPathElement>} />;
+  }
+};
+
+interface BodyFigureProps {
+  label: string;
+  regions: Region[];
+  muscleSets: Partial<Record<MuscleGroup, number>>;
+  hovered: MuscleGroup | null;
+  onHover: (muscle: MuscleGroup | null) => void;
+}
+
+const BodyFigure = ({ label, regions, muscleSets, hovered, onHover }: BodyFigureProps) => (
+  <figure className="flex flex-col items-center gap-1">
+    <svg viewBox="0 0 100 200" className="h-56 w-auto" role="img" aria-label={`${label} muscle map`}>
+      <circle cx={50} cy={13} r={10} fill="#111827" stroke="#374151" />
+      <rect x={45} y={22} width={10} height={6} fill="#111827" />
+      <rect x={38} y={92} width={24} height={12} rx={4} fill="#111827" />
+      {regions.map(({ muscle, shapes }) => {
+        const sets = muscleSets[muscle] ?? 0;
+        return (
+          <g
+            key={muscle}
+            onMouseEnter={() => onHover(muscle)}
+            onMouseLeave={() => onHover(null)}
+            className="cursor-pointer"
+          >
+            <title>{`${formatMuscle(muscle)}: ${sets} sets`}</title>
+            {shapes.map((shape, index) => renderShape(shape, index, {
+              fill: getHeatFill(sets),
+              stroke: hovered === muscle ? '#E5E7EB' : '#374151',
+              strokeWidth: hovered === muscle ? 1.5 : 0.75
+            }))}
+          </g>
+        );
+      })}
+    </svg>
+    <figcaption className="text-xs text-blue-200/60">{label}</figcaption>
+  </figure>
+);
+
+interface BodyHeatmapProps {
+  muscleSets: Partial<Record<MuscleGroup, number>>;
+  unitLabel?: string;
+}
+
+export default function BodyHeatmap({ muscleSets, unitLabel = 'hard sets per week' }: BodyHeatmapProps) {
+  const [hovered, setHovered] = useState<MuscleGroup | null>(null);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-center gap-6">
+        <BodyFigure label="Front" regions={FRONT_REGIONS} muscleSets={muscleSets} hovered={hovered} onHover={setHovered} />
+        <BodyFigure label="Back" regions={BACK_REGIONS} muscleSets={muscleSets} hovered={hovered} onHover={setHovered} />
+      </div>
+
+      <p className="h-5 text-center text-sm capitalize text-blue-100">
+        {hovered
+          ? `${formatMuscle(hovered)}: ${muscleSets[hovered] ?? 0} ${unitLabel}`
+          : <span className="normal-case text-blue-200/60">Hover a muscle for details</span>}
+      </p>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-blue-200/80">
+        {HEAT_LEVELS.map(level => (
+          <span key={level.label} className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm border border-gray-600" style={{ backgroundColor: level.fill }} />
+            {level.label}
+          </span>
+        ))}
+        <span className="text-blue-200/60">sets</span>
+      </div>
+    </div>
+  );
+}
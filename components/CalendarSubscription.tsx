@@ -0,0 +1,127 @@
+'use client'
+import React, { useEffect, useState } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { toast } from 'sonner';
+import { CalendarPlus, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { getCalendarFeedToken, revokeCalendarFeedToken, rotateCalendarFeedToken } from '@/lib/icalendar';
+
+const getFeedUrl = (token: string) => `${window.location.origin}/api/calendar/${token}.ics`;
+
+export default function CalendarSubscription() {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+
+    getCalendarFeedToken(supabase, session.user.id)
+      .then(setToken)
+      .catch(err => console.error('Error loading calendar feed token:', err))
+      .finally(() => setLoading(false));
+  }, [session, supabase]);
+
+  const handleRotate = async () => {
+    if (token && !confirm('Reset the link? Calendars subscribed to the old link will stop updating.')) return;
+
+    setWorking(true);
+    try {
+      setToken(await rotateCalendarFeedToken(supabase));
+      toast.success(token ? 'Calendar link reset' : 'Calendar link created');
+    } catch (err) {
+      console.error('Error rotating calendar feed token:', err);
+      toast.error('Failed to create a calendar link. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!session?.user?.id || !confirm('Revoke the link? Subscribed calendars will stop receiving your workouts.')) return;
+
+    setWorking(true);
+    try {
+      await revokeCalendarFeedToken(supabase, session.user.id);
+      setToken(null);
+      toast.success('Calendar link revoked');
+    } catch (err) {
+      console.error('Error revoking calendar feed token:', err);
+      toast.error('Failed to revoke the calendar link. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(getFeedUrl(token));
+    toast.success('Calendar link copied');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-blue-200/60">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading calendar subscription...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-blue-500/20 bg-black/40 p-4">
+      <div className="flex items-center gap-2 text-blue-300">
+        <CalendarPlus className="h-4 w-4" />
+        <span className="font-medium">Calendar Subscription</span>
+      </div>
+
+      {token ? (
+        <>
+          <p className="text-sm text-blue-200/60">
+            Subscribe to this private link in Google Calendar, Outlook or Apple Calendar. Anyone with the link can see your workouts.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Input
+              readOnly
+              value={getFeedUrl(token)}
+              onFocus={e => e.target.select()}
+              className="flex-1 min-w-64 bg-gray-800/50 border-blue-500/20 text-blue-100 font-mono text-xs"
+            />
+            <Button variant="outline" size="sm" onClick={handleCopy} className="border-blue-500/20 text-blue-200">
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </Button>
+            <Button variant="outline" size="sm" asChild className="border-blue-500/20 text-blue-200">
+              <a href={getFeedUrl(token).replace(/^https?:/, 'webcal:')}>Subscribe</a>
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={handleRotate} disabled={working} className="text-blue-300">
+              <RefreshCw className="h-4 w-4 mr-1" />
+              Reset link
+            </Button>
+            <Button variant="ghost" size="sm" onClick={handleRevoke} disabled={working} className="text-red-400">
+              <Trash2 className="h-4 w-4 mr-1" />
+              Revoke
+            </Button>
+          </div>
+        </>
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-blue-200/60">
+            Get a private link to see your active plan in your work calendar.
+          </p>
+          <Button size="sm" onClick={handleRotate} disabled={working}>
+            {working && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Create calendar link
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+'use client'
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { ArrowLeftRight, Loader2, X } from 'lucide-react';
+import { formatPlanName } from '@/lib/utils';
+import type { ExerciseAlternative } from '@/lib/exerciseSubstitution';
+
+interface ExerciseSwapProps {
+  exerciseId: string;
+  exerciseName: string;
+  onSwapped: () => void | Promise<void>;
+}
+
+export default function ExerciseSwap({ exerciseId, exerciseName, onSwapped }: ExerciseSwapProps) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [alternatives, setAlternatives] = useState<ExerciseAlternative[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [replacing, setReplacing] = useState<string | null>(null);
+
+  const close = () => {
+    setOpen(false);
+    setAlternatives([]);
+    setReason('');
+  };
+
+  const findAlternatives = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/exercises/${exerciseId}/alternatives`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reason: reason.trim() || undefined })
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to suggest alternatives');
+      setAlternatives(result.alternatives);
+    } catch (err) {
+      console.error('Error fetching alternatives:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to suggest alternatives');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReplace = async (alternative: ExerciseAlternative) => {
+    setReplacing(alternative.name);
+    try {
+      const response = await fetch(`/api/exercises/${exerciseId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(alternative)
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to replace exercise');
+
+      toast.success(`Swapped ${formatPlanName(exerciseName)} for ${formatPlanName(alternative.name)}`);
+      close();
+      await onSwapped();
+    } catch (err) {
+      console.error('Error replacing exercise:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to replace exercise');
+    } finally {
+      setReplacing(null);
+    }
+  };
+
+  if (!open) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="h-7 px-2 text-xs text-purple-300 hover:bg-purple-500/10"
+      >
+        <ArrowLeftRight className="h-3 w-3 mr-1" />
+        Swap
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-lg border border-purple-500/20 bg-black/40 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-purple-300">Swap {formatPlanName(exerciseName)}</span>
+        <Button variant="ghost" size="icon" onClick={close} className="h-6 w-6 text-blue-200/60" aria-label="Close">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {alternatives.length === 0 ? (
+        <div className="flex gap-2">
+          <Input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Why? e.g. machine busy, knee pain"
+            className="h-8 bg-gray-800/50 border-purple-500/20 text-blue-100 text-xs"
+          />
+          <Button size="sm" onClick={findAlternatives} disabled={loading} className="h-8">
+            {loading && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Find alternatives
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {alternatives.map(alternative => (
+            <div
+              key={alternative.name}
+              className="flex items-start justify-between gap-3 rounded-md border border-blue-500/10 bg-blue-950/30 p-2"
+            >
+              <div className="space-y-1">
+                <p className="text-sm font-medium text-blue-100">{formatPlanName(alternative.name)}</p>
+                <p className="text-xs text-blue-200/60">{alternative.reason}</p>
+                <div className="flex flex-wrap gap-1">
+                  {alternative.equipment_needed.map(item => (
+                    <Badge key={item} className="text-xs bg-blue-500/10 text-blue-200 border-blue-500/20">
+                      {item}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => handleReplace(alternative)}
+                disabled={replacing !== null}
+                className="h-7 shrink-0"
+              >
+                {replacing === alternative.name && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Use
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={findAlternatives}
+            disabled={loading || replacing !== null}
+            className="h-7 text-xs text-purple-300"
+          >
+            {loading && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+            Suggest others
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,422 @@
+'use client'
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CheckCircle2, Dumbbell, History, Loader2, Plus, Target, Trash2 } from 'lucide-react';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+import { formatPlanName } from '@/lib/utils';
+import { computeLiftRecords } from '@/lib/personalRecords';
+import { formatDistance, formatWeight, getUnitLabel, parseDisplayInput, type UnitSystem } from '@/lib/units';
+import { formatClockTime } from '@/lib/workoutSession';
+import {
+  GOAL_TARGET_KINDS,
+  GOAL_TARGET_LABELS,
+  GoalTargetSchema,
+  fetchGoalHistory,
+  getCurrentValue,
+  parseGoalTargets,
+  saveGoalTargets,
+  syncGoals,
+  type GoalHistory,
+  type GoalStatus,
+  type GoalTarget,
+  type GoalTargetKind,
+  type GoalWithProgress
+} from '@/lib/goals';
+
+const STATUS_STYLES: Record<GoalStatus, string> = {
+  active: 'bg-blue-500/20 text-blue-200',
+  completed: 'bg-green-500/20 text-green-300',
+  abandoned: 'bg-gray-500/20 text-gray-300'
+};
+
+const EMPTY_HISTORY: GoalHistory = { metrics: [], lifts: [], runs: [], lastWorkoutAt: null };
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+const formatTargetValue = (kind: GoalTargetKind, value: number, unitSystem: UnitSystem): string => {
+  switch (kind) {
+    case 'body_weight':
+    case 'lift_e1rm':
+      return formatWeight(value, unitSystem);
+    case 'body_fat':
+      return `${value}%`;
+    case 'run_time':
+      return formatClockTime(value * 60);
+  }
+};
+
+const getTargetUnit = (kind: GoalTargetKind, unitSystem: UnitSystem): string =>
+  kind === 'body_fat' ? '%' : kind === 'run_time' ? 'min' : getUnitLabel('weight', unitSystem);
+
+const describeTarget = (target: GoalTarget, unitSystem: UnitSystem): string => {
+  switch (target.kind) {
+    case 'lift_e1rm':
+      return `${GOAL_TARGET_LABELS[target.kind]}: ${formatPlanName(target.exercise_name)}`;
+    case 'run_time':
+      return `${GOAL_TARGET_LABELS[target.kind]}: ${formatPlanName(target.exercise_name)}, ${formatDistance(target.distance_km, unitSystem)}`;
+    default:
+      return GOAL_TARGET_LABELS[target.kind];
+  }
+};
+
+interface TargetFormProps {
+  goal: GoalWithProgress;
+  history: GoalHistory;
+  onSaved: () => Promise<void>;
+}
+
+function TargetForm({ goal, history, onSaved }: TargetFormProps) {
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+
+  const [kind, setKind] = useState<GoalTargetKind>('body_weight');
+  const [exerciseKey, setExerciseKey] = useState('');
+  const [distance, setDistance] = useState('');
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const exerciseOptions = useMemo(() => {
+    const entries = kind === 'run_time'
+      ? history.runs.map(run => [run.exerciseKey, run.exerciseName] as const)
+      : computeLiftRecords(history.lifts).map(record => [record.liftKey, record.exerciseName] as const);
+    return [...new Map(entries).entries()];
+  }, [kind, history]);
+
+  const needsExercise = kind === 'lift_e1rm' || kind === 'run_time';
+
+  const handleAdd = async () => {
+    const amount = kind === 'body_weight' || kind === 'lift_e1rm'
+      ? parseDisplayInput(value, 'weight', unitSystem)
+      : value.trim() ? Number(value) : null;
+    const exerciseName = exerciseOptions.find(([key]) => key === exerciseKey)?.[1] ?? '';
+
+    const result = GoalTargetSchema.safeParse(
+      needsExercise
+        ? {
+          kind,
+          exercise_key: exerciseKey,
+          exercise_name: exerciseName,
+          ...(kind === 'run_time' && { distance_km: parseDisplayInput(distance, 'distance', unitSystem) }),
+          target: amount,
+          start: null
+        }
+        : { kind, target: amount, start: null }
+    );
+
+    if (!result.success) {
+      toast.error(needsExercise && !exerciseKey ? 'Choose an exercise for this target' : 'Enter a valid target value');
+      return;
+    }
+
+    const target = { ...result.data, start: getCurrentValue(result.data, history, goal.created_at) };
+
+    setSaving(true);
+    try {
+      await saveGoalTargets(supabase, goal, [...parseGoalTargets(goal.specific_targets), target]);
+      setValue('');
+      setDistance('');
+      toast.success('Target added');
+      await onSaved();
+    } catch (err) {
+      console.error('Error saving goal target:', err);
+      toast.error('Failed to save the target. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className={`grid grid-cols-1 ${
+      kind === 'run_time' ? 'md:grid-cols-[1fr_1fr_8rem_8rem_auto]' : 'md:grid-cols-[1fr_1fr_8rem_auto]'
+    } gap-3 items-end rounded-lg border border-blue-500/20 bg-black/40 p-3`}>
+      <div className="space-y-1">
+        <Label className="text-xs text-blue-200/80">Target</Label>
+        <Select value={kind} onValueChange={next => { setKind(next as GoalTargetKind); setExerciseKey(''); }}>
+          <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-gray-800 border-blue-500/20">
+            {GOAL_TARGET_KINDS.map(option => (
+              <SelectItem key={option} value={option} className="text-blue-100">
+                {GOAL_TARGET_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-blue-200/80">Exercise</Label>
+        {needsExercise ? (
+          <Select value={exerciseKey} onValueChange={setExerciseKey} disabled={exerciseOptions.length === 0}>
+            <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+              <SelectValue placeholder={exerciseOptions.length ? 'Select exercise' : 'Log this exercise first'} />
+            </SelectTrigger>
+            <SelectContent className="bg-gray-800 border-blue-500/20">
+              {exerciseOptions.map(([key, name]) => (
+                <SelectItem key={key} value={key} className="text-blue-100">
+                  {formatPlanName(name)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="h-10 flex items-center text-sm text-blue-200/60">From your progress measurements</p>
+        )}
+      </div>
+
+      {kind === 'run_time' && (
+        <div className="space-y-1">
+          <Label className="text-xs text-blue-200/80">Distance ({getUnitLabel('distance', unitSystem)})</Label>
+          <Input
+            type="number"
+            step="0.1"
+            min="0"
+            value={distance}
+            onChange={e => setDistance(e.target.value)}
+            className="bg-gray-800/50 border-blue-500/20 text-blue-100"
+          />
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs text-blue-200/80">Value ({getTargetUnit(kind, unitSystem)})</Label>
+        <Input
+          type="number"
+          step="0.1"
+          min="0"
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          className="bg-gray-800/50 border-blue-500/20 text-blue-100"
+        />
+      </div>
+
+      <Button onClick={handleAdd} disabled={saving}>
+        {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+        Add
+      </Button>
+    </div>
+  );
+}
+
+interface GoalCardProps {
+  goal: GoalWithProgress;
+  history: GoalHistory;
+  onChanged: () => Promise<void>;
+}
+
+function GoalCard({ goal, history, onChanged }: GoalCardProps) {
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+  const [removing, setRemoving] = useState<number | null>(null);
+
+  const handleRemove = async (index: number) => {
+    setRemoving(index);
+    try {
+      await saveGoalTargets(supabase, goal, parseGoalTargets(goal.specific_targets).filter((_, i) => i !== index));
+      await onChanged();
+    } catch (err) {
+      console.error('Error removing goal target:', err);
+      toast.error('Failed to remove the target. Please try again.');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-xl border border-blue-500/20 bg-blue-950/20 p-5">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-blue-100">{formatPlanName(goal.goal_type)}</h3>
+          <p className="text-sm text-blue-200/60">
+            Started {formatDate(goal.created_at)} · Target date {formatDate(goal.target_date)}
+            {goal.status !== 'active' && ` · ${goal.status === 'completed' ? 'Completed' : 'Abandoned'} ${formatDate(goal.updated_at)}`}
+          </p>
+        </div>
+        <Badge className={`${STATUS_STYLES[goal.status]} border-none capitalize`}>{goal.status}</Badge>
+      </div>
+
+      {goal.targets.length === 0 ? (
+        <p className="text-sm text-blue-200/60">
+          {goal.status === 'active'
+            ? 'No measurable targets yet. Without one, this goal completes on its target date if you keep training.'
+            : 'This goal had no measurable targets.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {goal.targets.map((progress, index) => (
+            <li key={index} className="space-y-1">
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="flex items-center gap-2 text-blue-100">
+                  {progress.achieved && <CheckCircle2 className="h-4 w-4 text-green-400" />}
+                  {describeTarget(progress.target, unitSystem)}
+                </span>
+                <span className="flex items-center gap-2 font-mono text-blue-200">
+                  {progress.current !== null ? formatTargetValue(progress.target.kind, progress.current, unitSystem) : '—'}
+                  {' / '}
+                  {formatTargetValue(progress.target.kind, progress.target.target, unitSystem)}
+                  {goal.status === 'active' && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(index)}
+                      disabled={removing !== null}
+                      className="h-6 w-6"
+                      aria-label="Remove target"
+                    >
+                      {removing === index ? <Loader2 className="h-3 w-3 animate-spin" /> : <Trash2 className="h-3 w-3 text-red-400" />}
+                    </Button>
+                  )}
+                </span>
+              </div>
+              <Progress value={progress.percent ?? 0} className="h-2 bg-blue-950" />
+              {progress.current === null && (
+                <p className="text-xs text-blue-200/60">No data logged since this goal started.</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {goal.status === 'active' && <TargetForm goal={goal} history={history} onSaved={onChanged} />}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-blue-300">Linked plans</p>
+        {goal.plans.length === 0 ? (
+          <p className="text-sm text-blue-200/60">No plans linked to this goal.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {goal.plans.map(plan => (
+              <Link
+                key={plan.id}
+                href="/workouts"
+                className="flex items-center gap-2 rounded-lg border border-blue-500/20 bg-blue-500/5 px-3 py-1.5 text-sm text-blue-100 hover:bg-blue-500/10"
+              >
+                <Dumbbell className="h-3 w-3 text-blue-400" />
+                {formatPlanName(plan.name)}
+                <span className="text-xs text-blue-200/60">{plan.duration_weeks} weeks</span>
+                {plan.is_active && <Badge className="bg-green-500/20 text-green-300 border-none">Active</Badge>}
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function GoalTracker() {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [goals, setGoals] = useState<GoalWithProgress[]>([]);
+  const [history, setHistory] = useState<GoalHistory>(EMPTY_HISTORY);
+
+  const loadGoals = useCallback(async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const goalHistory = await fetchGoalHistory(supabase, session.user.id);
+      setHistory(goalHistory);
+      setGoals(await syncGoals(supabase, session.user.id, undefined, goalHistory));
+    } catch (err) {
+      console.error('Error loading goals:', err);
+      setError('Failed to load your goals. Please refresh the page.');
+    } finally {
+      setLoading(false);
+    }
+  }, [session?.user?.id, supabase]);
+
+  useEffect(() => {
+    loadGoals();
+  }, [loadGoals]);
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Alert className="max-w-lg bg-gray-900/80 border border-blue-500/20 text-blue-100">
+          <AlertDescription className="text-lg">Please sign in to track your goals.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  const activeGoals = goals.filter(goal => goal.status === 'active');
+  const pastGoals = goals.filter(goal => goal.status !== 'active');
+
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden p-20">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-900/20 via-purple-900/20 to-blue-900/20"></div>
+
+      <div className="relative container mx-auto px-4 max-w-5xl py-12 space-y-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <Target className="h-8 w-8 text-blue-400" />
+              <div>
+                <CardTitle className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
+                  Goals
+                </CardTitle>
+                <CardDescription className="text-blue-200/80">
+                  Set measurable targets and track them against your logs
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {activeGoals.length === 0 ? (
+              <p className="text-gray-400">
+                No active goals. Generating a workout plan starts a new goal.
+              </p>
+            ) : (
+              activeGoals.map(goal => <GoalCard key={goal.id} goal={goal} history={history} onChanged={loadGoals} />)
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-gray-100">
+              <History className="h-6 w-6 text-blue-400" />
+              History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {pastGoals.length === 0 ? (
+              <p className="text-gray-400">Completed and abandoned goals will show up here.</p>
+            ) : (
+              pastGoals.map(goal => <GoalCard key={goal.id} goal={goal} history={history} onChanged={loadGoals} />)
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface MetricChartProps<T> {
+    data: T[];
+    dataKey: keyof T & string;
+    label: string;
+    unit?: string;
+    dateKey?: keyof T & string;
+    domain?: [number | 'auto', number | 'auto'];
+    emptyMessage?: string;
+}
+
+export default function MetricChart<T>({
+    data,
+    dataKey,
+    label,
+    unit = '',
+    dateKey = 'measurement_date' as keyof T & string,
+    domain = ['auto', 'auto'],
+    emptyMessage = 'No data available yet'
+}: MetricChartProps<T>) {
+    const suffix = unit ? ` ${unit}` : '';
+    const points = data.filter(point => point[dataKey] !== null && point[dataKey] !== undefined);
+
+    if (points.length === 0) {
+        return (
+            <div className="h-full flex items-center justify-center text-gray-400">
+                {emptyMessage}
+            </div>
+        );
+    }
+
+    return (
+        <ResponsiveContainer width="100%" height="100%">
+            <LineChart 
+                data={points}
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis 
+                    dataKey={dateKey as string}
+                    tickFormatter={(date) => new Date(date).toLocaleDateString()}
+                    stroke="#9CA3AF"
+                    minTickGap={50}
+                />
+                <YAxis 
+                    domain={domain}
+                    tickFormatter={(value) => `${Number(value).toFixed(1)}${suffix}`}
+                    stroke="#9CA3AF"
+                />
+                <Tooltip 
+                    contentStyle={{
+                        backgroundColor: 'rgba(17, 24, 39, 0.8)',
+                        border: '1px solid rgba(59, 130, 246, 0.2)',
+                        borderRadius: '0.5rem',
+                        backdropFilter: 'blur(4px)'
+                    }}
+                    labelStyle={{ color: '#E5E7EB' }}
+                    itemStyle={{ color: '#93C5FD' }}
+                    labelFormatter={(date) => new Date(date).toLocaleDateString()}
+                    formatter={(value) => [`${Number(value).toFixed(1)}${suffix}`, label]}
+                />
+                <Line 
+                    type="monotone" 
+                    dataKey={dataKey} 
+                    stroke="#3B82F6"
+                    strokeWidth={2}
+                    dot={{
+                        stroke: '#3B82F6',
+                        strokeWidth: 2,
+                        r: 4,
+                        fill: '#1E3A8A'
+                    }}
+                    activeDot={{
+                        stroke: '#3B82F6',
+                        strokeWidth: 2,
+                        r: 6,
+                        fill: '#1E3A8A'
+                    }}
+                />
+            </LineChart>
+        </ResponsiveContainer>
+    );
+}
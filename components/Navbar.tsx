@@ -2,7 +2,7 @@
 'use client'
 import React, { useState, useEffect } from 'react';
 import { useSupabaseClient } from '@supabase/auth-helpers-react';
-import { Menu, X, User, Dumbbell, Home, LogOut, LogIn,  } from 'lucide-react';
+import { Menu, X, User, Dumbbell, Home, LogOut, LogIn, TrendingUp, Trophy, Target } from 'lucide-react';
 import { useRouter } from 'next/navigation';
 
 const Navbar = () => {
@@ -47,12 +47,15 @@ const Navbar = () => {
   const navigationItems = [
     { name: 'Home', href: '/dashboard', icon: Home },
     { name: 'Workouts', href: '/workouts', icon: Dumbbell },
+    { name: 'Progress', href: '/progress', icon: TrendingUp },
+    { name: 'Records', href: '/records', icon: Trophy },
+    { name: 'Goals', href: '/goals', icon: Target },
     { name: 'Profile', href: '/profile', icon: User },
   ];
 
   return (
     <>
-      <div className="fixed top-0 left-0 w-full">
+      <div className="fixed top-0 left-0 w-full print:hidden">
         <div className="absolute inset-0 h-16 bg-black/95" />
         <div className="absolute inset-0 h-16 bg-gradient-to-r from-blue-900/20 via-purple-900/20 to-blue-900/20" />
         <div className="absolute inset-0 h-16">
@@ -61,7 +64,7 @@ const Navbar = () => {
         </div>
       </div>
 
-      <nav className={`fixed w-full top-0 z-50 transition-all duration-300`}>
+      <nav className={`fixed w-full top-0 z-50 transition-all duration-300 print:hidden`}>
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between h-16">
             <div className="flex items-center">
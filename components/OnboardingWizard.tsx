@@ -0,0 +1,712 @@
+'use client'
+import React, { useState, useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, ChevronLeft, ChevronRight, Sparkles, Dumbbell } from 'lucide-react';
+import {
+  ONBOARDING_STEPS,
+  completeOnboarding,
+  getPreviousStep,
+  loadOnboardingState,
+  saveOnboardingStep,
+  type OnboardingState,
+  type OnboardingStep,
+  type PlanPreferences
+} from '@/lib/onboarding';
+import {
+  EQUIPMENT_OPTIONS,
+  GOAL_TYPES,
+  VALID_MUSCLE_GROUPS,
+  VALID_WORKOUT_TYPES,
+  type GoalType,
+  type MuscleGroup,
+  type WorkoutType
+} from '@/lib/workoutPlan';
+import { readPlanEvents } from '@/lib/planStream';
+import {
+  UNIT_SYSTEMS,
+  UNIT_SYSTEM_LABELS,
+  getUnitLabel,
+  parseDisplayInput,
+  toDisplayValue,
+  type UnitSystem
+} from '@/lib/units';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+
+type Profile = Database['public']['Tables']['profiles']['Row'];
+type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+type ActivityLevel = NonNullable<Profile['activity_level']>;
+type FitnessLevel = NonNullable<Profile['fitness_level']>;
+
+const fitnessLevels: FitnessLevel[] = ['beginner', 'intermediate', 'advanced'];
+const activityLevels: ActivityLevel[] = ['sedentary', 'lightly_active', 'moderately_active', 'very_active'];
+const genders = ['male', 'female', 'other'];
+
+const STEP_TITLES: Record<OnboardingStep, { title: string; description: string }> = {
+  welcome: { title: 'Welcome to Athleto', description: 'A few questions and we will build your first plan.' },
+  personal_info: { title: 'About You', description: 'Used to calculate your BMI and track your progress.' },
+  fitness_assessment: { title: 'Fitness Assessment', description: 'Tell us where you are starting from.' },
+  goal_setting: { title: 'Your Goals', description: 'What do you want your training to achieve?' },
+  equipment_check: { title: 'Equipment', description: 'Select everything you have access to. Leave empty for bodyweight only.' },
+  schedule_setup: { title: 'Schedule', description: 'How often and how long do you want to train?' },
+  tutorial_complete: { title: 'You are all set', description: 'Here is how Athleto works. Then we generate your first plan.' }
+};
+
+const formatLabel = (value: string) =>
+  value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const profileUpdateForStep = (step: OnboardingStep, profile: Profile): ProfileUpdate | null => {
+  switch (step) {
+    case 'personal_info': {
+      const heightInMeters = Number(profile.height) / 100;
+      return {
+        full_name: profile.full_name,
+        age: profile.age,
+        gender: profile.gender,
+        height: profile.height,
+        weight: profile.weight,
+        unit_system: profile.unit_system,
+        current_bmi: Math.round((Number(profile.weight) / (heightInMeters * heightInMeters)) * 10) / 10
+      };
+    }
+    case 'fitness_assessment':
+      return {
+        fitness_level: profile.fitness_level,
+        activity_level: profile.activity_level,
+        medical_conditions: profile.medical_conditions
+      };
+    case 'goal_setting':
+      return { target_weight: profile.target_weight };
+    case 'equipment_check':
+      return { available_equipment: profile.available_equipment ?? [] };
+    case 'schedule_setup':
+      return { preferred_workout_time: profile.preferred_workout_time };
+    default:
+      return null;
+  }
+};
+
+const validateStep = (step: OnboardingStep, profile: Profile, preferences: PlanPreferences): string | null => {
+  switch (step) {
+    case 'personal_info':
+      if (!profile.age || profile.age < 13 || profile.age > 120) return 'Please enter an age between 13 and 120';
+      if (!profile.height || !profile.weight) return 'Please enter your height and weight';
+      return null;
+    case 'fitness_assessment':
+      return profile.fitness_level && profile.activity_level ? null : 'Please select your fitness and activity level';
+    case 'goal_setting':
+      if (!preferences.goalType || !preferences.workoutType) return 'Please select a goal and a workout type';
+      return preferences.focusMuscles.length ? null : 'Please select at least one muscle group to focus on';
+    default:
+      return null;
+  }
+};
+
+export default function OnboardingWizard() {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const { setUnitSystem } = useUnitSystem();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [progressText, setProgressText] = useState<string | null>(null);
+  const [state, setState] = useState<OnboardingState | null>(null);
+  const [step, setStep] = useState<OnboardingStep>('welcome');
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [preferences, setPreferences] = useState<PlanPreferences | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    const fetchOnboarding = async () => {
+      if (!session?.user?.id) return;
+
+      try {
+        const [onboarding, { data: profileData, error: profileError }] = await Promise.all([
+          loadOnboardingState(supabase, session.user.id),
+          supabase.from('profiles').select('*').eq('id', session.user.id).single()
+        ]);
+
+        if (profileError) throw profileError;
+
+        setState(onboarding);
+        setStep(onboarding.currentStep);
+        setPreferences(onboarding.planPreferences);
+        setProfile(profileData);
+      } catch (error) {
+        console.error('Error loading onboarding progress:', error);
+        setMessage({ type: 'error', text: 'Failed to load your onboarding progress. Please refresh the page.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchOnboarding();
+  }, [session, supabase]);
+
+  const updateProfile = (changes: Partial<Profile>) => {
+    setProfile(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const updatePreferences = (changes: Partial<PlanPreferences>) => {
+    setPreferences(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleNext = async () => {
+    if (!session?.user?.id || !state || !profile || !preferences) return;
+
+    const validationError = validateStep(step, profile, preferences);
+    if (validationError) {
+      setMessage({ type: 'error', text: validationError });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const profileUpdate = profileUpdateForStep(step, profile);
+      if (profileUpdate) {
+        const { error } = await supabase
+          .from('profiles')
+          .update({ ...profileUpdate, updated_at: new Date().toISOString() })
+          .eq('id', session.user.id);
+
+        if (error) throw error;
+      }
+
+      const next = await saveOnboardingStep(supabase, session.user.id, state, step, preferences);
+      setState(next);
+      setStep(next.currentStep);
+    } catch (error) {
+      console.error('Error saving onboarding step:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save your answers. Please try again.'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const finishOnboarding = async () => {
+    if (!session?.user?.id || !state || !preferences) return;
+
+    await completeOnboarding(supabase, session.user.id, state);
+    router.push('/dashboard');
+  };
+
+  const generateFirstPlan = async () => {
+    if (!session?.user?.id || !state || !preferences || !profile) return;
+
+    setGenerating(true);
+    setMessage(null);
+    setProgressText('Designing your first plan...');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    try {
+      const response = await fetch('/api/generate-workout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          goalType: preferences.goalType,
+          workoutType: preferences.workoutType,
+          durationWeeks: preferences.durationWeeks,
+          daysPerWeek: preferences.daysPerWeek,
+          focusMuscles: preferences.focusMuscles,
+          availableEquipment: profile.available_equipment ?? []
+        }),
+        signal: abortController.signal,
+      });
+
+      if (response.status === 409) {
+        await finishOnboarding();
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || `Failed to generate workout plan: ${response.statusText}`);
+      }
+
+      let completed = false;
+      let workoutsReceived = 0;
+      await readPlanEvents(response.body, event => {
+        switch (event.type) {
+          case 'workout':
+            workoutsReceived += 1;
+            setProgressText(`Planned ${workoutsReceived} of ${preferences.daysPerWeek} workouts...`);
+            break;
+          case 'repair':
+            workoutsReceived = 0;
+            setProgressText('Polishing the plan...');
+            break;
+          case 'saving':
+            setProgressText('Saving your plan...');
+            break;
+          case 'complete':
+            completed = true;
+            break;
+          case 'error':
+            throw new Error(event.error);
+        }
+      });
+
+      if (!completed) {
+        throw new Error('Plan generation ended unexpectedly. Please try again.');
+      }
+
+      await finishOnboarding();
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      console.error('Error generating first plan:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to generate your plan. Please try again.'
+      });
+    } finally {
+      abortControllerRef.current = null;
+      setProgressText(null);
+      setGenerating(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Alert className="max-w-lg bg-gray-900/80 border border-blue-500/20 text-blue-100">
+          <AlertDescription className="text-lg">Please sign in to get started.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (loading || !profile || !preferences) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        {message ? (
+          <Alert variant="destructive" className="max-w-lg">
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        ) : (
+          <Loader2 className="h-12 w-12 animate-spin text-blue-400" />
+        )}
+      </div>
+    );
+  }
+
+  const stepIndex = ONBOARDING_STEPS.indexOf(step);
+  const isLastStep = step === 'tutorial_complete';
+  const inputClassName = 'bg-gray-800/50 border-blue-500/20 text-blue-100 focus:border-blue-400 focus:ring-blue-400/50';
+
+  const renderStep = () => {
+    switch (step) {
+      case 'welcome':
+        return (
+          <div className="space-y-4 text-blue-100">
+            <p>Athleto builds workout plans around your body, goals, equipment and schedule.</p>
+            <p className="text-blue-200/70">
+              This takes about two minutes. Your answers are saved after every step, so you can leave and pick up where you stopped.
+            </p>
+          </div>
+        );
+
+      case 'personal_info':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2 md:col-span-2">
+              <Label className="text-blue-100">Full Name</Label>
+              <Input
+                value={profile.full_name || ''}
+                onChange={e => updateProfile({ full_name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Age</Label>
+              <Input
+                type="number"
+                min="13"
+                max="120"
+                value={profile.age || ''}
+                onChange={e => updateProfile({ age: e.target.value ? Number(e.target.value) : null })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Gender</Label>
+              <Select value={profile.gender || ''} onValueChange={value => updateProfile({ gender: value })}>
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select gender" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {genders.map(gender => (
+                    <SelectItem key={gender} value={gender} className="text-blue-100 capitalize">
+                      {gender}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Units</Label>
+              <Select
+                value={profile.unit_system}
+                onValueChange={value => {
+                  updateProfile({ unit_system: value as UnitSystem });
+                  setUnitSystem(value as UnitSystem);
+                }}
+              >
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select units" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {UNIT_SYSTEMS.map(system => (
+                    <SelectItem key={system} value={system} className="text-blue-100">
+                      {UNIT_SYSTEM_LABELS[system]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Height ({getUnitLabel('length', profile.unit_system)})</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={toDisplayValue(profile.height, 'length', profile.unit_system) || ''}
+                onChange={e => updateProfile({ height: parseDisplayInput(e.target.value, 'length', profile.unit_system) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Weight ({getUnitLabel('weight', profile.unit_system)})</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={toDisplayValue(profile.weight, 'weight', profile.unit_system) || ''}
+                onChange={e => updateProfile({ weight: parseDisplayInput(e.target.value, 'weight', profile.unit_system) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+
+      case 'fitness_assessment':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-blue-100">Fitness Level</Label>
+              <Select
+                value={profile.fitness_level || ''}
+                onValueChange={value => updateProfile({ fitness_level: value as FitnessLevel })}
+              >
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select fitness level" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {fitnessLevels.map(level => (
+                    <SelectItem key={level} value={level} className="text-blue-100 capitalize">
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Activity Level</Label>
+              <Select
+                value={profile.activity_level || ''}
+                onValueChange={value => updateProfile({ activity_level: value as ActivityLevel })}
+              >
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select activity level" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {activityLevels.map(level => (
+                    <SelectItem key={level} value={level} className="text-blue-100">
+                      {formatLabel(level)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label className="text-blue-100">Medical Conditions or Injuries</Label>
+              <Input
+                value={profile.medical_conditions?.join(', ') || ''}
+                onChange={e => updateProfile({
+                  medical_conditions: e.target.value ? e.target.value.split(',').map(s => s.trim()) : null
+                })}
+                placeholder="Separate conditions with commas"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+
+      case 'goal_setting':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-blue-100">Goal</Label>
+              <Select
+                value={preferences.goalType}
+                onValueChange={value => updatePreferences({ goalType: value as GoalType })}
+              >
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select your goal" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {GOAL_TYPES.map(goal => (
+                    <SelectItem key={goal} value={goal} className="text-blue-100">
+                      {formatLabel(goal)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Workout Type</Label>
+              <Select
+                value={preferences.workoutType}
+                onValueChange={value => updatePreferences({ workoutType: value as WorkoutType })}
+              >
+                <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                  <SelectValue placeholder="Select workout type" />
+                </SelectTrigger>
+                <SelectContent className="bg-gray-800 border-blue-500/20">
+                  {VALID_WORKOUT_TYPES.map(type => (
+                    <SelectItem key={type} value={type} className="text-blue-100">
+                      {formatLabel(type)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Target Weight ({getUnitLabel('weight', profile.unit_system)})</Label>
+              <Input
+                type="number"
+                step="0.1"
+                value={toDisplayValue(profile.target_weight, 'weight', profile.unit_system) || ''}
+                onChange={e => updateProfile({ target_weight: parseDisplayInput(e.target.value, 'weight', profile.unit_system) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label className="text-blue-100">Focus Muscle Groups</Label>
+              <div className="flex flex-wrap gap-2">
+                {VALID_MUSCLE_GROUPS.map(muscle => {
+                  const selected = preferences.focusMuscles.includes(muscle);
+                  return (
+                    <Button
+                      key={muscle}
+                      type="button"
+                      size="sm"
+                      variant={selected ? 'default' : 'outline'}
+                      onClick={() => updatePreferences({
+                        focusMuscles: selected
+                          ? preferences.focusMuscles.filter(m => m !== muscle)
+                          : [...preferences.focusMuscles, muscle as MuscleGroup]
+                      })}
+                      className={selected
+                        ? 'bg-blue-500/80 hover:bg-blue-500 text-white'
+                        : 'border-blue-500/20 bg-transparent text-blue-200 hover:bg-blue-500/10'}
+                    >
+                      {formatLabel(muscle)}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        );
+
+      case 'equipment_check':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {EQUIPMENT_OPTIONS.map(equipment => {
+              const available = profile.available_equipment ?? [];
+              return (
+                <label key={equipment} className="flex items-center gap-3 p-3 rounded-lg border border-blue-500/20 bg-gray-800/50 text-blue-100 cursor-pointer capitalize">
+                  <Checkbox
+                    checked={available.includes(equipment)}
+                    onCheckedChange={checked => updateProfile({
+                      available_equipment: checked === true
+                        ? [...available, equipment]
+                        : available.filter(item => item !== equipment)
+                    })}
+                    className="border-blue-400"
+                  />
+                  {equipment}
+                </label>
+              );
+            })}
+          </div>
+        );
+
+      case 'schedule_setup':
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label className="text-blue-100">Days per Week</Label>
+              <div className="bg-blue-950/40 p-4 rounded-lg border border-blue-500/20">
+                <Slider
+                  value={[preferences.daysPerWeek]}
+                  onValueChange={([value]) => updatePreferences({ daysPerWeek: value })}
+                  min={1}
+                  max={6}
+                  step={1}
+                  className="my-4"
+                />
+                <div className="text-sm text-blue-200/70 text-center font-medium">
+                  {preferences.daysPerWeek} days
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Program Duration</Label>
+              <div className="bg-purple-950/40 p-4 rounded-lg border border-purple-500/20">
+                <Slider
+                  value={[preferences.durationWeeks]}
+                  onValueChange={([value]) => updatePreferences({ durationWeeks: value })}
+                  min={1}
+                  max={12}
+                  step={1}
+                  className="my-4"
+                />
+                <div className="text-sm text-purple-200/60 text-center font-medium">
+                  {preferences.durationWeeks} weeks
+                </div>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label className="text-blue-100">Preferred Workout Time</Label>
+              <Input
+                type="time"
+                value={profile.preferred_workout_time || ''}
+                onChange={e => updateProfile({ preferred_workout_time: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+        );
+
+      case 'tutorial_complete':
+        return (
+          <div className="space-y-4 text-blue-100">
+            <ul className="space-y-3 list-disc list-inside text-blue-200/80">
+              <li><span className="text-blue-100 font-medium">Home</span> shows today&apos;s workout, your activity and body weight trends.</li>
+              <li><span className="text-blue-100 font-medium">Workouts</span> holds your active plan. Press Log Workout to record sets, reps and weights.</li>
+              <li><span className="text-blue-100 font-medium">Progress</span> is where you log body measurements over time.</li>
+              <li><span className="text-blue-100 font-medium">Profile</span> lets you update everything you entered here.</li>
+            </ul>
+            <p className="text-blue-200/70">
+              Your first plan: {formatLabel(preferences.goalType)} · {formatLabel(preferences.workoutType)} · {preferences.daysPerWeek} days per week for {preferences.durationWeeks} weeks.
+            </p>
+            {generating && (
+              <div className="flex items-center gap-2 text-sm text-blue-200/70" aria-live="polite">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {progressText}
+              </div>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden p-20">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-900/20 via-purple-900/20 to-blue-900/20"></div>
+
+      <div className="relative container mx-auto px-4 max-w-3xl py-12 space-y-6">
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm text-blue-200/70">
+            <span>Step {stepIndex + 1} of {ONBOARDING_STEPS.length}</span>
+            <span>{formatLabel(step)}</span>
+          </div>
+          <Progress value={((stepIndex + 1) / ONBOARDING_STEPS.length) * 100} className="bg-blue-950" />
+        </div>
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center gap-3">
+              <Sparkles className="h-8 w-8 text-blue-400" />
+              <div>
+                <CardTitle className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
+                  {STEP_TITLES[step].title}
+                </CardTitle>
+                <CardDescription className="text-blue-200/80">
+                  {STEP_TITLES[step].description}
+                </CardDescription>
+              </div>
+            </div>
+          </CardHeader>
+
+          <CardContent>{renderStep()}</CardContent>
+
+          <CardFooter className="flex justify-between">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(getPreviousStep(step))}
+              disabled={stepIndex === 0 || saving || generating}
+              className="border-blue-500/20 text-blue-400"
+            >
+              <ChevronLeft className="h-4 w-4 mr-2" /> Back
+            </Button>
+            {isLastStep ? (
+              <Button
+                type="button"
+                onClick={generateFirstPlan}
+                disabled={generating}
+                className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+              >
+                {generating ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Dumbbell className="h-4 w-4 mr-2" />}
+                {generating ? 'Generating...' : 'Generate My First Plan'}
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                onClick={handleNext}
+                disabled={saving}
+                className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
+                Continue <ChevronRight className="h-4 w-4 ml-2" />
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+
+        {message && (
+          <Alert variant={message.type === 'error' ? 'destructive' : 'default'}
+                className="bg-gray-900/80 border border-blue-500/20 text-blue-100">
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client'
+import React, { useState, useEffect, useMemo } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Trophy, TrendingUp, Medal } from 'lucide-react';
+import MetricChart from '@/components/MetricChart';
+import {
+  computeLiftRecords,
+  fetchLiftHistory,
+  type LiftLogEntry,
+  type OneRepMaxFormula
+} from '@/lib/personalRecords';
+import { formatWeight, getUnitLabel, toDisplayUnit } from '@/lib/units';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+export default function PersonalRecordsBoard() {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<LiftLogEntry[]>([]);
+  const [formula, setFormula] = useState<OneRepMaxFormula>('epley');
+  const [selectedLift, setSelectedLift] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRecords = async () => {
+      if (!session?.user?.id) return;
+
+      try {
+        setHistory(await fetchLiftHistory(supabase, session.user.id));
+      } catch (err) {
+        console.error('Error fetching lift history:', err);
+        setError('Failed to load your personal records. Please refresh the page.');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchRecords();
+  }, [session, supabase]);
+
+  const records = useMemo(() => computeLiftRecords(history, formula), [history, formula]);
+  const selected = records.find(record => record.liftKey === selectedLift) ?? records[0];
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Alert className="max-w-lg bg-gray-900/80 border border-blue-500/20 text-blue-100">
+          <AlertDescription className="text-lg">Please sign in to view your personal records.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden p-20">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-900/20 via-purple-900/20 to-blue-900/20"></div>
+
+      <div className="relative container mx-auto px-4 max-w-5xl py-12 space-y-8">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <Trophy className="h-8 w-8 text-yellow-500" />
+                <div>
+                  <CardTitle className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
+                    Personal Records
+                  </CardTitle>
+                  <CardDescription className="text-blue-200/80">
+                    Your best lifts across every plan
+                  </CardDescription>
+                </div>
+              </div>
+              <Tabs value={formula} onValueChange={value => setFormula(value as OneRepMaxFormula)}>
+                <TabsList>
+                  <TabsTrigger value="epley">Epley</TabsTrigger>
+                  <TabsTrigger value="brzycki">Brzycki</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {records.length === 0 ? (
+              <p className="text-gray-400">Log a workout with weights to start setting records.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-blue-500/20 hover:bg-transparent">
+                    <TableHead className="text-blue-300">Exercise</TableHead>
+                    <TableHead className="text-blue-300">Heaviest</TableHead>
+                    <TableHead className="text-blue-300">Estimated 1RM</TableHead>
+                    <TableHead className="text-blue-300">Sessions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {records.map((record, index) => (
+                    <TableRow
+                      key={record.liftKey}
+                      onClick={() => setSelectedLift(record.liftKey)}
+                      className={`border-blue-500/10 hover:bg-blue-500/5 text-blue-100 cursor-pointer ${
+                        selected?.liftKey === record.liftKey ? 'bg-blue-500/10' : ''
+                      }`}
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {index < 3 && <Medal className="h-4 w-4 text-yellow-500" />}
+                          {record.exerciseName}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono">{formatWeight(record.bestWeight.weight, unitSystem)} × {record.bestWeight.reps}</div>
+                        <div className="text-xs text-blue-200/60">{formatDate(record.bestWeight.completedAt)}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-mono">{formatWeight(record.bestE1rm.e1rm, unitSystem)}</div>
+                        <div className="text-xs text-blue-200/60">
+                          from {formatWeight(record.bestE1rm.weight, unitSystem)} × {record.bestE1rm.reps}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-blue-200/80">{record.sessions}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {selected && (
+          <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="flex items-center gap-3 text-gray-100">
+                  <TrendingUp className="h-6 w-6 text-blue-400" />
+                  Estimated 1RM Trend
+                </CardTitle>
+                <Select value={selected.liftKey} onValueChange={setSelectedLift}>
+                  <SelectTrigger className="w-64 bg-gray-800/50 border-blue-500/20 text-blue-100">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-blue-500/20">
+                    {records.map(record => (
+                      <SelectItem key={record.liftKey} value={record.liftKey} className="text-blue-100">
+                        {record.exerciseName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="h-64">
+                <MetricChart
+                  data={selected.e1rmHistory.map(point => ({ ...point, e1rm: toDisplayUnit(point.e1rm, 'weight', unitSystem) }))}
+                  dataKey="e1rm"
+                  dateKey="completedAt"
+                  label="Estimated 1RM"
+                  unit={getUnitLabel('weight', unitSystem)}
+                />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-blue-300 mb-2">Best reps at each weight</p>
+                <div className="flex flex-wrap gap-2">
+                  {Object.values(selected.repsAtWeight)
+                    .sort((a, b) => b.weight - a.weight)
+                    .map(value => (
+                      <div
+                        key={value.weight}
+                        className="px-3 py-2 rounded-lg border border-blue-500/20 bg-blue-500/5 text-sm text-blue-100 font-mono"
+                      >
+                        {formatWeight(value.weight, unitSystem)} × {value.reps}
+                      </div>
+                    ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
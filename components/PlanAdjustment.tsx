@@ -0,0 +1,142 @@
+'use client'
+import React, { useEffect, useState } from 'react';
+import { useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import {
+  acceptPlanAdjustment,
+  fetchLatestAdjustment,
+  formatExerciseChange,
+  rejectPlanAdjustment,
+  type ExerciseChange,
+  type PlanAdjustmentRow
+} from '@/lib/planAdaptation';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+
+interface PlanAdjustmentProps {
+  planId: string;
+  onApplied: () => void | Promise<void>;
+}
+
+const STATUS_STYLES: Record<PlanAdjustmentRow['status'], string> = {
+  pending: 'bg-purple-500/20 text-purple-200',
+  accepted: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-gray-500/20 text-gray-300'
+};
+
+export default function PlanAdjustment({ planId, onApplied }: PlanAdjustmentProps) {
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+
+  const [adjustment, setAdjustment] = useState<PlanAdjustmentRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<'generate' | 'accept' | 'reject' | null>(null);
+
+  useEffect(() => {
+    fetchLatestAdjustment(supabase, planId)
+      .then(setAdjustment)
+      .catch(err => console.error('Error loading plan adjustment:', err))
+      .finally(() => setLoading(false));
+  }, [planId, supabase]);
+
+  const handleGenerate = async () => {
+    setWorking('generate');
+    try {
+      const response = await fetch(`/api/plans/${planId}/adapt`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to adapt plan');
+      setAdjustment(result.adjustment);
+    } catch (err) {
+      console.error('Error adapting plan:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to adapt plan');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleResolve = async (accept: boolean) => {
+    if (!adjustment) return;
+
+    setWorking(accept ? 'accept' : 'reject');
+    try {
+      if (accept) {
+        await acceptPlanAdjustment(supabase, adjustment.id);
+      } else {
+        await rejectPlanAdjustment(supabase, adjustment.id);
+      }
+      setAdjustment({ ...adjustment, status: accept ? 'accepted' : 'rejected', resolved_at: new Date().toISOString() });
+      toast.success(accept ? 'Adjustment applied to your plan' : 'Adjustment dismissed');
+      if (accept) await onApplied();
+    } catch (err) {
+      console.error('Error resolving plan adjustment:', err);
+      toast.error('Failed to update the adjustment. Please try again.');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-blue-200/60">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading plan adjustments...
+      </div>
+    );
+  }
+
+  // The stored changelog is written in kg, so change lines are rebuilt from
+  // the structured changes in the user's units.
+  const [summary, ...changelogLines] = adjustment?.changelog.split('\n') ?? [];
+  const changes = (adjustment?.changes ?? []) as unknown as ExerciseChange[];
+  const changeLines = changes.length ? changes.map(change => formatExerciseChange(change, unitSystem)) : changelogLines;
+
+  return (
+    <div className="space-y-3 rounded-lg border border-purple-500/20 bg-black/40 p-4">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-purple-300">
+          <Sparkles className="h-4 w-4" />
+          <span className="font-medium">Adaptive Coaching</span>
+          {adjustment && (
+            <Badge className={`${STATUS_STYLES[adjustment.status]} border-none capitalize`}>
+              Week {adjustment.week} · {adjustment.status}
+            </Badge>
+          )}
+        </div>
+        {adjustment?.status !== 'pending' && (
+          <Button size="sm" variant="outline" onClick={handleGenerate} disabled={working !== null} className="border-purple-500/20 text-purple-200">
+            {working === 'generate' && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+            Adapt next week
+          </Button>
+        )}
+      </div>
+
+      {adjustment ? (
+        <>
+          <p className="text-sm text-blue-100">{summary}</p>
+          <ul className="space-y-1 text-sm text-blue-200/70">
+            {changeLines.map(line => <li key={line}>{line}</li>)}
+          </ul>
+          {adjustment.status === 'pending' && (
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleResolve(true)} disabled={working !== null}>
+                {working === 'accept' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Check className="h-4 w-4 mr-1" />}
+                Accept
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleResolve(false)} disabled={working !== null} className="text-red-400">
+                {working === 'reject' ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <X className="h-4 w-4 mr-1" />}
+                Reject
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-blue-200/60">
+          Adjust next week&apos;s sets, reps and weights based on how your recent sessions and rest days felt.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+'use client'
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { formatPlanName } from '@/lib/utils';
+import { WEEKDAYS, getLocalDate, getWeekdayName } from '@/lib/schedule';
+import {
+  buildCalendarDays,
+  fetchPlanLogs,
+  getPlanDateRange,
+  shiftCursor,
+  type CalendarDayStatus,
+  type CalendarPlan,
+  type CalendarView,
+  type PlanLogs
+} from '@/lib/planCalendar';
+
+const STATUS_STYLES: Record<CalendarDayStatus, string> = {
+  completed: 'bg-green-500/20 border-green-500/40 text-green-100',
+  missed: 'bg-red-500/20 border-red-500/50 text-red-100',
+  today: 'bg-blue-500/20 border-blue-400 text-blue-100',
+  upcoming: 'bg-blue-500/5 border-blue-500/20 text-blue-100',
+  rest_logged: 'bg-purple-500/15 border-purple-500/30 text-purple-100',
+  rest: 'bg-transparent border-purple-500/10 text-purple-200/60',
+  outside: 'bg-transparent border-transparent text-gray-600'
+};
+
+const STATUS_LABELS: Partial<Record<CalendarDayStatus, string>> = {
+  completed: 'Completed',
+  missed: 'Missed',
+  today: 'Today',
+  upcoming: 'Upcoming',
+  rest_logged: 'Rest logged',
+  rest: 'Rest day'
+};
+
+const EMPTY_LOGS: PlanLogs = { workoutDates: {}, restDates: {} };
+
+const formatCursor = (cursor: string, view: CalendarView, weekStart: string) =>
+  view === 'month'
+    ? new Date(`${cursor}T00:00:00Z`).toLocaleDateString(undefined, { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : `Week of ${new Date(`${weekStart}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' })}`;
+
+interface PlanCalendarProps {
+  plan: CalendarPlan;
+}
+
+export default function PlanCalendar({ plan }: PlanCalendarProps) {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+
+  const today = getLocalDate();
+  const { startDate, endDate } = getPlanDateRange(plan);
+
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => (today < startDate ? startDate : today > endDate ? endDate : today));
+  const [logs, setLogs] = useState<PlanLogs>(EMPTY_LOGS);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+
+    fetchPlanLogs(supabase, session.user.id, plan)
+      .then(setLogs)
+      .catch(err => console.error('Error loading plan calendar logs:', err))
+      .finally(() => setLoading(false));
+  }, [session, supabase, plan]);
+
+  const days = useMemo(() => buildCalendarDays(plan, logs, view, cursor, today), [plan, logs, view, cursor, today]);
+  const missedCount = days.filter(day => day.inMonth && day.status === 'missed').length;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-blue-500/20 bg-black/40 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCursor(prev => shiftCursor(prev, view, -1))}
+            className="text-blue-200 hover:bg-blue-500/10"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="min-w-40 text-center font-medium text-blue-100">
+            {formatCursor(cursor, view, days[0]?.date ?? cursor)}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCursor(prev => shiftCursor(prev, view, 1))}
+            className="text-blue-200 hover:bg-blue-500/10"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setCursor(today)}
+            className="text-blue-300 hover:bg-blue-500/10"
+          >
+            Today
+          </Button>
+          {loading && <Loader2 className="h-4 w-4 animate-spin text-blue-400" />}
+        </div>
+        <Tabs value={view} onValueChange={value => setView(value as CalendarView)}>
+          <TabsList>
+            <TabsTrigger value="month">Month</TabsTrigger>
+            <TabsTrigger value="week">Week</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs text-blue-300">
+        {WEEKDAYS.map(day => (
+          <div key={day}>{getWeekdayName(day, 'short')}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map(day => (
+          <div
+            key={day.date}
+            title={STATUS_LABELS[day.status]}
+            className={`rounded-md border p-2 text-xs transition-colors ${
+              view === 'week' ? 'min-h-24' : 'min-h-16'
+            } ${STATUS_STYLES[day.status]} ${day.inMonth ? '' : 'opacity-40'}`}
+          >
+            <div className="font-mono">{Number(day.date.slice(8))}</div>
+            {day.workout && (
+              <div className="mt-1 line-clamp-2 font-medium">{formatPlanName(day.workout.name)}</div>
+            )}
+            {day.inPlan && !day.workout && <div className="mt-1">Rest</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-xs">
+        <div className="flex flex-wrap gap-3">
+          {Object.entries(STATUS_LABELS).map(([status, label]) => (
+            <span key={status} className="flex items-center gap-1.5 text-blue-200/70">
+              <span className={`h-3 w-3 rounded-sm border ${STATUS_STYLES[status as CalendarDayStatus]}`} />
+              {label}
+            </span>
+          ))}
+        </div>
+        {missedCount > 0 && (
+          <span className="text-red-300">
+            {missedCount} missed {missedCount === 1 ? 'session' : 'sessions'} in this {view}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,506 @@
+'use client'
+import React, { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowUp, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import {
+  GOAL_TYPES,
+  VALID_DIFFICULTIES,
+  VALID_MUSCLE_GROUPS,
+  VALID_WORKOUT_TYPES,
+  type MuscleGroup
+} from '@/lib/workoutPlan';
+import {
+  addExercise,
+  createBlankDraft,
+  createBlankWorkout,
+  fetchPlanDraft,
+  findDraftIssues,
+  getFreeDays,
+  moveExercise,
+  removeExercise,
+  setDraftWorkouts,
+  type EditableExercise,
+  type EditableWorkout,
+  type PlanDraft
+} from '@/lib/planEditor';
+import { getWeekdayName } from '@/lib/schedule';
+
+interface PlanEditorProps {
+  planId?: string;
+}
+
+const formatLabel = (value: string) =>
+  value.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+const toggleMuscle = (muscles: MuscleGroup[], muscle: MuscleGroup) =>
+  muscles.includes(muscle) ? muscles.filter(m => m !== muscle) : [...muscles, muscle];
+
+const inputClassName = 'bg-black/40 border-blue-500/20 text-white';
+
+function MusclePicker({
+  label,
+  selected,
+  onToggle
+}: {
+  label: string;
+  selected: MuscleGroup[];
+  onToggle: (muscle: MuscleGroup) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-xs text-blue-200/60">{label}</Label>
+      <div className="flex flex-wrap gap-1">
+        {VALID_MUSCLE_GROUPS.map(muscle => (
+          <button
+            key={muscle}
+            type="button"
+            onClick={() => onToggle(muscle)}
+            className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${
+              selected.includes(muscle)
+                ? 'bg-blue-500/30 border-blue-400 text-blue-100'
+                : 'border-blue-500/20 text-blue-200/50 hover:bg-blue-500/10'
+            }`}
+          >
+            {formatLabel(muscle)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default function PlanEditor({ planId }: PlanEditorProps) {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const router = useRouter();
+
+  const [draft, setDraft] = useState<PlanDraft | null>(planId ? null : createBlankDraft());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [serverIssues, setServerIssues] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!planId || !session?.user?.id) return;
+
+    fetchPlanDraft(supabase, session.user.id, planId)
+      .then(loaded => loaded ? setDraft(loaded) : setError('Plan not found'))
+      .catch(err => {
+        console.error('Error loading plan for editing:', err);
+        setError('Failed to load plan');
+      });
+  }, [planId, session, supabase]);
+
+  const issues = useMemo(() => (draft ? findDraftIssues(draft) : []), [draft]);
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!draft) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  const workouts = draft.workoutPlan.workouts;
+  const freeDays = getFreeDays(draft);
+
+  const updateDetails = (patch: Partial<PlanDraft['plan']>) =>
+    setDraft({ ...draft, plan: { ...draft.plan, ...patch } });
+
+  const updateWorkouts = (next: EditableWorkout[]) => setDraft(setDraftWorkouts(draft, next));
+
+  const updateWorkout = (index: number, workout: EditableWorkout) =>
+    updateWorkouts(workouts.map((w, i) => (i === index ? workout : w)));
+
+  const updateExercise = (workoutIndex: number, exerciseIndex: number, patch: Partial<EditableExercise>) => {
+    const workout = workouts[workoutIndex];
+    updateWorkout(workoutIndex, {
+      ...workout,
+      exercises: workout.exercises.map((exercise, i) => (i === exerciseIndex ? { ...exercise, ...patch } : exercise))
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setServerIssues([]);
+    try {
+      const response = await fetch(planId ? `/api/plans/${planId}` : '/api/plans', {
+        method: planId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        setServerIssues(result.details ?? []);
+        throw new Error(result.error || 'Failed to save plan');
+      }
+
+      toast.success(planId ? 'Plan updated' : 'Plan created');
+      router.push('/workouts');
+    } catch (err) {
+      console.error('Error saving plan:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to save plan');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const shownIssues = serverIssues.length ? serverIssues : issues;
+
+  return (
+    <Card className="bg-gradient-to-br from-blue-950/50 to-purple-950/50 border-blue-500/20 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
+          {planId ? 'Edit Plan' : 'Build a Plan'}
+        </CardTitle>
+        <CardDescription className="text-blue-200/60">
+          {planId
+            ? 'Change exercises, reorder them or move workouts to other days.'
+            : 'Start from a blank plan and add your own workouts.'}
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label className="text-blue-300">Name</Label>
+            <Input
+              value={draft.plan.name}
+              onChange={e => updateDetails({ name: e.target.value })}
+              placeholder="My training plan"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-blue-300">Description</Label>
+            <Input
+              value={draft.workoutPlan.description}
+              onChange={e => setDraft({ ...draft, workoutPlan: { ...draft.workoutPlan, description: e.target.value } })}
+              placeholder="What this plan is for"
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label className="text-blue-300">Goal Type</Label>
+            <Select
+              value={draft.plan.goalType}
+              onValueChange={value => updateDetails({ goalType: value as PlanDraft['plan']['goalType'] })}
+              disabled={Boolean(planId)}
+            >
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GOAL_TYPES.map(goal => (
+                  <SelectItem key={goal} value={goal}>{formatLabel(goal)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-blue-300">Workout Type</Label>
+            <Select
+              value={draft.plan.workoutType}
+              onValueChange={value => updateDetails({ workoutType: value as PlanDraft['plan']['workoutType'] })}
+              disabled={Boolean(planId)}
+            >
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VALID_WORKOUT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-blue-300">Difficulty</Label>
+            <Select
+              value={draft.workoutPlan.difficulty}
+              onValueChange={value => setDraft({
+                ...draft,
+                workoutPlan: { ...draft.workoutPlan, difficulty: value as PlanDraft['workoutPlan']['difficulty'] }
+              })}
+            >
+              <SelectTrigger className={inputClassName}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VALID_DIFFICULTIES.map(difficulty => (
+                  <SelectItem key={difficulty} value={difficulty}>{formatLabel(difficulty)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label className="text-blue-300">Duration (weeks)</Label>
+            <Input
+              type="number"
+              min={1}
+              max={52}
+              value={draft.plan.durationWeeks}
+              onChange={e => updateDetails({ durationWeeks: parseInt(e.target.value) || 0 })}
+              className={inputClassName}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <MusclePicker
+              label="Focus muscles"
+              selected={draft.plan.focusMuscles}
+              onToggle={muscle => updateDetails({ focusMuscles: toggleMuscle(draft.plan.focusMuscles, muscle) })}
+            />
+          </div>
+        </div>
+
+        {workouts.map((workout, workoutIndex) => (
+          <div
+            key={workout.id ?? `day-${workout.day_of_week}`}
+            className="space-y-4 rounded-lg border border-purple-500/20 bg-black/30 p-4"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div className="space-y-2">
+                <Label className="text-purple-300">Day</Label>
+                <Select
+                  value={String(workout.day_of_week)}
+                  onValueChange={value => updateWorkout(workoutIndex, { ...workout, day_of_week: parseInt(value) })}
+                >
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[workout.day_of_week, ...freeDays].sort((a, b) => a - b).map(day => (
+                      <SelectItem key={day} value={String(day)}>{getWeekdayName(day)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-purple-300">Workout name</Label>
+                <Input
+                  value={workout.name}
+                  onChange={e => updateWorkout(workoutIndex, { ...workout, name: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-purple-300">Type</Label>
+                <Select
+                  value={workout.workout_type}
+                  onValueChange={value => updateWorkout(workoutIndex, {
+                    ...workout,
+                    workout_type: value as EditableWorkout['workout_type']
+                  })}
+                >
+                  <SelectTrigger className={inputClassName}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VALID_WORKOUT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  value={workout.estimated_duration}
+                  onChange={e => updateWorkout(workoutIndex, { ...workout, estimated_duration: e.target.value })}
+                  aria-label="Estimated duration"
+                  className={inputClassName}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => updateWorkouts(workouts.filter((_, i) => i !== workoutIndex))}
+                  disabled={workouts.length === 1}
+                  aria-label="Remove workout"
+                  className="text-red-400"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {workout.exercises.map((exercise, exerciseIndex) => (
+              <div
+                key={exercise.id ?? `new-${exerciseIndex}`}
+                className="space-y-3 rounded-md border border-blue-500/10 bg-blue-950/20 p-3"
+              >
+                <div className="flex flex-wrap items-end gap-2">
+                  <span className="pb-2 text-sm font-medium text-blue-300 w-6">{exercise.order_in_workout}.</span>
+                  <div className="flex-1 min-w-48 space-y-1">
+                    <Label className="text-xs text-blue-200/60">Exercise</Label>
+                    <Input
+                      value={exercise.name}
+                      onChange={e => updateExercise(workoutIndex, exerciseIndex, { name: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="w-20 space-y-1">
+                    <Label className="text-xs text-blue-200/60">Sets</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={exercise.sets}
+                      onChange={e => updateExercise(workoutIndex, exerciseIndex, { sets: parseInt(e.target.value) || 0 })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="w-20 space-y-1">
+                    <Label className="text-xs text-blue-200/60">Reps</Label>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={exercise.reps}
+                      onChange={e => updateExercise(workoutIndex, exerciseIndex, { reps: parseInt(e.target.value) || 0 })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="w-32 space-y-1">
+                    <Label className="text-xs text-blue-200/60">Rest</Label>
+                    <Input
+                      value={exercise.rest_duration}
+                      onChange={e => updateExercise(workoutIndex, exerciseIndex, { rest_duration: e.target.value })}
+                      className={inputClassName}
+                    />
+                  </div>
+                  <div className="w-36 space-y-1">
+                    <Label className="text-xs text-blue-200/60">Type</Label>
+                    <Select
+                      value={exercise.exercise_type}
+                      onValueChange={value => updateExercise(workoutIndex, exerciseIndex, {
+                        exercise_type: value as EditableExercise['exercise_type']
+                      })}
+                    >
+                      <SelectTrigger className={inputClassName}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {VALID_WORKOUT_TYPES.map(type => (
+                          <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateWorkout(workoutIndex, moveExercise(workout, exerciseIndex, exerciseIndex - 1))}
+                      disabled={exerciseIndex === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateWorkout(workoutIndex, moveExercise(workout, exerciseIndex, exerciseIndex + 1))}
+                      disabled={exerciseIndex === workout.exercises.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => updateWorkout(workoutIndex, removeExercise(workout, exerciseIndex))}
+                      disabled={workout.exercises.length === 1}
+                      aria-label="Remove exercise"
+                      className="text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <Input
+                  value={exercise.equipment_needed.join(', ')}
+                  onChange={e => updateExercise(workoutIndex, exerciseIndex, {
+                    equipment_needed: e.target.value.split(',').map(item => item.trim()).filter(Boolean)
+                  })}
+                  placeholder="Equipment, comma separated"
+                  className={inputClassName}
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <MusclePicker
+                    label="Primary muscles"
+                    selected={exercise.primary_muscles}
+                    onToggle={muscle => updateExercise(workoutIndex, exerciseIndex, {
+                      primary_muscles: toggleMuscle(exercise.primary_muscles, muscle)
+                    })}
+                  />
+                  <MusclePicker
+                    label="Secondary muscles"
+                    selected={exercise.secondary_muscles}
+                    onToggle={muscle => updateExercise(workoutIndex, exerciseIndex, {
+                      secondary_muscles: toggleMuscle(exercise.secondary_muscles, muscle)
+                    })}
+                  />
+                </div>
+              </div>
+            ))}
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateWorkout(workoutIndex, addExercise(workout))}
+              className="border-blue-500/20 text-blue-200"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add exercise
+            </Button>
+          </div>
+        ))}
+
+        {freeDays.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => updateWorkouts([...workouts, createBlankWorkout(freeDays[0], draft.plan.workoutType)])}
+            className="border-purple-500/20 text-purple-200"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add workout on {getWeekdayName(freeDays[0])}
+          </Button>
+        )}
+
+        {shownIssues.length > 0 && (
+          <Alert variant="destructive">
+            <AlertDescription>
+              <ul className="list-disc pl-4 space-y-1 text-sm">
+                {shownIssues.map(issue => <li key={issue}>{issue}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+
+      <CardFooter className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={() => router.push('/workouts')} className="text-blue-300">
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || issues.length > 0}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          {planId ? 'Save changes' : 'Create plan'}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
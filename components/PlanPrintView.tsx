@@ -0,0 +1,115 @@
+'use client'
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Printer } from 'lucide-react';
+import { formatPlanName } from '@/lib/utils';
+import { getWeekdayName } from '@/lib/schedule';
+import type { PlanExport } from '@/lib/planExport';
+
+interface PlanPrintViewProps {
+  planId: string;
+}
+
+const formatLabel = (value: string) => formatPlanName(value.replace(/_/g, ' '));
+
+export default function PlanPrintView({ planId }: PlanPrintViewProps) {
+  const [planExport, setPlanExport] = useState<PlanExport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchPlan = async () => {
+      try {
+        const response = await fetch(`/api/plans/${planId}/export?format=json`);
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || 'Failed to load plan');
+        }
+        setPlanExport(await response.json());
+      } catch (err) {
+        console.error('Error loading plan for printing:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load plan');
+      }
+    };
+
+    fetchPlan();
+  }, [planId]);
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertDescription>{error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (!planExport) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  const { plan, workoutPlan } = planExport;
+  const workouts = [...workoutPlan.workouts].sort((a, b) => a.day_of_week - b.day_of_week);
+
+  return (
+    <article className="space-y-8 rounded-lg bg-white p-10 text-gray-900 print:rounded-none print:p-0">
+      <header className="flex items-start justify-between gap-6 border-b border-gray-300 pb-6">
+        <div className="space-y-2">
+          <h1 className="text-3xl font-bold">{formatPlanName(plan.name)}</h1>
+          <p className="text-gray-600">{workoutPlan.description}</p>
+          <p className="text-sm text-gray-500">
+            {formatLabel(plan.goalType)} · {formatLabel(plan.workoutType)} · {formatLabel(workoutPlan.difficulty)} ·{' '}
+            {plan.durationWeeks} weeks · Rest: {workoutPlan.restDays.map(day => getWeekdayName(day)).join(', ') || 'None'}
+          </p>
+        </div>
+        <Button onClick={() => window.print()} className="print:hidden">
+          <Printer className="h-4 w-4 mr-2" />
+          Print / Save as PDF
+        </Button>
+      </header>
+
+      {workouts.map(workout => (
+        <section key={workout.day_of_week} className="space-y-3 break-inside-avoid">
+          <div>
+            <h2 className="text-xl font-semibold">
+              {getWeekdayName(workout.day_of_week)} · {formatPlanName(workout.name)}
+            </h2>
+            <p className="text-sm text-gray-500">
+              {formatLabel(workout.workout_type)} · {workout.estimated_duration}
+            </p>
+            {workout.description && <p className="mt-1 text-sm text-gray-700">{workout.description}</p>}
+          </div>
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="border-b border-gray-400 text-left">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">Exercise</th>
+                <th className="py-2 pr-2">Sets × Reps</th>
+                <th className="py-2 pr-2">Rest</th>
+                <th className="py-2 pr-2">Muscles</th>
+                <th className="py-2 w-32">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...workout.exercises]
+                .sort((a, b) => a.order_in_workout - b.order_in_workout)
+                .map(exercise => (
+                  <tr key={exercise.order_in_workout} className="border-b border-gray-200 align-top">
+                    <td className="py-2 pr-2">{exercise.order_in_workout}</td>
+                    <td className="py-2 pr-2 font-medium">{exercise.name}</td>
+                    <td className="py-2 pr-2">{exercise.sets} × {exercise.reps}</td>
+                    <td className="py-2 pr-2">{exercise.rest_duration}</td>
+                    <td className="py-2 pr-2 capitalize">{exercise.primary_muscles.join(', ').replace(/_/g, ' ')}</td>
+                    <td className="py-2" />
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </section>
+      ))}
+    </article>
+  );
+}
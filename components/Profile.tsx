@@ -7,8 +7,17 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Save, Loader2, User, Activity, Clock, Heart, Scale, Target, Calendar } from 'lucide-react';
+import { Save, Loader2, User, Activity, Clock, Heart, Scale, Target, Calendar, Ruler } from 'lucide-react';
 import type { PostgrestError } from '@supabase/supabase-js';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+import {
+  UNIT_SYSTEMS,
+  UNIT_SYSTEM_LABELS,
+  getUnitLabel,
+  parseDisplayInput,
+  toDisplayValue,
+  type UnitSystem
+} from '@/lib/units';
 
 type Profile = Database['public']['Tables']['profiles']['Row'];
 type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
@@ -35,12 +44,14 @@ const defaultProfile: Profile = {
   has_completed_onboarding: false,
   updated_at: new Date().toISOString(),
   preferred_workout_time: null,
-  available_equipment: null
+  available_equipment: null,
+  unit_system: 'metric'
 };
 
 export default function ProfilePage() {
   const session = useSession();
   const supabase = useSupabaseClient<Database>();
+  const { setUnitSystem } = useUnitSystem();
   
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -130,6 +141,7 @@ export default function ProfilePage() {
         target_weight: profile.target_weight,
         medical_conditions: profile.medical_conditions,
         preferred_workout_time: profile.preferred_workout_time,
+        unit_system: profile.unit_system,
         updated_at: new Date().toISOString()
       };
 
@@ -140,6 +152,7 @@ export default function ProfilePage() {
 
       if (error) throw error;
 
+      setUnitSystem(profile.unit_system);
       setMessage({ type: 'success', text: 'Profile updated successfully!' });
     } catch (error) {
       const pgError = error as PostgrestError;
@@ -161,6 +174,8 @@ export default function ProfilePage() {
     setProfile(prev => ({ ...prev, fitness_level: value as FitnessLevel }));
   };
 
+  const units = profile.unit_system;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center">
@@ -237,12 +252,33 @@ export default function ProfilePage() {
 
               <div className="space-y-3">
                 <Label className="text-blue-100 flex items-center gap-2">
-                  <Scale className="h-4 w-4 text-blue-400" /> Height (cm)
+                  <Ruler className="h-4 w-4 text-blue-400" /> Units
+                </Label>
+                <Select
+                  value={units}
+                  onValueChange={value => setProfile(prev => ({ ...prev, unit_system: value as UnitSystem }))}
+                >
+                  <SelectTrigger className="bg-gray-800/50 border-blue-500/20 text-blue-100">
+                    <SelectValue placeholder="Select units" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-gray-800 border-blue-500/20">
+                    {UNIT_SYSTEMS.map(system => (
+                      <SelectItem key={system} value={system} className="text-blue-100 hover:bg-blue-500/20">
+                        {UNIT_SYSTEM_LABELS[system]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-blue-100 flex items-center gap-2">
+                  <Scale className="h-4 w-4 text-blue-400" /> Height ({getUnitLabel('length', units)})
                 </Label>
                 <Input
                   type="number"
-                  value={profile.height || ''}
-                  onChange={e => setProfile(prev => ({ ...prev, height: e.target.value ? Number(e.target.value) : null }))}
+                  value={toDisplayValue(profile.height, 'length', units) || ''}
+                  onChange={e => setProfile(prev => ({ ...prev, height: parseDisplayInput(e.target.value, 'length', units) }))}
                   step="0.1"
                   className="bg-gray-800/50 border-blue-500/20 text-blue-100 focus:border-blue-400 focus:ring-blue-400/50"
                 />
@@ -250,12 +286,12 @@ export default function ProfilePage() {
 
               <div className="space-y-3">
                 <Label className="text-blue-100 flex items-center gap-2">
-                  <Scale className="h-4 w-4 text-blue-400" /> Weight (kg)
+                  <Scale className="h-4 w-4 text-blue-400" /> Weight ({getUnitLabel('weight', units)})
                 </Label>
                 <Input
                   type="number"
-                  value={profile.weight || ''}
-                  onChange={e => setProfile(prev => ({ ...prev, weight: e.target.value ? Number(e.target.value) : null }))}
+                  value={toDisplayValue(profile.weight, 'weight', units) || ''}
+                  onChange={e => setProfile(prev => ({ ...prev, weight: parseDisplayInput(e.target.value, 'weight', units) }))}
                   step="0.1"
                   className="bg-gray-800/50 border-blue-500/20 text-blue-100 focus:border-blue-400 focus:ring-blue-400/50"
                 />
@@ -274,12 +310,12 @@ export default function ProfilePage() {
 
               <div className="space-y-3">
                 <Label className="text-blue-100 flex items-center gap-2">
-                  <Target className="h-4 w-4 text-blue-400" /> Target Weight (kg)
+                  <Target className="h-4 w-4 text-blue-400" /> Target Weight ({getUnitLabel('weight', units)})
                 </Label>
                 <Input
                   type="number"
-                  value={profile.target_weight || ''}
-                  onChange={e => setProfile(prev => ({ ...prev, target_weight: e.target.value ? Number(e.target.value) : null }))}
+                  value={toDisplayValue(profile.target_weight, 'weight', units) || ''}
+                  onChange={e => setProfile(prev => ({ ...prev, target_weight: parseDisplayInput(e.target.value, 'weight', units) }))}
                   step="0.1"
                   className="bg-gray-800/50 border-blue-500/20 text-blue-100 focus:border-blue-400 focus:ring-blue-400/50"
                 />
@@ -0,0 +1,371 @@
+'use client'
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Ruler, Save, Pencil, Trash2, TrendingUp, History, X } from 'lucide-react';
+import MetricChart from '@/components/MetricChart';
+import {
+  METRIC_FIELDS,
+  getMetricFields,
+  toCanonicalMetrics,
+  toDisplayMetrics,
+  validateMetricValue,
+  type MetricKey
+} from '@/lib/progressMetrics';
+import { getLocalDate } from '@/lib/schedule';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+import type { UnitSystem } from '@/lib/units';
+
+type ProgressMetric = Database['public']['Tables']['progress_metrics']['Row'];
+type ProgressMetricInsert = Database['public']['Tables']['progress_metrics']['Insert'];
+
+type MetricFormValues = Record<MetricKey, string> & { measurement_date: string; notes: string };
+
+const emptyForm = (): MetricFormValues => ({
+  measurement_date: getLocalDate(),
+  notes: '',
+  ...Object.fromEntries(METRIC_FIELDS.map(field => [field.key, ''])) as Record<MetricKey, string>
+});
+
+const toFormValues = (metric: ProgressMetric, unitSystem: UnitSystem): MetricFormValues => {
+  const display = toDisplayMetrics(metric, unitSystem);
+  return {
+    measurement_date: metric.measurement_date.split('T')[0],
+    notes: metric.notes ?? '',
+    ...Object.fromEntries(
+      METRIC_FIELDS.map(field => [field.key, display[field.key]?.toString() ?? ''])
+    ) as Record<MetricKey, string>
+  };
+};
+
+export default function ProgressMetricsPage() {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+  const fields = getMetricFields(unitSystem);
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [metrics, setMetrics] = useState<ProgressMetric[]>([]);
+  const [form, setForm] = useState<MetricFormValues>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchMetrics = useCallback(async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('progress_metrics')
+        .select('*')
+        .eq('user_id', session.user.id)
+        .order('measurement_date', { ascending: true });
+
+      if (error) throw error;
+      setMetrics(data ?? []);
+    } catch (error) {
+      console.error('Error fetching progress metrics:', error);
+      setMessage({ type: 'error', text: 'Failed to load your measurements. Please refresh the page.' });
+    } finally {
+      setLoading(false);
+    }
+  }, [session, supabase]);
+
+  useEffect(() => {
+    fetchMetrics();
+  }, [fetchMetrics]);
+
+  const resetForm = () => {
+    setForm(emptyForm());
+    setEditingId(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!session?.user?.id) return;
+
+    const values = Object.fromEntries(
+      fields.map(field => [field.key, form[field.key] === '' ? null : Number(form[field.key])])
+    ) as Record<MetricKey, number | null>;
+
+    const errors = fields
+      .map(field => validateMetricValue(field, values[field.key]))
+      .filter((error): error is string => error !== null);
+
+    if (errors.length > 0) {
+      setMessage({ type: 'error', text: errors.join('. ') });
+      return;
+    }
+
+    if (METRIC_FIELDS.every(field => values[field.key] === null)) {
+      setMessage({ type: 'error', text: 'Enter at least one measurement.' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+
+    const payload: ProgressMetricInsert = {
+      user_id: session.user.id,
+      measurement_date: form.measurement_date,
+      notes: form.notes.trim() || null,
+      ...toCanonicalMetrics(values, unitSystem, metrics.find(metric => metric.id === editingId))
+    };
+
+    try {
+      const { error } = editingId
+        ? await supabase.from('progress_metrics').update(payload).eq('id', editingId)
+        : await supabase.from('progress_metrics').insert(payload);
+
+      if (error) throw error;
+
+      setMessage({ type: 'success', text: editingId ? 'Measurement updated.' : 'Measurement saved.' });
+      resetForm();
+      await fetchMetrics();
+    } catch (error) {
+      console.error('Error saving progress metric:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save measurement. Please try again.'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('Delete this measurement entry?')) return;
+
+    try {
+      const { error } = await supabase.from('progress_metrics').delete().eq('id', id);
+      if (error) throw error;
+
+      if (editingId === id) resetForm();
+      setMetrics(prev => prev.filter(metric => metric.id !== id));
+      setMessage({ type: 'success', text: 'Measurement deleted.' });
+    } catch (error) {
+      console.error('Error deleting progress metric:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to delete measurement.'
+      });
+    }
+  };
+
+  const handleEdit = (metric: ProgressMetric) => {
+    setEditingId(metric.id);
+    setForm(toFormValues(metric, unitSystem));
+    setMessage(null);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Alert className="max-w-lg bg-gray-900/80 border border-blue-500/20 text-blue-100">
+          <AlertDescription className="text-lg">Please sign in to track your progress.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  const displayMetrics = metrics.map(metric => toDisplayMetrics(metric, unitSystem));
+  const chartFields = fields.filter(field => metrics.some(metric => metric[field.key] !== null));
+  const history = [...displayMetrics].reverse();
+
+  return (
+    <div className="min-h-screen bg-black relative overflow-hidden p-20">
+      <div className="absolute inset-0 bg-gradient-to-br from-blue-900/20 via-purple-900/20 to-blue-900/20"></div>
+
+      <div className="relative container mx-auto px-4 max-w-5xl py-12 space-y-8">
+        <form onSubmit={handleSubmit}>
+          <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+            <CardHeader>
+              <div className="flex items-center gap-3">
+                <Ruler className="h-8 w-8 text-blue-400" />
+                <div>
+                  <CardTitle className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400">
+                    {editingId ? 'Edit Measurement' : 'Log Measurements'}
+                  </CardTitle>
+                  <CardDescription className="text-blue-200/80">
+                    Fill in whatever you measured today. Empty fields are skipped.
+                  </CardDescription>
+                </div>
+              </div>
+            </CardHeader>
+
+            <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <Label className="text-blue-100">Date</Label>
+                <Input
+                  type="date"
+                  value={form.measurement_date}
+                  max={getLocalDate()}
+                  onChange={e => setForm(prev => ({ ...prev, measurement_date: e.target.value }))}
+                  className="bg-gray-800/50 border-blue-500/20 text-blue-100"
+                  required
+                />
+              </div>
+
+              {fields.map(field => (
+                <div key={field.key} className="space-y-2">
+                  <Label className="text-blue-100">{field.label} ({field.unit})</Label>
+                  <Input
+                    type="number"
+                    step={field.step}
+                    min={field.min}
+                    max={field.max}
+                    value={form[field.key]}
+                    onChange={e => setForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                    className="bg-gray-800/50 border-blue-500/20 text-blue-100"
+                  />
+                </div>
+              ))}
+
+              <div className="space-y-2 md:col-span-3">
+                <Label className="text-blue-100">Notes</Label>
+                <Input
+                  value={form.notes}
+                  onChange={e => setForm(prev => ({ ...prev, notes: e.target.value }))}
+                  placeholder="Measured in the morning, after training..."
+                  className="bg-gray-800/50 border-blue-500/20 text-blue-100"
+                />
+              </div>
+            </CardContent>
+
+            <CardFooter className="flex justify-end gap-3">
+              {editingId && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={resetForm}
+                  className="border-blue-500/20 text-blue-400"
+                >
+                  <X className="h-4 w-4 mr-2" /> Cancel
+                </Button>
+              )}
+              <Button
+                type="submit"
+                disabled={saving}
+                className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+              >
+                {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+                {editingId ? 'Update' : 'Save'}
+              </Button>
+            </CardFooter>
+          </Card>
+        </form>
+
+        {message && (
+          <Alert variant={message.type === 'error' ? 'destructive' : 'default'}
+                className="bg-gray-900/80 border border-blue-500/20 text-blue-100">
+            <AlertDescription>{message.text}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-gray-100">
+              <TrendingUp className="h-6 w-6 text-blue-400" />
+              Trends
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {chartFields.length === 0 ? (
+              <p className="text-gray-400">Log your first measurement to see trends.</p>
+            ) : (
+              <Tabs defaultValue={chartFields[0].key}>
+                <TabsList className="flex flex-wrap h-auto">
+                  {chartFields.map(field => (
+                    <TabsTrigger key={field.key} value={field.key}>{field.label}</TabsTrigger>
+                  ))}
+                </TabsList>
+                {chartFields.map(field => (
+                  <TabsContent key={field.key} value={field.key} className="h-64 mt-6">
+                    <MetricChart data={displayMetrics} dataKey={field.key} label={field.label} unit={field.unit} />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gray-900/80 border border-blue-500/20 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-3 text-gray-100">
+              <History className="h-6 w-6 text-blue-400" />
+              History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {history.length === 0 ? (
+              <p className="text-gray-400">No measurements yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-blue-500/20 hover:bg-transparent">
+                    <TableHead className="text-blue-300">Date</TableHead>
+                    {fields.map(field => (
+                      <TableHead key={field.key} className="text-blue-300 whitespace-nowrap">
+                        {field.label} ({field.unit})
+                      </TableHead>
+                    ))}
+                    <TableHead className="text-blue-300">Notes</TableHead>
+                    <TableHead className="text-blue-300 w-24" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(metric => (
+                    <TableRow key={metric.id} className="border-blue-500/10 hover:bg-blue-500/5 text-blue-100">
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(metric.measurement_date).toLocaleDateString()}
+                      </TableCell>
+                      {fields.map(field => (
+                        <TableCell key={field.key} className="font-mono">
+                          {metric[field.key] ?? '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-blue-200/70">{metric.notes}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button type="button" variant="ghost" size="icon" onClick={() => handleEdit(metric)} aria-label="Edit measurement">
+                            <Pencil className="h-4 w-4 text-blue-300" />
+                          </Button>
+                          <Button type="button" variant="ghost" size="icon" onClick={() => handleDelete(metric.id)} aria-label="Delete measurement">
+                            <Trash2 className="h-4 w-4 text-red-400" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client'
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database } from '@/types/supabase';
+import { DEFAULT_UNIT_SYSTEM, isUnitSystem, type UnitSystem } from '@/lib/units';
+
+interface UnitPreference {
+  unitSystem: UnitSystem;
+  setUnitSystem: (unitSystem: UnitSystem) => void;
+}
+
+const UnitPreferenceContext = createContext<UnitPreference>({
+  unitSystem: DEFAULT_UNIT_SYSTEM,
+  setUnitSystem: () => {}
+});
+
+export const useUnitSystem = () => useContext(UnitPreferenceContext);
+
+export default function UnitPreferenceProvider({ children }: { children: React.ReactNode }) {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+
+  useEffect(() => {
+    if (!session?.user?.id) {
+      setUnitSystem(DEFAULT_UNIT_SYSTEM);
+      return;
+    }
+
+    supabase
+      .from('profiles')
+      .select('unit_system')
+      .eq('id', session.user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error loading unit preference:', error);
+          return;
+        }
+        if (isUnitSystem(data?.unit_system)) setUnitSystem(data.unit_system);
+      });
+  }, [session?.user?.id, supabase]);
+
+  return (
+    <UnitPreferenceContext.Provider value={{ unitSystem, setUnitSystem }}>
+      {children}
+    </UnitPreferenceContext.Provider>
+  );
+}
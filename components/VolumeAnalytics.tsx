@@ -0,0 +1,176 @@
+'use client'
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import type { Database, MuscleGroup } from '@/types/supabase';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertTriangle, BarChart3, Loader2 } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { VALID_MUSCLE_GROUPS } from '@/lib/workoutPlan';
+import BodyHeatmap from '@/components/BodyHeatmap';
+import {
+  computeVolumeAnalytics,
+  fetchVolumeLogs,
+  formatVolumeWarning,
+  type VolumeLogEntry,
+  type VolumePlan
+} from '@/lib/trainingVolume';
+import { getUnitLabel, toDisplayUnit } from '@/lib/units';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+
+type VolumeView = 'sets' | 'tonnage' | 'map';
+
+const MUSCLE_COLORS: Record<MuscleGroup, string> = {
+  chest: '#3B82F6',
+  back: '#8B5CF6',
+  shoulders: '#06B6D4',
+  biceps: '#EC4899',
+  triceps: '#F472B6',
+  forearms: '#A78BFA',
+  core: '#F59E0B',
+  quadriceps: '#10B981',
+  hamstrings: '#34D399',
+  calves: '#6EE7B7',
+  glutes: '#F97316',
+  traps: '#6366F1',
+  lats: '#818CF8',
+  lower_back: '#EAB308'
+};
+
+const TOOLTIP_STYLE = {
+  backgroundColor: 'rgba(17, 24, 39, 0.8)',
+  border: '1px solid rgba(59, 130, 246, 0.2)',
+  borderRadius: '0.5rem',
+  backdropFilter: 'blur(4px)'
+};
+
+const formatMuscle = (muscle: string) => muscle.replace('_', ' ');
+
+interface VolumeAnalyticsProps {
+  plan: VolumePlan;
+}
+
+export default function VolumeAnalytics({ plan }: VolumeAnalyticsProps) {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const { unitSystem } = useUnitSystem();
+
+  const [view, setView] = useState<VolumeView>('sets');
+  const [mapSource, setMapSource] = useState<'planned' | 'completed'>('planned');
+  const [entries, setEntries] = useState<VolumeLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!session?.user?.id) return;
+
+    fetchVolumeLogs(supabase, session.user.id, plan.workouts.map(workout => workout.id))
+      .then(setEntries)
+      .catch(err => console.error('Error loading training volume:', err))
+      .finally(() => setLoading(false));
+  }, [session, supabase, plan]);
+
+  const analytics = useMemo(() => computeVolumeAnalytics(plan, entries), [plan, entries]);
+
+  const trainedMuscles = VALID_MUSCLE_GROUPS.filter(muscle =>
+    analytics.weeks.some(week => week.planned.muscleSets[muscle] > 0 || week.actual.muscleSets[muscle] > 0)
+  );
+
+  const setsData = analytics.weeks.flatMap(week => [
+    { label: `W${week.week} plan`, ...week.planned.muscleSets },
+    { label: `W${week.week} logged`, ...week.actual.muscleSets }
+  ]);
+
+  const currentWeek = analytics.weeks[analytics.weeks.length - 1];
+
+  const tonnageData = analytics.weeks.map(week => ({
+    label: `W${week.week}`,
+    planned: toDisplayUnit(week.planned.tonnage, 'weight', unitSystem),
+    logged: toDisplayUnit(week.actual.tonnage, 'weight', unitSystem)
+  }));
+
+  return (
+    <div className="space-y-4 rounded-lg border border-blue-500/20 bg-black/40 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-blue-300">
+          <BarChart3 className="h-4 w-4" />
+          <span className="font-medium">Training Volume</span>
+        </div>
+        <Tabs value={view} onValueChange={value => setView(value as VolumeView)}>
+          <TabsList className="bg-gray-800/50">
+            <TabsTrigger value="sets">Hard sets</TabsTrigger>
+            <TabsTrigger value="tonnage">Tonnage</TabsTrigger>
+            <TabsTrigger value="map">Body map</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      {analytics.warnings.map(warning => (
+        <Alert key={`${warning.muscle}-${warning.source}`} className="bg-black border-yellow-500/30">
+          <AlertTriangle className="h-4 w-4 text-yellow-400" />
+          <AlertDescription className="text-yellow-100/80">{formatVolumeWarning(warning)}</AlertDescription>
+        </Alert>
+      ))}
+
+      {view === 'map' ? (
+        <div className="space-y-3">
+          <Tabs value={mapSource} onValueChange={value => setMapSource(value as 'planned' | 'completed')}>
+            <TabsList className="bg-gray-800/50">
+              <TabsTrigger value="planned">Planned</TabsTrigger>
+              <TabsTrigger value="completed">Week {currentWeek.week} logged</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <BodyHeatmap
+            muscleSets={mapSource === 'planned' ? currentWeek.planned.muscleSets : currentWeek.actual.muscleSets}
+            unitLabel={mapSource === 'planned' ? 'hard sets per week' : `hard sets in week ${currentWeek.week}`}
+          />
+        </div>
+      ) : (
+        <div className="h-72">
+          {loading ? (
+            <div className="h-full flex items-center justify-center gap-2 text-sm text-blue-200/60">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading training volume...
+            </div>
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              {view === 'sets' ? (
+                <BarChart data={setsData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="label" stroke="#9CA3AF" fontSize={12} />
+                  <YAxis stroke="#9CA3AF" allowDecimals={false} />
+                  <Tooltip
+                    contentStyle={TOOLTIP_STYLE}
+                    labelStyle={{ color: '#E5E7EB' }}
+                    formatter={(value, name) => [`${value} sets`, formatMuscle(String(name))]}
+                  />
+                  <Legend formatter={value => <span className="capitalize text-blue-200">{formatMuscle(String(value))}</span>} />
+                  {trainedMuscles.map(muscle => (
+                    <Bar key={muscle} dataKey={muscle} stackId="sets" fill={MUSCLE_COLORS[muscle]} />
+                  ))}
+                </BarChart>
+              ) : (
+                <BarChart data={tonnageData} margin={{ top: 5, right: 20, left: 20, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="label" stroke="#9CA3AF" />
+                  <YAxis stroke="#9CA3AF" tickFormatter={value => `${value} ${getUnitLabel('weight', unitSystem)}`} />
+                  <Tooltip
+                    contentStyle={TOOLTIP_STYLE}
+                    labelStyle={{ color: '#E5E7EB' }}
+                    formatter={(value, name) => [`${Number(value).toLocaleString()} ${getUnitLabel('weight', unitSystem)}`, name === 'planned' ? 'Planned' : 'Logged']}
+                  />
+                  <Legend formatter={value => <span className="text-blue-200">{value === 'planned' ? 'Planned' : 'Logged'}</span>} />
+                  <Bar dataKey="planned" fill="#3B82F6" fillOpacity={0.4} />
+                  <Bar dataKey="logged" fill="#8B5CF6" />
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          )}
+        </div>
+      )}
+
+      <p className="text-xs text-blue-200/60">
+        Hard sets count fully for primary muscles and half for secondary muscles. Cardio and endurance work is excluded.
+      </p>
+    </div>
+  );
+}
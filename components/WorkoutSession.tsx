@@ -0,0 +1,490 @@
+'use client'
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
+import { toast } from 'sonner';
+import type { Database } from '@/types/supabase';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Slider } from '@/components/ui/slider';
+import { Progress } from '@/components/ui/progress';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Dumbbell, Clock, ChevronLeft, ChevronRight, Plus, Minus, Flag, Save } from 'lucide-react';
+import { formatPlanName } from '@/lib/utils';
+import {
+  DISTANCE_EXERCISE_TYPES,
+  MOODS,
+  hasLoggedWorkoutToday,
+  saveWorkoutSession,
+  type LoggedExercise,
+  type LoggedSet,
+  type Mood
+} from '@/lib/workoutSession';
+import { formatRecord } from '@/lib/personalRecords';
+import { getUnitLabel, parseDisplayInput, toDisplayValue } from '@/lib/units';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
+
+type Workout = Database['public']['Tables']['workouts']['Row'];
+type Exercise = Database['public']['Tables']['exercises']['Row'];
+
+interface WorkoutWithExercises extends Workout {
+  exercises: Exercise[];
+}
+
+const moodLabels: Record<Mood, string> = {
+  great: '🤩 Great',
+  good: '🙂 Good',
+  okay: '😐 Okay',
+  tired: '😮‍💨 Tired',
+  exhausted: '🥵 Exhausted'
+};
+
+const difficultyLabels = ['Very easy', 'Easy', 'Moderate', 'Hard', 'Max effort'];
+
+const initialSets = (exercise: Exercise): LoggedSet[] =>
+  Array.from({ length: Math.max(exercise.sets, 1) }, () => ({
+    reps: exercise.reps,
+    weight: exercise.weight,
+    completed: false
+  }));
+
+export default function WorkoutSessionLogger({ workoutId }: { workoutId: string }) {
+  const session = useSession();
+  const supabase = useSupabaseClient<Database>();
+  const router = useRouter();
+  const { unitSystem } = useUnitSystem();
+
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [workout, setWorkout] = useState<WorkoutWithExercises | null>(null);
+  const [loggedExercises, setLoggedExercises] = useState<LoggedExercise[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [startedAt] = useState(() => new Date());
+  const [exerciseStartedAt, setExerciseStartedAt] = useState(() => Date.now());
+  const [mood, setMood] = useState<Mood>('good');
+  const [difficulty, setDifficulty] = useState(3);
+  const [notes, setNotes] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error' | 'warning'; text: string } | null>(null);
+
+  useEffect(() => {
+    const fetchWorkout = async () => {
+      if (!session?.user?.id) return;
+
+      try {
+        const { data, error } = await supabase
+          .from('workouts')
+          .select('*, exercises(*)')
+          .eq('id', workoutId)
+          .is('exercises.retired_at', null)
+          .single();
+
+        if (error) throw error;
+
+        const exercises = [...(data.exercises as Exercise[])]
+          .sort((a, b) => a.order_in_workout - b.order_in_workout);
+
+        setWorkout({ ...data, exercises });
+        setLoggedExercises(exercises.map(exercise => ({
+          exerciseId: exercise.id,
+          sets: initialSets(exercise),
+          durationSeconds: null,
+          distanceKm: null,
+          timeSeconds: null,
+          notes: ''
+        })));
+
+        if (await hasLoggedWorkoutToday(supabase, session.user.id, workoutId)) {
+          setMessage({ type: 'warning', text: "You've already logged this workout today." });
+        }
+      } catch (error) {
+        console.error('Error loading workout:', error);
+        setMessage({ type: 'error', text: 'Failed to load workout. Please refresh the page.' });
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchWorkout();
+  }, [session, supabase, workoutId]);
+
+  const exercises = workout?.exercises ?? [];
+  const isSummaryStep = currentIndex >= exercises.length;
+  const currentExercise = exercises[currentIndex];
+  const currentLog = loggedExercises[currentIndex];
+
+  const updateCurrentLog = (update: (log: LoggedExercise) => LoggedExercise) => {
+    setLoggedExercises(prev => prev.map((log, i) => (i === currentIndex ? update(log) : log)));
+  };
+
+  const updateSet = (setIndex: number, changes: Partial<LoggedSet>) => {
+    updateCurrentLog(log => ({
+      ...log,
+      sets: log.sets.map((set, i) => (i === setIndex ? { ...set, ...changes } : set))
+    }));
+  };
+
+  const addSet = () => {
+    updateCurrentLog(log => {
+      const last = log.sets[log.sets.length - 1];
+      return {
+        ...log,
+        sets: [...log.sets, { reps: last?.reps ?? 0, weight: last?.weight ?? null, completed: false }]
+      };
+    });
+  };
+
+  const removeSet = () => {
+    updateCurrentLog(log => ({ ...log, sets: log.sets.slice(0, -1) }));
+  };
+
+  const updateTime = (minutes: number, seconds: number) => {
+    updateCurrentLog(log => ({ ...log, timeSeconds: minutes * 60 + seconds || null }));
+  };
+
+  const goToExercise = (index: number) => {
+    if (currentLog) {
+      const elapsed = Math.round((Date.now() - exerciseStartedAt) / 1000);
+      updateCurrentLog(log => ({ ...log, durationSeconds: (log.durationSeconds ?? 0) + elapsed }));
+    }
+    setExerciseStartedAt(Date.now());
+    setCurrentIndex(index);
+  };
+
+  const handleSave = async () => {
+    if (!session?.user?.id || !workout) return;
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      const { newRecords } = await saveWorkoutSession(supabase, {
+        userId: session.user.id,
+        workoutId: workout.id,
+        startedAt,
+        finishedAt: new Date(),
+        difficultyRating: difficulty,
+        mood,
+        notes,
+        exercises: loggedExercises
+      });
+
+      newRecords.forEach(record => toast.success('New personal record!', { description: formatRecord(record, unitSystem) }));
+      setMessage({ type: 'success', text: 'Workout logged! Redirecting to your dashboard...' });
+      router.push('/dashboard');
+    } catch (error) {
+      console.error('Workout session save error:', error);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save workout. Please try again.'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!session) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Alert>
+          <AlertDescription>Please sign in to log a workout.</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
+      </div>
+    );
+  }
+
+  if (!workout) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Alert variant="destructive">
+          <AlertDescription>{message?.text ?? 'Workout not found.'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const completedSets = loggedExercises.reduce(
+    (total, log) => total + log.sets.filter(set => set.completed).length, 0
+  );
+  const plannedSets = loggedExercises.reduce((total, log) => total + log.sets.length, 0);
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl text-white">
+      <Card className="border border-blue-500/20 shadow-lg shadow-blue-500/10 backdrop-blur-sm bg-black/40">
+        <CardHeader className="space-y-4">
+          <div className="flex items-center gap-3">
+            <div className="bg-blue-500/10 p-3 rounded-lg">
+              <Dumbbell className="h-6 w-6 text-blue-400" />
+            </div>
+            <div>
+              <CardTitle className="text-2xl bg-gradient-to-r from-blue-400 to-purple-400 bg-clip-text text-transparent">
+                {formatPlanName(workout.name)}
+              </CardTitle>
+              <CardDescription className="text-blue-200/60">
+                {isSummaryStep
+                  ? 'How did it go?'
+                  : `Exercise ${currentIndex + 1} of ${exercises.length}`}
+              </CardDescription>
+            </div>
+          </div>
+          <Progress
+            value={plannedSets ? (completedSets / plannedSets) * 100 : 0}
+            className="h-2 bg-blue-950"
+          />
+        </CardHeader>
+
+        <CardContent className="space-y-6">
+          {!isSummaryStep && currentExercise && currentLog ? (
+            <>
+              <div className="space-y-2">
+                <h3 className="text-xl font-semibold text-blue-100">{formatPlanName(currentExercise.name)}</h3>
+                {currentExercise.description && (
+                  <p className="text-sm text-blue-200/60">{currentExercise.description}</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Badge className="bg-blue-500/10 text-blue-200 border-blue-500/20">
+                    Target {currentExercise.sets} × {currentExercise.reps}
+                  </Badge>
+                  <Badge className="bg-purple-500/10 text-purple-200 border-purple-500/20">
+                    <Clock className="h-3 w-3 mr-1" />
+                    Rest {currentExercise.rest_duration}
+                  </Badge>
+                  {currentExercise.primary_muscles?.map(muscle => (
+                    <Badge key={muscle} className="capitalize bg-blue-500/20 text-blue-200 border-none">
+                      {muscle.replace('_', ' ')}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+
+              <div className="rounded-xl border border-blue-500/20 divide-y divide-blue-500/10">
+                <div className="grid grid-cols-[3rem_1fr_1fr_3rem] gap-3 px-4 py-2 text-sm text-blue-300">
+                  <span>Set</span>
+                  <span>Reps</span>
+                  <span>Weight ({getUnitLabel('weight', unitSystem)})</span>
+                  <span>Done</span>
+                </div>
+                {currentLog.sets.map((set, setIndex) => (
+                  <div
+                    key={setIndex}
+                    className={`grid grid-cols-[3rem_1fr_1fr_3rem] gap-3 px-4 py-2 items-center ${
+                      set.completed ? 'bg-blue-500/10' : ''
+                    }`}
+                  >
+                    <span className="font-mono text-blue-200">{setIndex + 1}</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={set.reps}
+                      onChange={e => updateSet(setIndex, { reps: Number(e.target.value) || 0 })}
+                      className="bg-blue-950/40 border-blue-500/20 text-blue-100"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={toDisplayValue(set.weight, 'weight', unitSystem) ?? ''}
+                      placeholder="Bodyweight"
+                      onChange={e => updateSet(setIndex, { weight: parseDisplayInput(e.target.value, 'weight', unitSystem) })}
+                      className="bg-blue-950/40 border-blue-500/20 text-blue-100"
+                    />
+                    <Checkbox
+                      checked={set.completed}
+                      onCheckedChange={checked => updateSet(setIndex, { completed: checked === true })}
+                      className="border-blue-400"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addSet}
+                  className="border-blue-500/20 text-blue-400"
+                >
+                  <Plus className="h-4 w-4 mr-1" /> Add Set
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={removeSet}
+                  disabled={currentLog.sets.length <= 1}
+                  className="border-blue-500/20 text-blue-400"
+                >
+                  <Minus className="h-4 w-4 mr-1" /> Remove Set
+                </Button>
+              </div>
+
+              {DISTANCE_EXERCISE_TYPES.includes(currentExercise.exercise_type) && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="space-y-1">
+                      <Label className="text-blue-300">Distance ({getUnitLabel('distance', unitSystem)})</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={toDisplayValue(currentLog.distanceKm, 'distance', unitSystem) ?? ''}
+                        onChange={e => updateCurrentLog(log => ({
+                          ...log,
+                          distanceKm: parseDisplayInput(e.target.value, 'distance', unitSystem) || null
+                        }))}
+                        className="bg-blue-950/40 border-blue-500/20 text-blue-100"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-blue-300">Time (min)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={currentLog.timeSeconds === null ? '' : Math.floor(currentLog.timeSeconds / 60)}
+                        onChange={e => updateTime(Number(e.target.value) || 0, (currentLog.timeSeconds ?? 0) % 60)}
+                        className="bg-blue-950/40 border-blue-500/20 text-blue-100"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-blue-300">Time (sec)</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="59"
+                        value={currentLog.timeSeconds === null ? '' : currentLog.timeSeconds % 60}
+                        onChange={e => updateTime(
+                          Math.floor((currentLog.timeSeconds ?? 0) / 60),
+                          Math.min(Number(e.target.value) || 0, 59)
+                        )}
+                        className="bg-blue-950/40 border-blue-500/20 text-blue-100"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-blue-200/60">Saved with your completed sets and used for run time goals.</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label className="text-blue-300">Exercise Notes</Label>
+                <Input
+                  value={currentLog.notes}
+                  placeholder="Form cues, pain, equipment swaps..."
+                  onChange={e => updateCurrentLog(log => ({ ...log, notes: e.target.value }))}
+                  className="bg-purple-950/40 border-purple-500/20"
+                />
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="space-y-3">
+                <Label className="text-blue-300">Mood</Label>
+                <div className="flex flex-wrap gap-2">
+                  {MOODS.map(option => (
+                    <Button
+                      key={option}
+                      type="button"
+                      variant={mood === option ? 'default' : 'outline'}
+                      onClick={() => setMood(option)}
+                      className={mood === option
+                        ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white'
+                        : 'border-blue-500/20 text-blue-200'}
+                    >
+                      {moodLabels[option]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-blue-300">Difficulty</Label>
+                <div className="bg-purple-950/40 p-4 rounded-lg border border-purple-500/20">
+                  <Slider
+                    value={[difficulty]}
+                    onValueChange={([value]) => setDifficulty(value)}
+                    min={1}
+                    max={5}
+                    step={1}
+                    className="my-4"
+                  />
+                  <div className="text-sm text-purple-200/60 text-center font-medium">
+                    {difficulty} / 5 · {difficultyLabels[difficulty - 1]}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label className="text-blue-300">Session Notes</Label>
+                <Input
+                  value={notes}
+                  placeholder="Anything worth remembering?"
+                  onChange={e => setNotes(e.target.value)}
+                  className="bg-purple-950/40 border-purple-500/20"
+                />
+              </div>
+
+              <p className="text-sm text-blue-200/60">
+                {completedSets} of {plannedSets} sets completed · {Math.round((Date.now() - startedAt.getTime()) / 60000)} minutes
+              </p>
+            </>
+          )}
+        </CardContent>
+
+        <CardFooter className="flex justify-between pt-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => goToExercise(currentIndex - 1)}
+            disabled={currentIndex === 0 || saving}
+            className="border-blue-500/20 hover:border-blue-400/40 text-blue-400"
+          >
+            <ChevronLeft className="h-4 w-4 mr-1" /> Previous
+          </Button>
+          {isSummaryStep ? (
+            <Button
+              type="button"
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+            >
+              {saving ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : <Save className="h-4 w-4 mr-2" />}
+              {saving ? 'Saving...' : 'Save Workout'}
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={() => goToExercise(currentIndex + 1)}
+              className="bg-gradient-to-r from-blue-500 to-purple-500 hover:from-blue-600 hover:to-purple-600 text-white"
+            >
+              {currentIndex === exercises.length - 1 ? (
+                <><Flag className="h-4 w-4 mr-2" /> Finish</>
+              ) : (
+                <>Next <ChevronRight className="h-4 w-4 ml-1" /></>
+              )}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+
+      {message && (
+        <Alert
+          className="mt-6 border-l-4 border-l-blue-500 shadow-lg animate-fadeIn bg-white"
+          variant={message.type === 'error' ? 'destructive' : 'default'}
+        >
+          <AlertDescription>{message.text}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
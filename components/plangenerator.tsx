@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
 import type { Database } from '@/types/supabase';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
@@ -8,9 +8,13 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Loader2, Dumbbell, Target, Calendar, Clock, FileText, BicepsFlexed } from 'lucide-react';
+import { Loader2, Dumbbell, Target, Calendar, CalendarDays, Clock, FileText, BicepsFlexed, X, Wrench } from 'lucide-react';
 import { formatPlanName } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
+import { Checkbox } from '@/components/ui/checkbox';
+import { readPlanEvents, type PlanStreamEvent } from '@/lib/planStream';
+import { EQUIPMENT_OPTIONS, type Workout as GeneratedWorkout } from '@/lib/workoutPlan';
+import { WEEKDAYS, getDefaultTrainingDays, getWeekdayName } from '@/lib/schedule';
 
 type WorkoutPlan = Database['public']['Tables']['workout_plans']['Row'];
 type FitnessGoal = Database['public']['Tables']['fitness_goals']['Row'];
@@ -45,6 +49,8 @@ const muscleGroups = [
   'lower_back'
 ] as const;
 
+const MAX_TRAINING_DAYS = 6;
+
 interface ApiError {
   message: string;
   details?: string;
@@ -56,6 +62,7 @@ const initialFormData = {
   durationWeeks: 4,
   focusMuscles: [] as string[],
   daysPerWeek: 3,
+  trainingDays: getDefaultTrainingDays(3) as number[],
   availableEquipment: [] as string[],
   additionalNotes: ''
 };
@@ -71,6 +78,14 @@ export default function WorkoutPlanGenerator() {
   const [activePlanDetails, setActivePlanDetails] = useState<WorkoutPlan | null>(null);
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'warning'; text: string } | null>(null);
   const [formData, setFormData] = useState(initialFormData);
+  const [profileEquipment, setProfileEquipment] = useState<string[]>([]);
+  const [previewWorkouts, setPreviewWorkouts] = useState<GeneratedWorkout[]>([]);
+  const [progressText, setProgressText] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   useEffect(() => {
     setMounted(true);
@@ -94,6 +109,16 @@ export default function WorkoutPlanGenerator() {
 
         setHasActivePlan(!!activePlan);
         setActivePlanDetails(activePlan);
+
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('available_equipment')
+          .eq('id', session.user.id)
+          .maybeSingle();
+
+        const equipment = profile?.available_equipment ?? [];
+        setProfileEquipment(equipment);
+        setFormData(prev => ({ ...prev, availableEquipment: equipment }));
         
         if (activePlan) {
           setMessage({
@@ -149,6 +174,11 @@ export default function WorkoutPlanGenerator() {
   
     setLoading(true);
     setMessage(null);
+    setPreviewWorkouts([]);
+    setProgressText('Designing your plan...');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
   
     try {
       const response = await fetch('/api/generate-workout', {
@@ -156,36 +186,73 @@ export default function WorkoutPlanGenerator() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          userId: session.user.id,
-          ...formData
-        }),
+        body: JSON.stringify(formData),
+        signal: abortController.signal,
       });
   
-      if (!response.ok) {
+      if (response.status === 409) {
+        setHasActivePlan(true);
+      }
+
+      if (!response.ok || !response.body) {
         const errorData = await response.json();
-        throw new Error(errorData.error || `Failed to generate workout plan: ${response.statusText}`);
+        const details = Array.isArray(errorData.details) ? ` (${errorData.details.slice(0, 3).join('; ')})` : '';
+        throw new Error((errorData.error || `Failed to generate workout plan: ${response.statusText}`) + details);
       }
-  
-      const result = await response.json();
-      
-      if (!result.success) {
-        throw new Error(result.error || 'Failed to generate workout plan');
+
+      let completed = false;
+      await readPlanEvents(response.body, (event: PlanStreamEvent) => {
+        switch (event.type) {
+          case 'workout':
+            setPreviewWorkouts(prev => [...prev, event.workout]);
+            break;
+          case 'repair':
+            setPreviewWorkouts([]);
+            setProgressText(`Fixing ${event.issues.length} issue(s) in the generated plan (attempt ${event.attempt + 1})...`);
+            break;
+          case 'saving':
+            setProgressText('Saving your plan...');
+            break;
+          case 'complete':
+            completed = true;
+            break;
+          case 'error': {
+            if (event.status === 409) setHasActivePlan(true);
+            const details = event.details?.length ? ` (${event.details.slice(0, 3).join('; ')})` : '';
+            throw new Error(event.error + details);
+          }
+        }
+      });
+
+      if (!completed) {
+        throw new Error('Plan generation ended unexpectedly. Please try again.');
       }
 
       setMessage({ 
         type: 'success', 
         text: 'Workout plan generated successfully! You can view it in your dashboard.' 
       });
-      setFormData(initialFormData);
+      setFormData({ ...initialFormData, availableEquipment: profileEquipment });
+      setHasActivePlan(true);
 
     } catch (error) {
-      handleError(error);
+      if (abortController.signal.aborted) {
+        setMessage({ type: 'warning', text: 'Plan generation cancelled.' });
+        setPreviewWorkouts([]);
+      } else {
+        handleError(error);
+      }
     } finally {
+      abortControllerRef.current = null;
+      setProgressText(null);
       setLoading(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   if (!mounted) {
     return null;
   }
@@ -208,6 +275,13 @@ export default function WorkoutPlanGenerator() {
     );
   }
 
+  const toggleTrainingDay = (day: number) => setFormData(prev => {
+    const trainingDays = prev.trainingDays.includes(day)
+      ? prev.trainingDays.filter(d => d !== day)
+      : [...prev.trainingDays, day].sort((a, b) => a - b);
+    return { ...prev, trainingDays, daysPerWeek: trainingDays.length };
+  });
+
   const formatMuscleGroupName = (muscle: string) => 
     muscle.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
 
@@ -306,9 +380,13 @@ export default function WorkoutPlanGenerator() {
               <div className="bg-purple-950/40 p-4 rounded-lg border border-purple-500/20">
                 <Slider
                   value={[formData.daysPerWeek]}
-                  onValueChange={([value]) => setFormData(prev => ({ ...prev, daysPerWeek: value }))}
+                  onValueChange={([value]) => setFormData(prev => ({
+                    ...prev,
+                    daysPerWeek: value,
+                    trainingDays: getDefaultTrainingDays(value)
+                  }))}
                   min={1}
-                  max={6}
+                  max={MAX_TRAINING_DAYS}
                   step={1}
                   className="my-4"
                 />
@@ -318,6 +396,40 @@ export default function WorkoutPlanGenerator() {
               </div>
             </div>
 
+            <div className="space-y-3 col-span-2">
+              <div className="flex items-center gap-2 text-purple-400">
+                <CalendarDays className="h-4 w-4" />
+                <Label className="font-medium">Training Days</Label>
+              </div>
+              <div className="bg-purple-950/40 p-4 rounded-lg border border-purple-500/20">
+                <div className="grid grid-cols-7 gap-2">
+                  {WEEKDAYS.map(day => {
+                    const selected = formData.trainingDays.includes(day);
+                    return (
+                      <Button
+                        key={day}
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => toggleTrainingDay(day)}
+                        disabled={selected
+                          ? formData.trainingDays.length === 1
+                          : formData.trainingDays.length >= MAX_TRAINING_DAYS}
+                        className={selected
+                          ? 'bg-purple-500/30 border-purple-400 text-purple-100 hover:bg-purple-500/40'
+                          : 'bg-transparent border-purple-500/20 text-purple-200/60 hover:bg-purple-500/10'}
+                      >
+                        {getWeekdayName(day, 'short')}
+                      </Button>
+                    );
+                  })}
+                </div>
+                <p className="mt-3 text-xs text-purple-200/60">
+                  Rest days: {WEEKDAYS.filter(day => !formData.trainingDays.includes(day)).map(day => getWeekdayName(day)).join(', ')}
+                </p>
+              </div>
+            </div>
+
             <div className="space-y-3 col-span-2">
               <div className="flex items-center gap-2 text-blue-400">
                 <BicepsFlexed className="h-4 w-4" />
@@ -364,6 +476,33 @@ export default function WorkoutPlanGenerator() {
               </div>
             </div>
 
+            <div className="space-y-3 col-span-2">
+              <div className="flex items-center gap-2 text-purple-400">
+                <Wrench className="h-4 w-4" />
+                <Label className="font-medium">Available Equipment</Label>
+              </div>
+              <div className="bg-purple-950/40 p-4 rounded-lg border border-purple-500/20 grid grid-cols-2 md:grid-cols-3 gap-3">
+                {EQUIPMENT_OPTIONS.map(equipment => (
+                  <label key={equipment} className="flex items-center gap-2 text-sm text-purple-100 capitalize cursor-pointer">
+                    <Checkbox
+                      checked={formData.availableEquipment.includes(equipment)}
+                      onCheckedChange={checked => setFormData(prev => ({
+                        ...prev,
+                        availableEquipment: checked === true
+                          ? [...prev.availableEquipment, equipment]
+                          : prev.availableEquipment.filter(item => item !== equipment)
+                      }))}
+                      className="border-purple-400"
+                    />
+                    {equipment}
+                  </label>
+                ))}
+                <p className="col-span-full text-xs text-purple-200/60">
+                  Leave everything unchecked for a bodyweight-only plan.
+                </p>
+              </div>
+            </div>
+
             <div className="space-y-3 col-span-2">
               <div className="flex items-center gap-2 text-purple-400">
                 <FileText className="h-4 w-4" />
@@ -381,15 +520,27 @@ export default function WorkoutPlanGenerator() {
         </CardContent>
 
         <CardFooter className="flex justify-between pt-8">
-          <Button
-            type="button"
-            variant="outline"
-            onClick={() => setFormData(initialFormData)}
-            disabled={hasActivePlan}
-            className="border-blue-500/20 hover:border-blue-400/40 text-blue-400"
-          >
-            Reset
-          </Button>
+          {loading ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={cancelGeneration}
+              className="border-red-500/20 hover:border-red-400/40 text-red-400"
+            >
+              <X className="h-4 w-4 mr-2" />
+              Cancel
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setFormData({ ...initialFormData, availableEquipment: profileEquipment })}
+              disabled={hasActivePlan}
+              className="border-blue-500/20 hover:border-blue-400/40 text-blue-400"
+            >
+              Reset
+            </Button>
+          )}
           <Button
             type="button"
             onClick={generateWorkoutPlan}
@@ -406,6 +557,28 @@ export default function WorkoutPlanGenerator() {
         </CardFooter>
       </Card>
 
+      {loading && (
+        <div className="mt-6 space-y-3" aria-live="polite">
+          <div className="flex items-center gap-2 text-sm text-blue-200/70">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            {progressText}
+          </div>
+          {previewWorkouts.map((workout, index) => (
+            <Card key={`${workout.day_of_week}-${index}`} className="border border-blue-500/20 bg-black/40 animate-fadeIn">
+              <CardHeader className="py-4">
+                <CardTitle className="text-lg text-blue-100">{formatPlanName(workout.name)}</CardTitle>
+                <CardDescription className="text-blue-200/60">
+                  {getWeekdayName(workout.day_of_week)} · {workout.estimated_duration} · {workout.exercises.length} exercises
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="pb-4 text-sm text-blue-200/80">
+                {workout.exercises.map(exercise => `${exercise.name} ${exercise.sets}×${exercise.reps}`).join(' · ')}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
       {message && (
         <Alert 
           className="mt-6 border-l-4 border-l-blue-500 shadow-lg animate-fadeIn bg-white" 
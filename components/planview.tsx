@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import React from 'react';
+import { useRouter } from 'next/navigation';
 import { useSession, useSupabaseClient } from '@supabase/auth-helpers-react';
 import { 
   Dumbbell, 
@@ -12,6 +13,14 @@ import {
   Trophy,
   BarChart,
   Calendar as CalendarIcon,
+  TrendingUp,
+  Download,
+  Upload,
+  FileJson,
+  FileSpreadsheet,
+  Printer,
+  Pencil,
+  PlusCircle,
 } from 'lucide-react';
 import {
   Card,
@@ -39,8 +48,27 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Progress } from '@/components/ui/progress';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { toast } from 'sonner';
 import { formatPlanName } from '@/lib/utils';
+import { fetchPlanPrescriptions, formatPrescription, formatProgressionNote, getPlanWeek, type WeeklyPrescription } from '@/lib/progression';
+import { computeLiftRecords, fetchLiftHistory, getLiftKey, type LiftRecords } from '@/lib/personalRecords';
+import { getLocalDate, getTodaySchedule, getWeekdayName } from '@/lib/schedule';
+import { getPlanDateRange } from '@/lib/planCalendar';
+import PlanCalendar from '@/components/PlanCalendar';
+import CalendarSubscription from '@/components/CalendarSubscription';
+import ExerciseSwap from '@/components/ExerciseSwap';
+import PlanAdjustment from '@/components/PlanAdjustment';
+import VolumeAnalytics from '@/components/VolumeAnalytics';
+import { summarizeExerciseVolume } from '@/lib/trainingVolume';
+import { formatWeight } from '@/lib/units';
+import { useUnitSystem } from '@/components/UnitPreferenceProvider';
 
 type MuscleGroup = 
   | 'chest' | 'back' | 'shoulders' | 'biceps' | 'triceps' 
@@ -55,10 +83,12 @@ type Difficulty = 'beginner' | 'intermediate' | 'advanced';
 
 interface Exercise {
   id: string;
+  catalog_id: string | null;
   name: string;
   description: string;
   sets: number;
   reps: number;
+  weight: number | null;
   rest_duration: string;
   order_in_workout: number;
   primary_muscles: MuscleGroup[];
@@ -92,16 +122,42 @@ interface WorkoutPlan {
   workouts: Workout[];
 }
 
-const canCompletePlan = (createdAt: string, durationWeeks: number): boolean => {
-  const creationDate = new Date(createdAt);
-  const completionDate = new Date(creationDate.getTime() + (durationWeeks * 7 * 24 * 60 * 60 * 1000));
-  return new Date() >= completionDate;
-};
+const canCompletePlan = (createdAt: string, durationWeeks: number): boolean =>
+  getLocalDate() > getPlanDateRange({ created_at: createdAt, duration_weeks: durationWeeks }).endDate;
 
-const getTodayWorkout = (workouts: Workout[], restDays: number[]): Workout | null => {
-  const today = new Date().getDay() + 1;
-  if (restDays.includes(today)) return null;
-  return workouts.find(w => w.day_of_week === today) ?? null;
+const WorkoutVolumeSummary = ({ exercises }: { exercises: Exercise[] }) => {
+  const { unitSystem } = useUnitSystem();
+  const volume = summarizeExerciseVolume(exercises);
+  const muscles = Object.entries(volume.muscleSets)
+    .filter(([, sets]) => sets > 0)
+    .sort(([, a], [, b]) => b - a);
+
+  return (
+    <div className="p-4 rounded-xl bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-blue-500/20">
+      <div className="flex items-center justify-between text-sm text-blue-200">
+        <div className="flex items-center gap-2">
+          <BarChart className="h-4 w-4" />
+          <span>Workout Volume</span>
+        </div>
+        <span>
+          {volume.tonnage > 0 && `${formatWeight(volume.tonnage, unitSystem)} · `}
+          {volume.hardSets} hard sets · {volume.totalReps} total reps
+        </span>
+      </div>
+      {muscles.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-3">
+          {muscles.map(([muscle, sets]) => (
+            <Badge 
+              key={muscle}
+              className="text-xs capitalize bg-blue-500/10 text-blue-200 border-blue-500/20"
+            >
+              {muscle.replace('_', ' ')} {sets}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
 };
 
 const WorkoutPlansDisplay = () => {
@@ -110,9 +166,15 @@ const WorkoutPlansDisplay = () => {
   const [error, setError] = React.useState<string | null>(null);
   const [selectedPlan, setSelectedPlan] = React.useState<string | null>(null);
   const [showCompletionError, setShowCompletionError] = React.useState<string | null>(null);
+  const [prescriptions, setPrescriptions] = React.useState<Record<string, WeeklyPrescription>>({});
+  const [liftRecords, setLiftRecords] = React.useState<Record<string, LiftRecords>>({});
+  const [importing, setImporting] = React.useState(false);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
   
   const session = useSession();
   const supabase = useSupabaseClient();
+  const router = useRouter();
+  const { unitSystem } = useUnitSystem();
 
   const fetchWorkoutPlans = React.useCallback(async () => {
     if (!session?.user?.id) {
@@ -132,6 +194,7 @@ const WorkoutPlansDisplay = () => {
           )
         `)
         .eq('user_id', session.user.id)
+        .is('workouts.exercises.retired_at', null)
         .order('created_at', { ascending: false });
 
       if (plansError) throw plansError;
@@ -141,7 +204,15 @@ const WorkoutPlansDisplay = () => {
         const firstActivePlan = plansData.find(plan => plan.is_active);
         if (firstActivePlan) {
           setSelectedPlan(firstActivePlan.id);
+          fetchPlanPrescriptions(supabase, session.user.id, firstActivePlan)
+            .then(setPrescriptions)
+            .catch(err => console.error('Error computing weekly prescriptions:', err));
         }
+        fetchLiftHistory(supabase, session.user.id)
+          .then(history => setLiftRecords(
+            Object.fromEntries(computeLiftRecords(history).map(records => [records.liftKey, records]))
+          ))
+          .catch(err => console.error('Error loading personal records:', err));
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch workout plans');
@@ -181,13 +252,49 @@ const WorkoutPlansDisplay = () => {
     return `${hours}h ${minutes}m`;
   };
 
+  const handleImportPlan = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      let planExport: unknown;
+      try {
+        planExport = JSON.parse(await file.text());
+      } catch {
+        throw new Error('The selected file is not a valid plan export');
+      }
+
+      const response = await fetch('/api/plans/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(planExport),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        const details = Array.isArray(result.details) ? `: ${result.details.slice(0, 3).join('; ')}` : '';
+        throw new Error(`${result.error || 'Failed to import plan'}${details}`);
+      }
+
+      toast.success('Plan imported');
+      await fetchWorkoutPlans();
+    } catch (err) {
+      console.error('Error importing plan:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to import plan');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleMarkAsComplete = async (planId: string) => {
     const plan = plans.find(p => p.id === planId);
     if (!plan) return;
 
     if (!canCompletePlan(plan.created_at, plan.duration_weeks)) {
       setShowCompletionError(`This plan can only be completed after ${
-        new Date(new Date(plan.created_at).getTime() + (plan.duration_weeks * 7 * 24 * 60 * 60 * 1000)).toLocaleDateString()
+        new Date(`${getPlanDateRange(plan).endDate}T00:00:00`).toLocaleDateString()
       }`);
       return;
     }
@@ -195,7 +302,7 @@ const WorkoutPlansDisplay = () => {
     try {
       const { error: updateError } = await supabase
         .from('workout_plans')
-        .update({ is_active: false })
+        .update({ is_active: false, ended_at: new Date().toISOString() })
         .eq('id', planId);
 
       if (updateError) throw updateError;
@@ -206,43 +313,14 @@ const WorkoutPlansDisplay = () => {
     }
   };
 
-  const handleLogWorkout = async (planId: string, workoutId: string) => {
-    try {
-      const today = new Date().toISOString().split('T')[0];
-      const { data: existingLog } = await supabase
-        .from('workout_logs')
-        .select('id')
-        .eq('workout_id', workoutId)
-        .eq('user_id', session?.user?.id)
-        .gte('completed_at', today)
-        .single();
-
-      if (existingLog) {
-        setError("You've already logged today's workout!");
-        return;
-      }
-
-      const { error: logError } = await supabase
-        .from('workout_logs')
-        .insert({
-          user_id: session?.user?.id,
-          workout_id: workoutId,
-          completed_at: new Date().toISOString(),
-        });
-
-      if (logError) throw logError;
-      
-      setError(null);
-      await fetchWorkoutPlans();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to log workout');
-    }
+  const handleLogWorkout = (workoutId: string) => {
+    router.push(`/workouts/${workoutId}/session`);
   };
 
   const renderPlanActionButton = (plan: WorkoutPlan) => {
     if (!plan.is_active) return null;
 
-    const todayWorkout = getTodayWorkout(plan.workouts, plan.rest_days);
+    const todayWorkout = getTodaySchedule(plan).workout;
     const canComplete = canCompletePlan(plan.created_at, plan.duration_weeks);
 
     if (canComplete) {
@@ -267,7 +345,7 @@ const WorkoutPlansDisplay = () => {
 
     return (
       <button 
-        onClick={() => handleLogWorkout(plan.id, todayWorkout.id)}
+        onClick={() => handleLogWorkout(todayWorkout.id)}
         className="flex items-center gap-2 px-4 py-2 bg-primary text-primary-foreground rounded-lg hover:bg-primary/90 transition-colors"
       >
         <Dumbbell className="h-4 w-4" />
@@ -275,10 +353,6 @@ const WorkoutPlansDisplay = () => {
       </button>
     );
   };
-  const getDayName = (day: number): string => {
-    return ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'][day - 1];
-  };
-
   const getDifficultyColor = (difficulty: Difficulty): string => ({
     beginner: 'text-green-500',
     intermediate: 'text-yellow-500',
@@ -297,10 +371,6 @@ const WorkoutPlansDisplay = () => {
     isolation: 'bg-pink-100 text-pink-800 border-pink-200'
   })[type];
 
-  const calculateWorkoutVolume = (exercises: Exercise[]): number => {
-    return exercises.reduce((total, ex) => total + (ex.sets * ex.reps), 0);
-  };
-
   const calculateWeeklyDuration = (workouts: Workout[]): number => {
     return workouts.reduce((total, workout) => 
       total + parseInt(formatDuration(workout.estimated_duration)), 0
@@ -403,7 +473,11 @@ const WorkoutPlansDisplay = () => {
                         </span>
                         <span className="text-blue-400">•</span>
                         <CalendarIcon className="h-4 w-4" />
-                        <span>{plan.duration_weeks} weeks</span>
+                        <span>
+                          {plan.is_active
+                            ? `Week ${getPlanWeek({ createdAt: plan.created_at, durationWeeks: plan.duration_weeks })} of ${plan.duration_weeks}`
+                            : `${plan.duration_weeks} weeks`}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -414,8 +488,7 @@ const WorkoutPlansDisplay = () => {
                   {plan.is_active && !canCompletePlan(plan.created_at, plan.duration_weeks) && (
                     <div className="text-sm text-blue-200/60 mt-2">
                       Can be completed after {
-                        new Date(new Date(plan.created_at).getTime() + 
-                        (plan.duration_weeks * 7 * 24 * 60 * 60 * 1000)).toLocaleDateString()
+                        new Date(`${getPlanDateRange(plan).endDate}T00:00:00`).toLocaleDateString()
                       }
                     </div>
                   )}
@@ -440,10 +513,18 @@ const WorkoutPlansDisplay = () => {
                 <Timer className="h-4 w-4" />
                 <AlertDescription className="text-blue-200/80 flex items-center gap-2">
                   <span className="font-medium">Rest days:</span>
-                  {plan.rest_days?.map(day => getDayName(day)).join(', ')}
+                  {[...(plan.rest_days ?? [])].sort((a, b) => a - b).map(day => getWeekdayName(day)).join(', ')}
                 </AlertDescription>
               </Alert>
 
+              <PlanCalendar plan={plan} />
+
+              {plan.is_active && <CalendarSubscription />}
+
+              {plan.is_active && <PlanAdjustment planId={plan.id} onApplied={fetchWorkoutPlans} />}
+
+              <VolumeAnalytics plan={plan} />
+
               <Accordion 
                 type="single" 
                 collapsible 
@@ -467,7 +548,7 @@ const WorkoutPlansDisplay = () => {
                               {formatPlanName(workout.name)}
                             </h3>
                             <p className="text-sm text-blue-200/60">
-                              {getDayName(workout.day_of_week)} · {formatDuration(workout.estimated_duration)}
+                              {getWeekdayName(workout.day_of_week)} · {formatDuration(workout.estimated_duration)}
                             </p>
                           </div>
                         </div>
@@ -487,6 +568,9 @@ const WorkoutPlansDisplay = () => {
                               <TableRow className="border-blue-500/20 hover:bg-transparent">
                                 <TableHead className="text-blue-300">Exercise</TableHead>
                                 <TableHead className="text-blue-300 w-32">Sets × Reps</TableHead>
+                                {plan.is_active && (
+                                  <TableHead className="text-blue-300 w-44">This Week</TableHead>
+                                )}
                                 <TableHead className="text-blue-300 w-24">Rest</TableHead>
                                 <TableHead className="text-blue-300">Equipment</TableHead>
                               </TableRow>
@@ -503,6 +587,13 @@ const WorkoutPlansDisplay = () => {
                                   <TableCell>
                                     <div className="space-y-2">
                                       <p className="font-medium text-blue-100">{formatPlanName(exercise.name)}</p>
+                                      {liftRecords[getLiftKey(exercise)] && (
+                                        <p className="flex items-center gap-1 text-xs text-yellow-400/80">
+                                          <Trophy className="h-3 w-3" />
+                                          PR {formatWeight(liftRecords[getLiftKey(exercise)].bestWeight.weight, unitSystem)} × {liftRecords[getLiftKey(exercise)].bestWeight.reps}
+                                          {' · '}e1RM {formatWeight(liftRecords[getLiftKey(exercise)].bestE1rm.e1rm, unitSystem)}
+                                        </p>
+                                      )}
                                       <div className="flex flex-wrap gap-1">
                                         {exercise.primary_muscles?.map((muscle) => (
                                           <Badge 
@@ -526,11 +617,31 @@ const WorkoutPlansDisplay = () => {
                                           ))}
                                         </div>
                                       )}
+                                      {plan.is_active && (
+                                        <ExerciseSwap
+                                          exerciseId={exercise.id}
+                                          exerciseName={exercise.name}
+                                          onSwapped={fetchWorkoutPlans}
+                                        />
+                                      )}
                                     </div>
                                   </TableCell>
                                   <TableCell className="font-mono text-blue-200">
                                     {exercise.sets} × {exercise.reps}
                                   </TableCell>
+                                  {plan.is_active && (
+                                    <TableCell>
+                                      {prescriptions[exercise.id] && (
+                                        <div className="space-y-1">
+                                          <div className="flex items-center gap-1 font-mono text-blue-100">
+                                            <TrendingUp className="h-3 w-3 text-green-400" />
+                                            {formatPrescription(prescriptions[exercise.id], unitSystem)}
+                                          </div>
+                                          <p className="text-xs text-blue-200/60">{formatProgressionNote(prescriptions[exercise.id].note, unitSystem)}</p>
+                                        </div>
+                                      )}
+                                    </TableCell>
+                                  )}
                                   <TableCell>
                                     <div className="flex items-center gap-1 text-blue-200">
                                       <Clock className="h-3 w-3" />
@@ -555,21 +666,7 @@ const WorkoutPlansDisplay = () => {
                           </Table>
                         </div>
 
-                        <div className="p-4 rounded-xl bg-gradient-to-r from-blue-500/10 to-purple-500/10 border border-blue-500/20">
-                          <div className="flex items-center justify-between text-sm text-blue-200">
-                            <div className="flex items-center gap-2">
-                              <BarChart className="h-4 w-4" />
-                              <span>Workout Volume</span>
-                            </div>
-                            <span>
-                              {calculateWorkoutVolume(workout.exercises)} total reps
-                            </span>
-                          </div>
-                          <Progress 
-                            value={70} 
-                            className="mt-3 h-2 bg-blue-950"
-                          />
-                        </div>
+                        <WorkoutVolumeSummary exercises={workout.exercises} />
                       </div>
                     </AccordionContent>
                   </AccordionItem>
@@ -580,11 +677,48 @@ const WorkoutPlansDisplay = () => {
             <CardFooter className="bg-gradient-to-r from-blue-500/5 to-transparent border-t border-blue-500/20 p-2">
               <div className="flex items-center justify-between w-full text-sm text-blue-200/60">
                 <span>Last updated {new Date(plan.updated_at).toLocaleDateString()}</span>
-                <div className="flex items-center gap-2">
-                  <Clock className="h-4 w-4" />
-                  <span>
-                    {calculateWeeklyDuration(plan.workouts)}m per week
-                  </span>
+                <div className="flex items-center gap-4">
+                  <div className="flex items-center gap-2">
+                    <Clock className="h-4 w-4" />
+                    <span>
+                      {calculateWeeklyDuration(plan.workouts)}m per week
+                    </span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => router.push(`/plans/${plan.id}/edit`)}
+                    className="text-blue-200 hover:bg-blue-500/10"
+                  >
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="text-blue-200 hover:bg-blue-500/10">
+                        <Download className="h-4 w-4 mr-1" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem asChild>
+                        <a href={`/api/plans/${plan.id}/export?format=json`} download>
+                          <FileJson className="h-4 w-4 mr-2" />
+                          JSON
+                        </a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <a href={`/api/plans/${plan.id}/export?format=csv`} download>
+                          <FileSpreadsheet className="h-4 w-4 mr-2" />
+                          CSV
+                        </a>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => router.push(`/plans/${plan.id}/print`)}>
+                        <Printer className="h-4 w-4 mr-2" />
+                        Print / PDF
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
               </div>
             </CardFooter>
@@ -596,6 +730,33 @@ const WorkoutPlansDisplay = () => {
 
   return (
     <div className="max-w-6xl mx-auto p-4 space-y-8">
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => router.push('/plans/new')}
+          className="border-blue-500/20 text-blue-200 hover:bg-blue-500/10"
+        >
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Build Plan
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportPlan}
+          className="hidden"
+        />
+        <Button
+          variant="outline"
+          onClick={() => importInputRef.current?.click()}
+          disabled={importing}
+          className="border-blue-500/20 text-blue-200 hover:bg-blue-500/10"
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          {importing ? 'Importing...' : 'Import Plan'}
+        </Button>
+      </div>
+
       <Tabs defaultValue="active" className="w-full">
         <TabsList className="w-full max-w-md mx-auto grid grid-cols-2">
           <TabsTrigger value="active" className="flex items-center gap-2">
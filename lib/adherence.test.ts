@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAdherenceDays,
+  buildWeeklyRecap,
+  computeAdherence,
+  computeStreaks,
+  summarizeWeeks,
+  type AdherencePlan
+} from '@/lib/adherence';
+import type { PlanLogs } from '@/lib/planCalendar';
+
+const timeZone = 'UTC';
+const today = '2026-10-14';
+
+// Two weeks of Monday/Wednesday/Friday workouts starting Monday 5 October.
+const plan: AdherencePlan = {
+  id: 'plan-1',
+  name: 'Full Body',
+  created_at: '2026-10-05T08:00:00Z',
+  duration_weeks: 2,
+  rest_days: [2, 4, 6, 7],
+  is_active: true,
+  ended_at: null,
+  workouts: [
+    { id: 'w-1', name: 'Day A', day_of_week: 1 },
+    { id: 'w-2', name: 'Day B', day_of_week: 3 },
+    { id: 'w-3', name: 'Day C', day_of_week: 5 }
+  ]
+};
+
+const logs: PlanLogs = {
+  workoutDates: { '2026-10-05': ['log-1'], '2026-10-07': ['log-2'], '2026-10-12': ['log-3'] },
+  restDates: { '2026-10-06': true, '2026-10-10': false }
+};
+
+const days = buildAdherenceDays(plan, logs, today, timeZone);
+
+describe('buildAdherenceDays', () => {
+  it('marks each scheduled day from the plan start up to today', () => {
+    expect(days.map(day => [day.date, day.status])).toEqual([
+      ['2026-10-05', 'completed'],
+      ['2026-10-06', 'rest_followed'],
+      ['2026-10-07', 'completed'],
+      ['2026-10-08', 'rest_unlogged'],
+      ['2026-10-09', 'missed'],
+      ['2026-10-10', 'rest_skipped'],
+      ['2026-10-11', 'rest_unlogged'],
+      ['2026-10-12', 'completed'],
+      ['2026-10-13', 'rest_unlogged'],
+      ['2026-10-14', 'pending']
+    ]);
+  });
+
+  it('stops a deactivated plan on the day it ended', () => {
+    const ended = { ...plan, is_active: false, ended_at: '2026-10-08T12:00:00Z' };
+    const endedDays = buildAdherenceDays(ended, logs, today, timeZone);
+
+    expect(endedDays.at(-1)?.date).toBe('2026-10-08');
+    expect(endedDays.map(day => day.status)).not.toContain('missed');
+  });
+
+  it('stops a finished plan on its last scheduled day', () => {
+    expect(buildAdherenceDays(plan, logs, '2026-11-30', timeZone).at(-1)?.date).toBe('2026-10-18');
+  });
+});
+
+describe('computeStreaks', () => {
+  it('resets on misses and skips over neutral days', () => {
+    expect(computeStreaks(days)).toEqual({ current: 1, longest: 3 });
+  });
+});
+
+describe('summarizeWeeks', () => {
+  it('buckets days into calendar weeks ending with the current one', () => {
+    const weeks = summarizeWeeks(days, today, 3);
+
+    expect(weeks.map(week => [week.start, week.end])).toEqual([
+      ['2026-09-28', '2026-10-04'],
+      ['2026-10-05', '2026-10-11'],
+      ['2026-10-12', '2026-10-18']
+    ]);
+    expect(weeks.map(week => week.percent)).toEqual([null, 60, 100]);
+    expect(weeks[1]).toMatchObject({ scheduled: 5, completed: 3 });
+  });
+});
+
+describe('buildWeeklyRecap', () => {
+  it('summarizes the previous calendar week', () => {
+    expect(buildWeeklyRecap(days, today)).toEqual({
+      weekStart: '2026-10-05',
+      weekEnd: '2026-10-11',
+      workoutsCompleted: 2,
+      workoutsScheduled: 3,
+      restDaysFollowed: 1,
+      restDaysScheduled: 4,
+      percent: 60,
+      previousPercent: null
+    });
+  });
+});
+
+describe('computeAdherence', () => {
+  it('measures an ended plan only up to its end date', () => {
+    const ended = { ...plan, id: 'plan-0', is_active: false, ended_at: '2026-10-08T12:00:00Z' };
+    const summary = computeAdherence([{ plan: ended, logs }], today, timeZone);
+
+    expect(summary.plans[0]).toMatchObject({ planId: 'plan-0', isActive: false, end: '2026-10-08', percent: 100 });
+  });
+});
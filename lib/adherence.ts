@@ -0,0 +1,230 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { addDays, getDateWeekday, getLocalDate, getUserTimeZone, getWeekStart } from '@/lib/schedule';
+import { fetchPlanLogs, getPlanDateRange, type CalendarPlan, type PlanLogs } from '@/lib/planCalendar';
+
+// A scheduled day is a hit when the workout was logged or the rest day was
+// logged as followed. Logging an alternate activity on a rest day is a miss.
+// Today's workout and unlogged rest days are neutral: they neither count
+// towards adherence nor break a streak.
+export type AdherenceStatus =
+  | 'completed'
+  | 'missed'
+  | 'rest_followed'
+  | 'rest_skipped'
+  | 'rest_unlogged'
+  | 'pending';
+
+export interface AdherenceDay {
+  date: string;
+  planId: string;
+  kind: 'workout' | 'rest';
+  status: AdherenceStatus;
+}
+
+export interface AdherencePeriod {
+  start: string;
+  end: string;
+  scheduled: number;
+  completed: number;
+  percent: number | null;
+}
+
+export interface PlanAdherence extends AdherencePeriod {
+  planId: string;
+  name: string;
+  isActive: boolean;
+}
+
+export interface WeeklyRecap {
+  weekStart: string;
+  weekEnd: string;
+  workoutsCompleted: number;
+  workoutsScheduled: number;
+  restDaysFollowed: number;
+  restDaysScheduled: number;
+  percent: number | null;
+  previousPercent: number | null;
+}
+
+export interface AdherenceSummary {
+  currentStreak: number;
+  longestStreak: number;
+  weeks: AdherencePeriod[];
+  plans: PlanAdherence[];
+  recap: WeeklyRecap;
+}
+
+export interface AdherencePlan extends CalendarPlan {
+  name: string;
+  is_active: boolean;
+  ended_at: string | null;
+}
+
+export const RECENT_WEEKS = 8;
+export const ADHERENCE_HISTORY_WEEKS = 26;
+
+const HITS: AdherenceStatus[] = ['completed', 'rest_followed'];
+const MISSES: AdherenceStatus[] = ['missed', 'rest_skipped'];
+
+const getDayStatus = (
+  date: string,
+  kind: AdherenceDay['kind'],
+  logs: PlanLogs,
+  today: string
+): AdherenceStatus => {
+  if (kind === 'rest') {
+    if (!(date in logs.restDates)) return 'rest_unlogged';
+    return logs.restDates[date] ? 'rest_followed' : 'rest_skipped';
+  }
+
+  if (logs.workoutDates[date]?.length) return 'completed';
+  return date < today ? 'missed' : 'pending';
+};
+
+// Plans that were ended early stop counting on the day they were deactivated.
+const getLastScheduledDay = (plan: AdherencePlan, today: string, timeZone: string): string => {
+  const { endDate } = getPlanDateRange(plan, timeZone);
+  const endedOn = plan.ended_at ? getLocalDate(new Date(plan.ended_at), timeZone) : today;
+  return [endDate, today, endedOn].sort()[0];
+};
+
+export function buildAdherenceDays(
+  plan: AdherencePlan,
+  logs: PlanLogs,
+  today: string = getLocalDate(),
+  timeZone: string = getUserTimeZone()
+): AdherenceDay[] {
+  const { startDate } = getPlanDateRange(plan, timeZone);
+  const lastDay = getLastScheduledDay(plan, today, timeZone);
+  const workoutDays = plan.workouts.map(workout => workout.day_of_week);
+
+  const days: AdherenceDay[] = [];
+  for (let date = startDate; date <= lastDay; date = addDays(date, 1)) {
+    const weekday = getDateWeekday(date);
+    const kind = workoutDays.includes(weekday) && !plan.rest_days?.includes(weekday) ? 'workout' : 'rest';
+    days.push({ date, planId: plan.id, kind, status: getDayStatus(date, kind, logs, today) });
+  }
+
+  return days;
+}
+
+export const computeStreaks = (days: AdherenceDay[]): { current: number; longest: number } => {
+  let current = 0;
+  let longest = 0;
+
+  for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    if (HITS.includes(day.status)) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (MISSES.includes(day.status)) {
+      current = 0;
+    }
+  }
+
+  return { current, longest };
+};
+
+export const summarizePeriod = (days: AdherenceDay[], start: string, end: string): AdherencePeriod => {
+  const inPeriod = days.filter(day => day.date >= start && day.date <= end);
+  const completed = inPeriod.filter(day => HITS.includes(day.status)).length;
+  const scheduled = completed + inPeriod.filter(day => MISSES.includes(day.status)).length;
+
+  return {
+    start,
+    end,
+    scheduled,
+    completed,
+    percent: scheduled ? Math.round((completed / scheduled) * 100) : null
+  };
+};
+
+export const summarizeWeeks = (days: AdherenceDay[], today: string, count: number = RECENT_WEEKS): AdherencePeriod[] => {
+  const currentWeek = getWeekStart(today);
+  return Array.from({ length: count }, (_, i) => {
+    const start = addDays(currentWeek, (i - count + 1) * 7);
+    return summarizePeriod(days, start, addDays(start, 6));
+  });
+};
+
+export const buildWeeklyRecap = (days: AdherenceDay[], today: string): WeeklyRecap => {
+  const weekStart = addDays(getWeekStart(today), -7);
+  const weekEnd = addDays(weekStart, 6);
+  const week = days.filter(day => day.date >= weekStart && day.date <= weekEnd);
+  const workouts = week.filter(day => day.kind === 'workout');
+  const rests = week.filter(day => day.kind === 'rest');
+
+  return {
+    weekStart,
+    weekEnd,
+    workoutsCompleted: workouts.filter(day => day.status === 'completed').length,
+    workoutsScheduled: workouts.length,
+    restDaysFollowed: rests.filter(day => day.status === 'rest_followed').length,
+    restDaysScheduled: rests.length,
+    percent: summarizePeriod(days, weekStart, weekEnd).percent,
+    previousPercent: summarizePeriod(days, addDays(weekStart, -7), addDays(weekStart, -1)).percent
+  };
+};
+
+export function computeAdherence(
+  plans: { plan: AdherencePlan; logs: PlanLogs }[],
+  today: string = getLocalDate(),
+  timeZone: string = getUserTimeZone()
+): AdherenceSummary {
+  const daysByPlan = plans.map(({ plan, logs }) => ({ plan, days: buildAdherenceDays(plan, logs, today, timeZone) }));
+  const days = daysByPlan.flatMap(entry => entry.days);
+  const { current, longest } = computeStreaks(days);
+
+  return {
+    currentStreak: current,
+    longestStreak: longest,
+    weeks: summarizeWeeks(days, today),
+    plans: daysByPlan.map(({ plan, days: planDays }) => {
+      const { startDate } = getPlanDateRange(plan, timeZone);
+      return {
+        ...summarizePeriod(planDays, startDate, getLastScheduledDay(plan, today, timeZone)),
+        planId: plan.id,
+        name: plan.name,
+        isActive: plan.is_active
+      };
+    }),
+    recap: buildWeeklyRecap(days, today)
+  };
+}
+
+// Only plans that were still running during the recent weeks are loaded, so
+// streaks are measured over that history rather than every plan ever created.
+// An ended plan stops counting at its ended_at.
+export async function fetchAdherence(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  timeZone: string = getUserTimeZone()
+): Promise<AdherenceSummary> {
+  const since = addDays(getWeekStart(getLocalDate(new Date(), timeZone)), -ADHERENCE_HISTORY_WEEKS * 7);
+
+  const { data: plans, error: plansError } = await supabase
+    .from('workout_plans')
+    .select('id, name, created_at, ended_at, duration_weeks, rest_days, is_active')
+    .eq('user_id', userId)
+    .or(`is_active.eq.true,ended_at.gte.${since}`)
+    .order('created_at');
+
+  if (plansError) throw plansError;
+
+  const { data: workouts, error: workoutsError } = await supabase
+    .from('workouts')
+    .select('id, plan_id, name, day_of_week')
+    .in('plan_id', (plans ?? []).map(plan => plan.id));
+
+  if (workoutsError) throw workoutsError;
+
+  const entries = await Promise.all((plans ?? []).map(async row => {
+    const plan: AdherencePlan = {
+      ...row,
+      workouts: (workouts ?? []).filter(workout => workout.plan_id === row.id)
+    };
+    return { plan, logs: await fetchPlanLogs(supabase, userId, plan, timeZone) };
+  }));
+
+  return computeAdherence(entries, getLocalDate(new Date(), timeZone), timeZone);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { matchCatalogEntry, normalizeExerciseName, type CatalogEntry } from '@/lib/exerciseCatalog';
+
+const entry = (name: string, aliases: string[] = []): CatalogEntry => ({
+  id: name.toLowerCase().replace(/ /g, '-'),
+  name,
+  aliases,
+  primary_muscles: [],
+  secondary_muscles: [],
+  equipment: [],
+  exercise_type: 'strength',
+  instructions: null,
+  created_at: '2026-10-19T00:00:00Z'
+});
+
+// A slice of the seeded catalog, aliases included.
+const catalog = [
+  entry('Barbell Bench Press', ['Bench Press', 'Flat Bench Press', 'Flat Barbell Bench Press']),
+  entry('Dumbbell Bench Press', ['DB Bench Press', 'Dumbbell Chest Press', 'Flat Dumbbell Press']),
+  entry('Barbell Row', ['Bent Over Row', 'Bent-Over Barbell Row', 'Pendlay Row']),
+  entry('Deadlift', ['Barbell Deadlift', 'Conventional Deadlift']),
+  entry('Romanian Deadlift', ['RDL', 'Dumbbell Romanian Deadlift']),
+  entry('Back Squat', ['Barbell Squat', 'Squat', 'Barbell Back Squat']),
+  entry('Front Squat', ['Barbell Front Squat']),
+  entry('Bulgarian Split Squat', ['Rear Foot Elevated Split Squat']),
+  entry('Push Up', ['Push-Up', 'Pushup', 'Press Up']),
+  entry('Skull Crusher', ['Lying Triceps Extension', 'Skullcrusher']),
+  entry('Triceps Pushdown', ['Tricep Pushdown', 'Cable Pushdown', 'Rope Pushdown'])
+];
+
+const match = (name: string) => matchCatalogEntry(name, catalog)?.name ?? null;
+
+describe('normalizeExerciseName', () => {
+  it('lowercases, expands abbreviations and drops plurals and stop words', () => {
+    expect(normalizeExerciseName('DB Bench Presses')).toBe('dumbbell bench press');
+    expect(normalizeExerciseName("Farmer's Walk")).toBe('farmer walk');
+    expect(normalizeExerciseName('Pull-ups with the bar')).toBe('pull up bar');
+  });
+});
+
+describe('matchCatalogEntry', () => {
+  it.each([
+    ['Barbell Bench Press', 'Barbell Bench Press'],
+    ['bench press', 'Barbell Bench Press'],
+    ['DB Bench Press', 'Dumbbell Bench Press'],
+    ['Squats', 'Back Squat'],
+    ['Push-ups', 'Push Up'],
+    ['Tricep Pushdowns', 'Triceps Pushdown'],
+    ['Press Bench', 'Barbell Bench Press']
+  ])('matches %s to %s by name or alias', (name, expected) => {
+    expect(match(name)).toBe(expected);
+  });
+
+  it.each([
+    ['Romanian Deadlifft', 'Romanian Deadlift'],
+    ['Skullcrushers', 'Skull Crusher'],
+    ['Skull Crushers', 'Skull Crusher']
+  ])('tolerates the typo or spacing in %s', (name, expected) => {
+    expect(match(name)).toBe(expected);
+  });
+
+  it.each([
+    ['Barbell Romanian Deadlift'],
+    ['Barbell Upright Row'],
+    ['Barbell Split Squat'],
+    ['Barbell Hack Squat'],
+    ['Barbell Box Squat'],
+    ['Barbell Pause Squat'],
+    ['Dumbbell Deadlift']
+  ])('does not merge %s into a different lift', name => {
+    expect(match(name)).toBeNull();
+  });
+
+  it('does not swap implements', () => {
+    expect(match('Dumbbell Row')).toBeNull();
+    expect(match('Cable Bench Press')).toBeNull();
+  });
+
+  it('returns null for names with no meaningful tokens', () => {
+    expect(match('The Exercise')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+
+export type CatalogEntry = Database['public']['Tables']['exercise_catalog']['Row'];
+
+const STOP_WORDS = ['the', 'a', 'with', 'and', 'of', 'exercise'];
+const TYPO_MIN_LENGTH = 5;
+const TOKEN_SYNONYMS: Record<string, string> = {
+  db: 'dumbbell',
+  bb: 'barbell',
+  kb: 'kettlebell',
+  bicep: 'biceps',
+  tricep: 'triceps',
+  pushup: 'push up',
+  pullup: 'pull up',
+  chinup: 'chin up',
+  situp: 'sit up'
+};
+
+const singularize = (token: string): string => {
+  if (['biceps', 'triceps'].includes(token) || token.endsWith('ss')) return token;
+  if (/(sses|ches|shes)$/.test(token)) return token.slice(0, -2);
+  return token.length > 2 && token.endsWith('s') ? token.slice(0, -1) : token;
+};
+
+export const tokenizeExerciseName = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .flatMap(token => (TOKEN_SYNONYMS[token] ?? token).split(' '))
+    .map(singularize)
+    .map(token => TOKEN_SYNONYMS[token] ?? token)
+    .filter(token => !STOP_WORDS.includes(token));
+
+export const normalizeExerciseName = (name: string): string => tokenizeExerciseName(name).join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+};
+
+const tokensMatch = (a: string, b: string): boolean =>
+  a === b || (Math.min(a.length, b.length) >= TYPO_MIN_LENGTH && levenshtein(a, b) <= 1);
+
+// Every meaningful token must pair up with one on the other side, so an extra
+// "Romanian" or "Split" never collapses a variation into its parent lift.
+const isSameExercise = (candidate: string[], reference: string[]): boolean => {
+  if (candidate.join('') === reference.join('')) return true;
+  if (candidate.length !== reference.length) return false;
+
+  const unmatched = [...reference];
+  return candidate.every(token => {
+    const index = unmatched.findIndex(other => tokensMatch(token, other));
+    if (index === -1) return false;
+    unmatched.splice(index, 1);
+    return true;
+  });
+};
+
+export function matchCatalogEntry(name: string, catalog: CatalogEntry[]): CatalogEntry | null {
+  const candidate = tokenizeExerciseName(name);
+  if (candidate.length === 0) return null;
+
+  const references = catalog.map(entry => ({
+    entry,
+    names: [entry.name, ...entry.aliases].map(tokenizeExerciseName)
+  }));
+
+  const exact = references.find(({ names }) => names.some(reference => reference.join(' ') === candidate.join(' ')));
+  if (exact) return exact.entry;
+
+  return references.find(({ names }) => names.some(reference => isSameExercise(candidate, reference)))?.entry ?? null;
+}
+
+export async function fetchExerciseCatalog(supabase: SupabaseClient<Database>): Promise<CatalogEntry[]> {
+  const { data, error } = await supabase
+    .from('exercise_catalog')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import {
+  ExerciseSchema,
+  PlanValidationError,
+  formatPlanIssues,
+  isEquipmentAvailable,
+  type AthleteProfile,
+  type Exercise
+} from '@/lib/workoutPlan';
+import { fetchExerciseCatalog, matchCatalogEntry, normalizeExerciseName } from '@/lib/exerciseCatalog';
+
+export const ALTERNATIVE_COUNT = 3;
+
+export const ExerciseAlternativeSchema = ExerciseSchema.pick({
+  name: true,
+  description: true,
+  primary_muscles: true,
+  secondary_muscles: true,
+  equipment_needed: true
+}).extend({
+  reason: z.string().trim().min(1)
+});
+
+export const ExerciseAlternativesSchema = z.object({
+  alternatives: z.array(ExerciseAlternativeSchema).min(1)
+});
+
+export type ExerciseAlternative = z.infer<typeof ExerciseAlternativeSchema>;
+
+export interface SubstitutionRequest {
+  exercise: Pick<Exercise, 'name' | 'description' | 'sets' | 'reps' | 'primary_muscles' | 'secondary_muscles' | 'equipment_needed' | 'exercise_type'>;
+  workoutExercises: string[];
+  availableEquipment: string[];
+  count: number;
+  athlete?: AthleteProfile;
+  reason?: string;
+}
+
+export const findAlternativeIssues = (alternatives: ExerciseAlternative[], request: SubstitutionRequest): string[] => {
+  const taken = [request.exercise.name, ...request.workoutExercises].map(normalizeExerciseName);
+  const seen = new Set<string>();
+
+  return alternatives.flatMap((alternative, index) => {
+    const path = `alternatives[${index}]`;
+    const issues: string[] = [];
+    const key = normalizeExerciseName(alternative.name);
+
+    if (taken.includes(key)) {
+      issues.push(`${path}.name: "${alternative.name}" is already in this workout`);
+    } else if (seen.has(key)) {
+      issues.push(`${path}.name: "${alternative.name}" is suggested more than once`);
+    }
+    seen.add(key);
+
+    const missing = request.exercise.primary_muscles.filter(muscle => !alternative.primary_muscles.includes(muscle));
+    if (missing.length) {
+      issues.push(`${path}.primary_muscles: must include ${missing.join(', ')}`);
+    }
+
+    alternative.equipment_needed
+      .filter(item => !isEquipmentAvailable(item, request.availableEquipment))
+      .forEach(item => issues.push(`${path}.equipment_needed: "${item}" is not available`));
+
+    return issues;
+  });
+};
+
+export const parseExerciseAlternatives = (content: string, request: SubstitutionRequest): ExerciseAlternative[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : 'Unknown error';
+    throw new PlanValidationError('Invalid JSON structure', [`alternatives: Response is not valid JSON (${reason})`]);
+  }
+
+  const result = ExerciseAlternativesSchema.safeParse(json);
+  if (!result.success) {
+    throw new PlanValidationError('Suggested alternatives failed validation', formatPlanIssues(result.error));
+  }
+
+  const issues = findAlternativeIssues(result.data.alternatives, request);
+  if (issues.length) {
+    throw new PlanValidationError('Suggested alternatives do not fit the exercise', issues);
+  }
+
+  return result.data.alternatives.slice(0, request.count);
+};
+
+// Exercises without logs are updated in place so the workout keeps its order
+// and any in-progress session still points at a valid exercise. Logged ones
+// are retired and replaced by a new row in the same slot, so their past logs
+// keep counting towards the original movement. Returns the replacement's id.
+export async function replaceExercise(
+  supabase: SupabaseClient<Database>,
+  exerciseId: string,
+  alternative: ExerciseAlternative
+): Promise<string> {
+  const catalog = await fetchExerciseCatalog(supabase).catch(catalogError => {
+    console.error('Exercise catalog unavailable, saving exercise unlinked:', catalogError);
+    return [];
+  });
+
+  const { data, error } = await supabase.rpc('replace_exercise', {
+    p_exercise_id: exerciseId,
+    p_replacement: {
+      catalog_id: matchCatalogEntry(alternative.name, catalog)?.id ?? null,
+      name: alternative.name,
+      description: alternative.description,
+      primary_muscles: alternative.primary_muscles,
+      secondary_muscles: alternative.secondary_muscles,
+      equipment_needed: alternative.equipment_needed
+    }
+  });
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeTargetProgress,
+  getNextGoalStatus,
+  getRunTimeForDistance,
+  parseGoalTargets,
+  type GoalHistory,
+  type GoalTarget,
+  type RunLogEntry
+} from '@/lib/goals';
+
+const since = '2026-09-01T00:00:00Z';
+
+const run = (completedAt: string, distanceKm: number, minutes: number): RunLogEntry => ({
+  exerciseKey: 'run',
+  exerciseName: 'Outdoor Run',
+  completedAt,
+  distanceKm,
+  timeSeconds: minutes * 60
+});
+
+const history = (overrides: Partial<GoalHistory> = {}): GoalHistory => ({
+  metrics: [],
+  lifts: [],
+  runs: [],
+  lastWorkoutAt: null,
+  ...overrides
+});
+
+describe('parseGoalTargets', () => {
+  it('keeps valid targets and skips ones that no longer parse', () => {
+    const targets = parseGoalTargets({
+      targets: [
+        { kind: 'body_weight', target: 75, start: 82 },
+        { kind: 'waist', target: 80, start: null },
+        { kind: 'body_fat', target: 90, start: null }
+      ]
+    });
+
+    expect(targets).toEqual([{ kind: 'body_weight', target: 75, start: 82 }]);
+  });
+
+  it('returns no targets for goals without any', () => {
+    expect(parseGoalTargets(null)).toEqual([]);
+    expect(parseGoalTargets({})).toEqual([]);
+  });
+});
+
+describe('getRunTimeForDistance', () => {
+  it('scales longer runs to the target distance by pace', () => {
+    expect(getRunTimeForDistance(run('2026-10-01T07:00:00Z', 6, 30), 5)).toBe(25);
+    expect(getRunTimeForDistance(run('2026-10-01T07:00:00Z', 5, 27.5), 5)).toBe(27.5);
+  });
+
+  it('ignores runs shorter than the target distance', () => {
+    expect(getRunTimeForDistance(run('2026-10-01T07:00:00Z', 3, 12), 5)).toBeNull();
+  });
+});
+
+describe('computeTargetProgress', () => {
+  it('measures weight loss from the starting value', () => {
+    const target: GoalTarget = { kind: 'body_weight', target: 75, start: 85 };
+    const metrics = [
+      { measurement_date: '2026-09-10', weight: 84, body_fat_percentage: null },
+      { measurement_date: '2026-10-10', weight: 80, body_fat_percentage: 18 }
+    ];
+
+    expect(computeTargetProgress(target, 'fat_loss', history({ metrics }), since)).toMatchObject({
+      current: 80,
+      percent: 50,
+      achieved: false
+    });
+  });
+
+  it('takes the fastest qualifying run since the goal started for run times', () => {
+    const target: GoalTarget = {
+      kind: 'run_time',
+      exercise_key: 'run',
+      exercise_name: 'Outdoor Run',
+      distance_km: 5,
+      target: 25,
+      start: 30
+    };
+    const runs = [
+      run('2026-08-20T07:00:00Z', 5, 20),
+      run('2026-09-10T07:00:00Z', 5, 28),
+      run('2026-10-01T07:00:00Z', 6, 30),
+      run('2026-10-05T07:00:00Z', 2, 8)
+    ];
+
+    expect(computeTargetProgress(target, 'endurance', history({ runs }), since)).toMatchObject({
+      current: 25,
+      percent: 100,
+      achieved: true
+    });
+  });
+
+  it('treats higher lift estimates as progress', () => {
+    const target: GoalTarget = { kind: 'lift_e1rm', exercise_key: 'bench', exercise_name: 'Bench', target: 120, start: 100 };
+    const lifts = [{
+      liftKey: 'bench',
+      exerciseName: 'Bench',
+      workoutLogId: 'log-1',
+      completedAt: '2026-10-01T10:00:00Z',
+      sets: 3,
+      reps: 1,
+      weight: 110
+    }];
+
+    expect(computeTargetProgress(target, 'strength', history({ lifts }), since)).toMatchObject({
+      current: 110,
+      percent: 50,
+      achieved: false
+    });
+  });
+
+  it('has no progress without a current value', () => {
+    const target: GoalTarget = { kind: 'body_fat', target: 15, start: 20 };
+    expect(computeTargetProgress(target, 'fat_loss', history(), since)).toMatchObject({ current: null, percent: null });
+  });
+});
+
+describe('getNextGoalStatus', () => {
+  const goal = { status: 'active' as const, target_date: '2026-12-01', created_at: '2026-09-01T10:00:00Z' };
+  const progress = (achieved: boolean) => [{
+    target: { kind: 'body_weight' as const, target: 75, start: 85 },
+    current: 80,
+    percent: 50,
+    achieved
+  }];
+
+  it('completes a goal once every target is achieved', () => {
+    expect(getNextGoalStatus(goal, progress(true), '2026-10-10T12:00:00Z', '2026-10-12')).toBe('completed');
+  });
+
+  it('keeps an unmet goal active while the user trains', () => {
+    expect(getNextGoalStatus(goal, progress(false), '2026-10-10T12:00:00Z', '2026-10-12')).toBe('active');
+  });
+
+  it('abandons a goal after the grace period or a month without workouts', () => {
+    expect(getNextGoalStatus(goal, progress(false), '2026-12-10T12:00:00Z', '2026-12-16')).toBe('abandoned');
+    expect(getNextGoalStatus(goal, progress(false), '2026-10-01T12:00:00Z', '2026-11-05')).toBe('abandoned');
+    expect(getNextGoalStatus(goal, progress(false), null, '2026-10-05')).toBe('abandoned');
+  });
+
+  it('completes a goal without targets when the user trained up to its date', () => {
+    expect(getNextGoalStatus(goal, [], '2026-11-20T12:00:00Z', '2026-12-02')).toBe('completed');
+    expect(getNextGoalStatus(goal, [], '2026-10-01T12:00:00Z', '2026-12-02')).toBe('abandoned');
+  });
+
+  it('leaves finished goals alone', () => {
+    expect(getNextGoalStatus({ ...goal, status: 'abandoned' }, progress(true), null, '2026-10-12')).toBe('abandoned');
+  });
+});
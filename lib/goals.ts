@@ -0,0 +1,347 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import { addDays, getLocalDate } from '@/lib/schedule';
+import { computeLiftRecords, fetchLiftHistory, getLiftKey, type LiftLogEntry } from '@/lib/personalRecords';
+
+type FitnessGoalRow = Database['public']['Tables']['fitness_goals']['Row'];
+type WorkoutPlanRow = Database['public']['Tables']['workout_plans']['Row'];
+
+export type GoalStatus = FitnessGoalRow['status'];
+
+export const GOAL_TARGET_KINDS = ['body_weight', 'body_fat', 'lift_e1rm', 'run_time'] as const;
+
+export type GoalTargetKind = typeof GOAL_TARGET_KINDS[number];
+
+export const GOAL_TARGET_LABELS: Record<GoalTargetKind, string> = {
+  body_weight: 'Body weight',
+  body_fat: 'Body fat',
+  lift_e1rm: 'Lift e1RM',
+  run_time: 'Run time'
+};
+
+// Goals with measurable targets are abandoned this long after their target
+// date; any goal is abandoned after this long without a logged workout.
+export const GOAL_GRACE_DAYS = 14;
+export const INACTIVITY_DAYS = 30;
+
+// Users the daily goal job syncs concurrently.
+export const GOAL_SYNC_BATCH_SIZE = 10;
+
+// Targets are stored canonically: kg for body weight and e1RM, percent for
+// body fat and minutes for a run over distance_km. `start` is the value when
+// the target was set.
+const start = z.number().nullable();
+
+export const GoalTargetSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('body_weight'), target: z.number().min(20).max(400), start }),
+  z.object({ kind: z.literal('body_fat'), target: z.number().min(2).max(70), start }),
+  z.object({
+    kind: z.literal('lift_e1rm'),
+    exercise_key: z.string().min(1),
+    exercise_name: z.string().min(1),
+    target: z.number().positive(),
+    start
+  }),
+  z.object({
+    kind: z.literal('run_time'),
+    exercise_key: z.string().min(1),
+    exercise_name: z.string().min(1),
+    distance_km: z.number().positive(),
+    target: z.number().positive(),
+    start
+  })
+]);
+
+export type GoalTarget = z.infer<typeof GoalTargetSchema>;
+
+export interface RunLogEntry {
+  exerciseKey: string;
+  exerciseName: string;
+  completedAt: string;
+  distanceKm: number;
+  timeSeconds: number;
+}
+
+export interface GoalHistory {
+  metrics: { measurement_date: string; weight: number | null; body_fat_percentage: number | null }[];
+  lifts: LiftLogEntry[];
+  runs: RunLogEntry[];
+  lastWorkoutAt: string | null;
+}
+
+const RUN_HISTORY_PAGE_SIZE = 1000;
+
+export interface TargetProgress {
+  target: GoalTarget;
+  current: number | null;
+  percent: number | null;
+  achieved: boolean;
+}
+
+export interface GoalWithProgress extends FitnessGoalRow {
+  targets: TargetProgress[];
+  plans: Pick<WorkoutPlanRow, 'id' | 'goal_id' | 'name' | 'is_active' | 'created_at' | 'duration_weeks'>[];
+}
+
+// Targets that no longer parse (such as a retired kind) are skipped rather than
+// hiding the goal's other targets.
+export const parseGoalTargets = (specificTargets: Json): GoalTarget[] => {
+  const targets = (specificTargets as { targets?: unknown } | null)?.targets;
+  return (Array.isArray(targets) ? targets : []).flatMap(target => {
+    const result = GoalTargetSchema.safeParse(target);
+    return result.success ? [result.data] : [];
+  });
+};
+
+const isLowerBetter = (target: GoalTarget, goalType: FitnessGoalRow['goal_type']): boolean => {
+  if (target.kind === 'run_time') return true;
+  if (target.kind === 'lift_e1rm') return false;
+  if (target.start !== null && target.start !== target.target) return target.start > target.target;
+  return goalType === 'fat_loss';
+};
+
+const latestMetric = (history: GoalHistory, key: 'weight' | 'body_fat_percentage'): number | null => {
+  const values = history.metrics.filter(metric => metric[key] !== null);
+  return values.length ? Number(values[values.length - 1][key]) : null;
+};
+
+// A run at least as long as the target distance counts at its average pace,
+// so a 6 km run in 30 minutes is a 25 minute 5 km. Shorter runs never count.
+export const getRunTimeForDistance = (run: RunLogEntry, distanceKm: number): number | null =>
+  run.distanceKm >= distanceKm
+    ? Math.round((run.timeSeconds / 60) * (distanceKm / run.distanceKm) * 100) / 100
+    : null;
+
+// Lifts and runs only count once the goal exists; body metrics use the latest
+// measurement since that is the current state either way.
+export const getCurrentValue = (target: GoalTarget, history: GoalHistory, since: string): number | null => {
+  switch (target.kind) {
+    case 'body_weight':
+      return latestMetric(history, 'weight');
+    case 'body_fat':
+      return latestMetric(history, 'body_fat_percentage');
+    case 'lift_e1rm': {
+      const records = computeLiftRecords(
+        history.lifts.filter(entry => entry.liftKey === target.exercise_key && entry.completedAt >= since)
+      );
+      return records[0]?.bestE1rm.e1rm ?? null;
+    }
+    case 'run_time': {
+      const times = history.runs
+        .filter(run => run.exerciseKey === target.exercise_key && run.completedAt >= since)
+        .flatMap(run => getRunTimeForDistance(run, target.distance_km) ?? []);
+      return times.length ? Math.min(...times) : null;
+    }
+  }
+};
+
+export const computeTargetProgress = (
+  target: GoalTarget,
+  goalType: FitnessGoalRow['goal_type'],
+  history: GoalHistory,
+  since: string
+): TargetProgress => {
+  const current = getCurrentValue(target, history, since);
+  if (current === null) return { target, current, percent: null, achieved: false };
+
+  const achieved = isLowerBetter(target, goalType) ? current <= target.target : current >= target.target;
+  const percent = achieved
+    ? 100
+    : target.start !== null && target.start !== target.target
+      ? Math.round(Math.min(Math.max((target.start - current) / (target.start - target.target), 0), 1) * 100)
+      : null;
+
+  return { target, current, percent, achieved };
+};
+
+export const getNextGoalStatus = (
+  goal: Pick<FitnessGoalRow, 'status' | 'target_date' | 'created_at'>,
+  targets: TargetProgress[],
+  lastWorkoutAt: string | null,
+  today: string = getLocalDate()
+): GoalStatus => {
+  if (goal.status !== 'active') return goal.status;
+
+  if (targets.length && targets.every(progress => progress.achieved)) return 'completed';
+
+  const targetDate = goal.target_date.slice(0, 10);
+  const lastActive = lastWorkoutAt ? getLocalDate(new Date(lastWorkoutAt)) : goal.created_at.slice(0, 10);
+
+  // Goals without measurable targets are done once their date passes if the
+  // user was still training towards the end.
+  if (!targets.length && today > targetDate) {
+    return lastActive >= addDays(targetDate, -INACTIVITY_DAYS) ? 'completed' : 'abandoned';
+  }
+
+  if (today > addDays(targetDate, GOAL_GRACE_DAYS)) return 'abandoned';
+  if (today > addDays(lastActive, INACTIVITY_DAYS)) return 'abandoned';
+
+  return 'active';
+};
+
+// Cardio logs with both a distance and a time, paged like lift history.
+export async function fetchRunHistory(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<RunLogEntry[]> {
+  const runLogs = [];
+
+  for (let from = 0; ; from += RUN_HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('exercise_logs')
+      .select('id, distance_km, time_seconds, workout_logs!inner(user_id, completed_at), exercises(name, catalog_id)')
+      .eq('workout_logs.user_id', userId)
+      .not('distance_km', 'is', null)
+      .not('time_seconds', 'is', null)
+      .order('workout_logs(completed_at)')
+      .order('id')
+      .range(from, from + RUN_HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    runLogs.push(...(data ?? []));
+    if (!data || data.length < RUN_HISTORY_PAGE_SIZE) break;
+  }
+
+  return runLogs.flatMap(log => {
+    if (!log.exercises || log.distance_km === null || log.time_seconds === null) return [];
+    return [{
+      exerciseKey: getLiftKey(log.exercises),
+      exerciseName: log.exercises.name,
+      completedAt: log.workout_logs.completed_at,
+      distanceKm: Number(log.distance_km),
+      timeSeconds: log.time_seconds
+    }];
+  });
+}
+
+export async function fetchGoalHistory(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<GoalHistory> {
+  const [metricsResult, lastWorkoutResult, lifts, runs] = await Promise.all([
+    supabase
+      .from('progress_metrics')
+      .select('measurement_date, weight, body_fat_percentage')
+      .eq('user_id', userId)
+      .order('measurement_date'),
+    supabase
+      .from('workout_logs')
+      .select('completed_at')
+      .eq('user_id', userId)
+      .order('completed_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    fetchLiftHistory(supabase, userId),
+    fetchRunHistory(supabase, userId)
+  ]);
+
+  if (metricsResult.error) throw metricsResult.error;
+  if (lastWorkoutResult.error) throw lastWorkoutResult.error;
+
+  return {
+    metrics: metricsResult.data ?? [],
+    lifts,
+    runs,
+    lastWorkoutAt: lastWorkoutResult.data?.completed_at ?? null
+  };
+}
+
+// Recomputes progress for every goal and persists any status change. Used by
+// the goals page and the daily goal job.
+export async function syncGoals(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  today: string = getLocalDate(),
+  goalHistory?: GoalHistory
+): Promise<GoalWithProgress[]> {
+  const [goalsResult, plansResult, history] = await Promise.all([
+    supabase
+      .from('fitness_goals')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('workout_plans')
+      .select('id, goal_id, name, is_active, created_at, duration_weeks')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false }),
+    goalHistory ?? fetchGoalHistory(supabase, userId)
+  ]);
+
+  if (goalsResult.error) throw goalsResult.error;
+  if (plansResult.error) throw plansResult.error;
+
+  return Promise.all((goalsResult.data ?? []).map(async goal => {
+    const targets = parseGoalTargets(goal.specific_targets).map(target =>
+      computeTargetProgress(target, goal.goal_type, history, goal.created_at)
+    );
+    const status = getNextGoalStatus(goal, targets, history.lastWorkoutAt, today);
+    let updatedAt = goal.updated_at;
+
+    if (status !== goal.status) {
+      updatedAt = new Date().toISOString();
+      const { error } = await supabase
+        .from('fitness_goals')
+        .update({ status, updated_at: updatedAt })
+        .eq('id', goal.id)
+        .eq('status', 'active');
+
+      if (error) throw error;
+    }
+
+    return {
+      ...goal,
+      status,
+      updated_at: updatedAt,
+      targets,
+      plans: (plansResult.data ?? []).filter(plan => plan.goal_id === goal.id)
+    };
+  }));
+}
+
+// Users with active goals the daily job has not synced since `since`, least
+// recently synced first.
+export async function fetchUsersDueForGoalSync(
+  supabase: SupabaseClient<Database>,
+  since: string
+): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('fitness_goals')
+    .select('user_id')
+    .eq('status', 'active')
+    .or(`synced_at.is.null,synced_at.lt.${since}`)
+    .order('synced_at', { ascending: true, nullsFirst: true });
+
+  if (error) throw error;
+  return [...new Set((data ?? []).map(goal => goal.user_id))];
+}
+
+export async function markGoalsSynced(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  syncedAt: string = new Date().toISOString()
+): Promise<void> {
+  const { error } = await supabase
+    .from('fitness_goals')
+    .update({ synced_at: syncedAt })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function saveGoalTargets(
+  supabase: SupabaseClient<Database>,
+  goal: Pick<FitnessGoalRow, 'id' | 'specific_targets'>,
+  targets: GoalTarget[]
+): Promise<void> {
+  const { error } = await supabase
+    .from('fitness_goals')
+    .update({
+      specific_targets: { ...(goal.specific_targets as Record<string, Json> | null), targets } as Json,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', goal.id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { escapeText, foldLine, parseDurationMinutes } from '@/lib/icalendar';
+
+const octets = (value: string): number => new TextEncoder().encode(value).length;
+
+describe('escapeText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeText('Squat; Bench, Deadlift')).toBe('Squat\\; Bench\\, Deadlift');
+    expect(escapeText('C:\\plans')).toBe('C:\\\\plans');
+    expect(escapeText('Warm up\nLift\r\nCool down')).toBe('Warm up\\nLift\\nCool down');
+  });
+});
+
+describe('foldLine', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const line = `SUMMARY:${'x'.repeat(67)}`;
+    expect(foldLine(line)).toBe(line);
+  });
+
+  it('folds long lines into 75-octet chunks continued with a space', () => {
+    const line = `DESCRIPTION:${'a'.repeat(200)}`;
+    const parts = foldLine(line).split('\r\n');
+
+    // 212 octets: 75 on the first line, then 74 plus the leading space.
+    expect(parts.map(octets)).toEqual([75, 75, 64]);
+    expect(parts.slice(1).every(part => part.startsWith(' '))).toBe(true);
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(line);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `SUMMARY:${'é'.repeat(60)}`;
+    const parts = foldLine(line).split('\r\n');
+
+    expect(parts.every(part => octets(part) <= 75)).toBe(true);
+    expect(parts.map((part, i) => (i ? part.slice(1) : part)).join('')).toBe(line);
+  });
+});
+
+describe('parseDurationMinutes', () => {
+  it.each([
+    ['45 minutes', 45],
+    ['1h 30m', 90],
+    ['1.5 hours', 90],
+    ['1:15', 75],
+    ['2 hours', 120]
+  ])('parses %s as %i minutes', (duration, minutes) => {
+    expect(parseDurationMinutes(duration)).toBe(minutes);
+  });
+
+  it.each([[null], [''], ['about a month'], ['0:00']])('falls back to an hour for %s', duration => {
+    expect(parseDurationMinutes(duration)).toBe(60);
+  });
+});
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { formatPlanName } from '@/lib/utils';
+import { addDays, getDateWeekday } from '@/lib/schedule';
+import { getPlanDateRange } from '@/lib/planCalendar';
+
+type Tables = Database['public']['Tables'];
+
+export type FeedPlan = Tables['workout_plans']['Row'] & {
+  workouts: (Tables['workouts']['Row'] & { exercises: Tables['exercises']['Row'][] })[];
+};
+
+export interface CalendarFeed {
+  preferred_workout_time: string | null;
+  plan: FeedPlan | null;
+}
+
+interface FeedOptions {
+  calendarName?: string;
+  startTime?: string | null;
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//Athleto//Workout Plans//EN';
+const DEFAULT_START_TIME = '07:00';
+const DEFAULT_DURATION_MINUTES = 60;
+const MAX_LINE_OCTETS = 75;
+
+export const parseDurationMinutes = (duration: string | null | undefined): number => {
+  if (!duration) return DEFAULT_DURATION_MINUTES;
+
+  if (/^\d+:\d+/.test(duration.trim())) {
+    const [hours = '0', minutes = '0'] = duration.trim().split(':');
+    return parseInt(hours) * 60 + parseInt(minutes) || DEFAULT_DURATION_MINUTES;
+  }
+
+  const hours = duration.match(/(\d+(?:\.\d+)?)\s*h/i);
+  const minutes = duration.match(/(\d+)\s*m(?!o)/i);
+  const total = (hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseInt(minutes[1]) : 0);
+  return Math.round(total) || DEFAULT_DURATION_MINUTES;
+};
+
+export const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// RFC 5545 §3.1: lines longer than 75 octets are folded with CRLF + space.
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatDate = (date: string): string => date.replace(/-/g, '');
+
+const formatTimestamp = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const formatStartTime = (time: string | null | undefined): string => {
+  const match = (time || DEFAULT_START_TIME).match(/^(\d{1,2}):(\d{2})/);
+  const [hours, minutes] = match ? [match[1], match[2]] : DEFAULT_START_TIME.split(':');
+  return `${hours.padStart(2, '0')}${minutes}00`;
+};
+
+const describeWorkout = (workout: FeedPlan['workouts'][number]): string => {
+  const exercises = [...workout.exercises]
+    .sort((a, b) => a.order_in_workout - b.order_in_workout)
+    .map(exercise => `${exercise.order_in_workout}. ${exercise.name} - ${exercise.sets} x ${exercise.reps}`);
+
+  return [workout.description, exercises.length ? `Exercises:\n${exercises.join('\n')}` : null]
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+export function buildCalendarFeed(plan: FeedPlan | null, options: FeedOptions = {}): string {
+  const now = options.now ?? new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName ?? (plan ? formatPlanName(plan.name) : 'Athleto Workouts'))}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT12H',
+    'X-PUBLISHED-TTL:PT12H'
+  ];
+
+  if (plan) {
+    const { startDate } = getPlanDateRange(plan, 'UTC');
+    const startWeekday = getDateWeekday(startDate);
+    const startTime = formatStartTime(options.startTime);
+
+    for (const workout of plan.workouts) {
+      if (plan.rest_days?.includes(workout.day_of_week)) continue;
+
+      const firstDate = addDays(startDate, (workout.day_of_week - startWeekday + 7) % 7);
+      const description = describeWorkout(workout);
+
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${workout.id}@athleto`,
+        `DTSTAMP:${formatTimestamp(now)}`,
+        `DTSTART:${formatDate(firstDate)}T${startTime}`,
+        `DURATION:PT${parseDurationMinutes(workout.estimated_duration)}M`,
+        `RRULE:FREQ=WEEKLY;COUNT=${plan.duration_weeks}`,
+        `SUMMARY:${escapeText(formatPlanName(workout.name))}`,
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        `CATEGORIES:${escapeText(workout.workout_type)}`,
+        'END:VEVENT'
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export async function fetchCalendarFeed(
+  supabase: SupabaseClient<Database>,
+  token: string
+): Promise<CalendarFeed | null> {
+  const { data, error } = await supabase.rpc('get_calendar_feed', { p_token: token });
+  if (error) throw error;
+  return (data as CalendarFeed | null) ?? null;
+}
+
+export async function getCalendarFeedToken(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('calendar_feed_tokens')
+    .select('token')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.token ?? null;
+}
+
+export async function rotateCalendarFeedToken(supabase: SupabaseClient<Database>): Promise<string> {
+  const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+  if (error) throw error;
+  return data;
+}
+
+export async function revokeCalendarFeedToken(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('calendar_feed_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
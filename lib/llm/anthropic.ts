@@ -0,0 +1,40 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { CompletionRequest, LLMProvider, ProviderConfig } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-3-haiku-20240307';
+
+export function createAnthropicProvider(config: ProviderConfig): LLMProvider {
+  const client = new Anthropic({
+    apiKey: config.apiKey,
+    maxRetries: config.maxRetries,
+    timeout: config.timeoutMs
+  });
+
+  const toParams = (request: CompletionRequest) => ({
+    model: config.model,
+    max_tokens: request.maxTokens,
+    temperature: request.temperature,
+    system: request.system,
+    messages: request.messages
+  });
+
+  return {
+    name: 'anthropic',
+    model: config.model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const completion = await client.messages.create(toParams(request), { signal: request.signal });
+
+      const block = completion.content[0];
+      return block?.type === 'text' ? block.text : '';
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const stream = client.messages.stream(toParams(request), { signal: request.signal });
+
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,181 @@
+import { isEquipmentAvailable, type Exercise, type MuscleGroup, type PlanRequest, type Workout, type WorkoutPlan } from '@/lib/workoutPlan';
+import { normalizeExerciseName } from '@/lib/exerciseCatalog';
+import type { ExerciseAlternative, SubstitutionRequest } from '@/lib/exerciseSubstitution';
+import type { Adjustment, AdjustmentRequest } from '@/lib/planAdaptation';
+import type { CompletionRequest, GenerationTask, LLMProvider } from './types';
+
+type ExerciseTemplate = Pick<Exercise, 'name' | 'description' | 'secondary_muscles' | 'equipment_needed'>;
+
+const EXERCISE_TEMPLATES: Record<MuscleGroup, ExerciseTemplate> = {
+  chest: { name: 'Push Up', description: 'Lower your chest to the floor and press back up.', secondary_muscles: ['triceps', 'shoulders'], equipment_needed: ['none'] },
+  back: { name: 'Inverted Row', description: 'Pull your chest to a fixed bar while keeping your body straight.', secondary_muscles: ['biceps', 'lats'], equipment_needed: ['bar'] },
+  shoulders: { name: 'Pike Push Up', description: 'Press from a pike position to load the shoulders.', secondary_muscles: ['triceps'], equipment_needed: ['none'] },
+  biceps: { name: 'Dumbbell Curl', description: 'Curl the dumbbells without swinging the torso.', secondary_muscles: ['forearms'], equipment_needed: ['dumbbells'] },
+  triceps: { name: 'Bench Dip', description: 'Lower and press your body using a bench behind you.', secondary_muscles: ['chest', 'shoulders'], equipment_needed: ['bench'] },
+  forearms: { name: 'Farmer Carry', description: 'Walk with heavy weights held at your sides.', secondary_muscles: ['traps', 'core'], equipment_needed: ['dumbbells'] },
+  core: { name: 'Plank', description: 'Hold a straight line from head to heels.', secondary_muscles: ['shoulders'], equipment_needed: ['none'] },
+  quadriceps: { name: 'Goblet Squat', description: 'Squat to depth holding a weight at your chest.', secondary_muscles: ['glutes', 'core'], equipment_needed: ['dumbbells'] },
+  hamstrings: { name: 'Romanian Deadlift', description: 'Hinge at the hips with a soft knee bend.', secondary_muscles: ['glutes', 'lower_back'], equipment_needed: ['dumbbells'] },
+  calves: { name: 'Standing Calf Raise', description: 'Rise onto the balls of your feet and lower slowly.', secondary_muscles: [], equipment_needed: ['none'] },
+  glutes: { name: 'Glute Bridge', description: 'Drive your hips up while squeezing the glutes.', secondary_muscles: ['hamstrings', 'core'], equipment_needed: ['none'] },
+  traps: { name: 'Dumbbell Shrug', description: 'Shrug the shoulders straight up and pause.', secondary_muscles: ['forearms'], equipment_needed: ['dumbbells'] },
+  lats: { name: 'Pull Up', description: 'Pull your chin over the bar from a dead hang.', secondary_muscles: ['biceps', 'back'], equipment_needed: ['pull-up bar'] },
+  lower_back: { name: 'Superman Hold', description: 'Lift arms and legs off the floor while lying prone.', secondary_muscles: ['glutes'], equipment_needed: ['none'] }
+};
+
+const BODYWEIGHT_TEMPLATES: Partial<Record<MuscleGroup, ExerciseTemplate>> = {
+  back: { name: 'Prone Y Raise', description: 'Lying face down, raise your arms into a Y and squeeze the upper back.', secondary_muscles: ['traps', 'shoulders'], equipment_needed: ['none'] },
+  biceps: { name: 'Towel Curl', description: 'Curl against the resistance of a towel looped under your foot.', secondary_muscles: ['forearms'], equipment_needed: ['none'] },
+  triceps: { name: 'Diamond Push Up', description: 'Push up with your hands together under your chest.', secondary_muscles: ['chest', 'shoulders'], equipment_needed: ['none'] },
+  forearms: { name: 'Fingertip Plank', description: 'Hold a high plank supported on your fingertips.', secondary_muscles: ['core'], equipment_needed: ['none'] },
+  quadriceps: { name: 'Bodyweight Squat', description: 'Squat to depth with your arms in front for balance.', secondary_muscles: ['glutes', 'core'], equipment_needed: ['none'] },
+  hamstrings: { name: 'Single Leg Glute Bridge', description: 'Bridge on one leg, driving through the heel.', secondary_muscles: ['glutes', 'core'], equipment_needed: ['none'] },
+  traps: { name: 'Prone T Raise', description: 'Lying face down, raise your arms out to the sides and pinch the shoulder blades.', secondary_muscles: ['shoulders'], equipment_needed: ['none'] },
+  lats: { name: 'Floor Pulldown', description: 'Lying face down, pull your elbows to your ribs while lifting your chest.', secondary_muscles: ['biceps', 'back'], equipment_needed: ['none'] }
+};
+
+const selectTemplate = (muscle: MuscleGroup, availableEquipment: string[]): ExerciseTemplate => {
+  const template = EXERCISE_TEMPLATES[muscle];
+  const usable = template.equipment_needed.every(item => isEquipmentAvailable(item, availableEquipment));
+  return usable ? template : BODYWEIGHT_TEMPLATES[muscle] ?? template;
+};
+
+const FALLBACK_MUSCLES: MuscleGroup[] = ['chest', 'back', 'quadriceps', 'core'];
+const EXERCISES_PER_WORKOUT = 4;
+const STREAM_CHUNK_SIZE = 80;
+const STREAM_CHUNK_DELAY_MS = 15;
+
+const buildWorkout = (request: PlanRequest, dayOfWeek: number, index: number): Workout => {
+  const muscles = request.focusMuscles.length ? request.focusMuscles : FALLBACK_MUSCLES;
+  const exercises: Exercise[] = Array.from({ length: EXERCISES_PER_WORKOUT }, (_, i) => {
+    const muscle = muscles[(index + i) % muscles.length];
+    const template = selectTemplate(muscle, request.availableEquipment);
+    return {
+      ...template,
+      sets: 3,
+      reps: 10,
+      rest_duration: '60 seconds',
+      order_in_workout: i + 1,
+      primary_muscles: [muscle],
+      exercise_type: request.workoutType
+    };
+  });
+
+  return {
+    name: `Day ${index + 1} ${request.workoutType} session`,
+    description: `Deterministic ${request.workoutType} session targeting ${muscles.join(', ')}.`,
+    day_of_week: dayOfWeek,
+    estimated_duration: '45 minutes',
+    workout_type: request.workoutType,
+    exercises
+  };
+};
+
+export const buildFakePlan = (request: PlanRequest): WorkoutPlan => ({
+  description: `Offline ${request.durationWeeks}-week ${request.workoutType} plan for ${request.goalType}.`,
+  difficulty: request.athlete?.fitnessLevel ?? 'beginner',
+  restDays: request.restDays,
+  workouts: request.trainingDays.map((day, index) => buildWorkout(request, day, index))
+});
+
+export const buildFakeAlternatives = (request: SubstitutionRequest): { alternatives: ExerciseAlternative[] } => {
+  const taken = [request.exercise.name, ...request.workoutExercises].map(normalizeExerciseName);
+  const muscles = request.exercise.primary_muscles;
+  const candidates = [...muscles, ...request.exercise.secondary_muscles]
+    .flatMap(muscle => [EXERCISE_TEMPLATES[muscle], BODYWEIGHT_TEMPLATES[muscle]])
+    .filter((template): template is ExerciseTemplate => Boolean(template))
+    .filter(template => template.equipment_needed.every(item => isEquipmentAvailable(item, request.availableEquipment)))
+    .filter((template, index, all) => all.findIndex(t => t.name === template.name) === index)
+    .filter(template => !taken.includes(normalizeExerciseName(template.name)));
+
+  const alternatives = candidates.slice(0, request.count).map(template => ({
+    name: template.name,
+    description: template.description,
+    primary_muscles: muscles,
+    secondary_muscles: template.secondary_muscles.filter(muscle => !muscles.includes(muscle)),
+    equipment_needed: template.equipment_needed,
+    reason: `Deterministic swap that still trains ${muscles.join(', ')}.`
+  }));
+
+  return {
+    alternatives: alternatives.length ? alternatives : [{
+      name: `Tempo ${request.exercise.name}`,
+      description: `Perform ${request.exercise.name} with a slow three second lowering phase.`,
+      primary_muscles: muscles,
+      secondary_muscles: request.exercise.secondary_muscles,
+      equipment_needed: request.exercise.equipment_needed,
+      reason: 'Same movement with less load and more time under tension.'
+    }]
+  };
+};
+
+// Deload when sessions feel hard or recovery is poor, progress reps when
+// they feel easy, otherwise keep the plan as it is.
+export const buildFakeAdjustment = ({ feedback }: AdjustmentRequest): Adjustment => {
+  const lowMood = feedback.moods.tired + feedback.moods.exhausted;
+  const struggling = (feedback.averageDifficulty ?? 0) >= 4
+    || (feedback.averageRecovery !== null && feedback.averageRecovery <= 2)
+    || lowMood > feedback.sessions / 2;
+  const cruising = !struggling && feedback.sessions > 0 && (feedback.averageDifficulty ?? 5) <= 2;
+
+  if (struggling) {
+    return {
+      summary: 'Recent sessions felt hard and recovery is lagging, so next week drops a set to let you recover.',
+      changes: feedback.exercises
+        .filter(exercise => exercise.sets > 1)
+        .map(exercise => ({
+          exercise_id: exercise.exerciseId,
+          sets: exercise.sets - 1,
+          reps: exercise.reps,
+          weight: exercise.weight,
+          reason: 'One fewer set while you recover.'
+        }))
+    };
+  }
+
+  if (cruising) {
+    return {
+      summary: 'Sessions have felt easy, so next week adds reps where you are hitting your targets.',
+      changes: feedback.exercises
+        .filter(exercise => exercise.sessions > 0 && (exercise.averageRepsCompleted ?? 0) >= exercise.reps)
+        .map(exercise => ({
+          exercise_id: exercise.exerciseId,
+          sets: exercise.sets,
+          reps: exercise.reps + 2,
+          weight: exercise.weight,
+          reason: 'You completed every rep, so add two more.'
+        }))
+    };
+  }
+
+  return { summary: 'Your training and recovery look balanced, so next week stays the same.', changes: [] };
+};
+
+const respond = (task: GenerationTask): unknown => {
+  switch (task.kind) {
+    case 'workout_plan':
+      return buildFakePlan(task.request);
+    case 'exercise_substitution':
+      return buildFakeAlternatives(task.request);
+    case 'plan_adjustment':
+      return buildFakeAdjustment(task.request);
+  }
+};
+
+export function createFakeProvider(): LLMProvider {
+  return {
+    name: 'fake',
+    model: 'fake-deterministic',
+    async complete(request: CompletionRequest): Promise<string> {
+      return JSON.stringify(respond(request.task), null, 2);
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const content = JSON.stringify(respond(request.task), null, 2);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        if (request.signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        yield content.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    }
+  };
+}
@@ -0,0 +1,56 @@
+import { createAnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from './anthropic';
+import { createOpenAIProvider, DEFAULT_OPENAI_MODEL } from './openai';
+import { createGroqProvider, DEFAULT_GROQ_MODEL } from './groq';
+import { createFakeProvider } from './fake';
+import { LLM_PROVIDERS, type LLMProvider, type ProviderName } from './types';
+
+export * from './types';
+
+interface ProviderOptions {
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+const isProviderName = (value: string): value is ProviderName =>
+  (LLM_PROVIDERS as readonly string[]).includes(value);
+
+const requireKey = (name: string, value: string | undefined): string => {
+  if (!value) throw new Error(`Missing env vars: ${name}`);
+  return value;
+};
+
+export function createLLMProvider(
+  env: NodeJS.ProcessEnv = process.env,
+  { timeoutMs = 25000, maxRetries = 2 }: ProviderOptions = {}
+): LLMProvider {
+  const providerName = (env.LLM_PROVIDER || 'anthropic').toLowerCase();
+  if (!isProviderName(providerName)) {
+    throw new Error(`Unknown LLM_PROVIDER "${providerName}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  switch (providerName) {
+    case 'anthropic':
+      return createAnthropicProvider({
+        apiKey: requireKey('ANTHROPIC_API_KEY', env.ANTHROPIC_API_KEY),
+        model: env.LLM_MODEL || DEFAULT_ANTHROPIC_MODEL,
+        timeoutMs,
+        maxRetries
+      });
+    case 'openai':
+      return createOpenAIProvider({
+        apiKey: requireKey('OPENAI_API_KEY', env.OPENAI_API_KEY),
+        model: env.LLM_MODEL || DEFAULT_OPENAI_MODEL,
+        timeoutMs,
+        maxRetries
+      });
+    case 'groq':
+      return createGroqProvider({
+        apiKey: requireKey('GROQ_API_KEY', env.GROQ_API_KEY),
+        model: env.LLM_MODEL || DEFAULT_GROQ_MODEL,
+        timeoutMs,
+        maxRetries
+      });
+    case 'fake':
+      return createFakeProvider();
+  }
+}
@@ -0,0 +1,44 @@
+import OpenAI from 'openai';
+import type { CompletionRequest, LLMProvider, ProviderConfig } from './types';
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+export function createOpenAIProvider(config: ProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    maxRetries: config.maxRetries,
+    timeout: config.timeoutMs
+  });
+
+  const toParams = (request: CompletionRequest) => ({
+    model: config.model,
+    max_completion_tokens: request.maxTokens,
+    temperature: request.temperature,
+    response_format: { type: 'json_object' as const },
+    messages: [
+      { role: 'system' as const, content: request.system },
+      ...request.messages
+    ]
+  });
+
+  return {
+    name: 'openai',
+    model: config.model,
+    async complete(request: CompletionRequest): Promise<string> {
+      const completion = await client.chat.completions.create(toParams(request), { signal: request.signal });
+
+      return completion.choices[0]?.message?.content ?? '';
+    },
+    async *stream(request: CompletionRequest): AsyncIterable<string> {
+      const stream = await client.chat.completions.create(
+        { ...toParams(request), stream: true },
+        { signal: request.signal }
+      );
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  };
+}
@@ -0,0 +1,194 @@
+import {
+  VALID_DIFFICULTIES,
+  VALID_MUSCLE_GROUPS,
+  VALID_WORKOUT_TYPES,
+  type PlanRequest
+} from '@/lib/workoutPlan';
+import type { SubstitutionRequest } from '@/lib/exerciseSubstitution';
+import type { AdjustmentRequest } from '@/lib/planAdaptation';
+import { getWeekdayName } from '@/lib/schedule';
+import type { CompletionRequest } from './types';
+
+const describeAthlete = (request: Pick<PlanRequest, 'athlete' | 'availableEquipment'>): string => {
+  const athlete = request.athlete;
+  const equipment = request.availableEquipment.length
+    ? `${request.availableEquipment.join(',')} (bodyweight exercises are always allowed)`
+    : 'None - bodyweight exercises only';
+  const lines = [`- Equipment: ${equipment}`];
+
+  if (athlete?.fitnessLevel) lines.push(`- Level: ${athlete.fitnessLevel}`);
+  if (athlete?.age) lines.push(`- Age: ${athlete.age}`);
+  if (athlete?.medicalConditions.length) {
+    lines.push(`- Medical conditions: ${athlete.medicalConditions.join(',')} (avoid exercises that aggravate them)`);
+  }
+  if (athlete?.preferredWorkoutTime) lines.push(`- Preferred time: ${athlete.preferredWorkoutTime}`);
+
+  return lines.join('\n');
+};
+
+export const buildPlanCompletion = (request: PlanRequest): CompletionRequest => ({
+  maxTokens: 4000,
+  temperature: 0.7,
+  task: { kind: 'workout_plan', request },
+  system: `You are a fitness trainer. Generate a valid JSON workout plan. Follow these rules exactly:
+1. Use proper JSON syntax with double quotes for all keys and string values
+2. No trailing commas
+3. Arrays must be properly terminated
+4. All strings must be properly quoted
+5. Numbers should not be quoted
+6. Every item in "equipment_needed" must come from the available equipment list, or be "none" for bodyweight exercises
+7. "day_of_week" and "restDays" use ISO weekdays: 1 = Monday through 7 = Sunday. Never schedule a workout on a rest day
+
+The structure must be exactly:
+{
+  "description": "string value",
+  "difficulty": "${VALID_DIFFICULTIES.join('" | "')}",
+  "restDays": [${request.restDays.join(', ')}],
+  "workouts": [
+    {
+      "name": "string value",
+      "description": "string value",
+      "day_of_week": 1,
+      "estimated_duration": "30 minutes",
+      "workout_type": "${VALID_WORKOUT_TYPES.join('" | "')}",
+      "exercises": [
+        {
+          "name": "string value",
+          "description": "string value",
+          "sets": 3,
+          "reps": 12,
+          "rest_duration": "60 seconds",
+          "order_in_workout": 1,
+          "primary_muscles": ["${VALID_MUSCLE_GROUPS.join('", "')}", "..."],
+          "secondary_muscles": ["${VALID_MUSCLE_GROUPS.join('", "')}", "..."],
+          "equipment_needed": ["string value"],
+          "exercise_type": "${VALID_WORKOUT_TYPES.join('" | "')}"
+        }
+      ]
+    }
+  ]
+}`,
+  messages: [{
+    role: 'user',
+    content: `Create workout plan:
+- Duration: ${request.durationWeeks}w
+- Type: ${request.workoutType}
+- Muscles: ${request.focusMuscles.join(',')}
+- Days/week: ${request.daysPerWeek}
+- Training days: ${request.trainingDays.map(day => `${day} (${getWeekdayName(day)})`).join(',')} - one workout on each, no other days
+- Rest: ${request.restDays.join(',')}
+- Goal: ${request.goalType}
+${describeAthlete(request)}
+- Notes: ${request.additionalNotes || 'None'}
+Return ONLY JSON.`
+  }]
+});
+
+export const buildSubstitutionCompletion = (request: SubstitutionRequest): CompletionRequest => ({
+  maxTokens: 1500,
+  temperature: 0.7,
+  task: { kind: 'exercise_substitution', request },
+  system: `You are a fitness trainer. Suggest replacement exercises as valid JSON. Follow these rules exactly:
+1. Use proper JSON syntax with double quotes for all keys and string values
+2. No trailing commas
+3. Every alternative must train all of the original exercise's primary muscles and list them in "primary_muscles"
+4. Every item in "equipment_needed" must come from the available equipment list, or be "none" for bodyweight exercises
+5. Do not suggest the original exercise or any exercise already in the workout
+6. "reason" is one short sentence on why it is a good swap
+
+The structure must be exactly:
+{
+  "alternatives": [
+    {
+      "name": "string value",
+      "description": "string value",
+      "primary_muscles": ["${VALID_MUSCLE_GROUPS.join('", "')}", "..."],
+      "secondary_muscles": ["${VALID_MUSCLE_GROUPS.join('", "')}", "..."],
+      "equipment_needed": ["string value"],
+      "reason": "string value"
+    }
+  ]
+}`,
+  messages: [{
+    role: 'user',
+    content: `Suggest ${request.count} alternatives for:
+- Exercise: ${request.exercise.name} (${request.exercise.sets}x${request.exercise.reps}, ${request.exercise.exercise_type})
+- Primary muscles: ${request.exercise.primary_muscles.join(',')}
+- Secondary muscles: ${request.exercise.secondary_muscles.join(',') || 'None'}
+- Already in workout: ${request.workoutExercises.join(',') || 'None'}
+${describeAthlete(request)}
+- Reason for swap: ${request.reason || 'None'}
+Return ONLY JSON.`
+  }]
+});
+
+const describeFeedback = ({ feedback }: AdjustmentRequest): string => {
+  const moods = Object.entries(feedback.moods)
+    .filter(([, count]) => count > 0)
+    .map(([mood, count]) => `${mood} x${count}`)
+    .join(',');
+
+  return [
+    `- Sessions logged: ${feedback.sessions} of ${feedback.plannedSessions} planned`,
+    `- Average difficulty (1-5): ${feedback.averageDifficulty ?? 'not rated'}`,
+    `- Moods: ${moods || 'not logged'}`,
+    `- Rest days followed: ${feedback.restDaysFollowed} of ${feedback.restDaysLogged} logged`,
+    `- Average recovery (1-5): ${feedback.averageRecovery ?? 'not rated'}`
+  ].join('\n');
+};
+
+const describePerformance = ({ feedback }: AdjustmentRequest): string =>
+  feedback.exercises.map(exercise => {
+    const target = `${exercise.sets}x${exercise.reps}${exercise.weight !== null ? ` @ ${exercise.weight}kg` : ''}`;
+    const done = exercise.sessions
+      ? `${exercise.sessions} sessions, avg ${exercise.averageSetsCompleted}x${exercise.averageRepsCompleted}${exercise.topWeightUsed !== null ? `, top ${exercise.topWeightUsed}kg` : ''}`
+      : 'not logged';
+    return `- ${exercise.exerciseId}: ${exercise.name}, target ${target}, done ${done}`;
+  }).join('\n');
+
+export const buildAdjustmentCompletion = (request: AdjustmentRequest): CompletionRequest => ({
+  maxTokens: 2000,
+  temperature: 0.4,
+  task: { kind: 'plan_adjustment', request },
+  system: `You are a fitness coach adjusting next week's training from the athlete's logs. Return valid JSON. Follow these rules exactly:
+1. Use proper JSON syntax with double quotes for all keys and string values
+2. No trailing commas
+3. Only list exercises that should change, using their exact "exercise_id"
+4. Change sets by at most 2, reps by at most 4 and weight by at most 10%. Use null weight for exercises without a target weight
+5. Reduce volume or intensity when sessions feel hard, mood is low or recovery is poor; progress when sessions feel easy and targets are met
+6. "summary" is two sentences at most explaining the overall adjustment to the athlete; "reason" is one short sentence per change
+
+The structure must be exactly:
+{
+  "summary": "string value",
+  "changes": [
+    {
+      "exercise_id": "string value",
+      "sets": 3,
+      "reps": 10,
+      "weight": 60,
+      "reason": "string value"
+    }
+  ]
+}`,
+  messages: [{
+    role: 'user',
+    content: `Adjust week ${request.week} of ${request.durationWeeks} of "${request.planName}".
+Since ${request.feedback.since.slice(0, 10)}:
+${describeFeedback(request)}
+Exercises:
+${describePerformance(request)}
+Return ONLY JSON.`
+  }]
+});
+
+export const cleanJsonContent = (content: string): string => content
+  .replace(/```json\n?|\n?```/g, '')
+  .replace(/[\u201C\u201D]/g, '"')
+  .replace(/,(\s*[}\]])/g, '$1')
+  .trim();
+
+export const buildRepairMessage = (issues: string[], subject: string = 'workout plan'): string =>
+  `The ${subject} you returned failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
+Fix every listed field and return the complete corrected ${subject}. Return ONLY JSON.`;
@@ -0,0 +1,40 @@
+import type { PlanRequest } from '@/lib/workoutPlan';
+import type { SubstitutionRequest } from '@/lib/exerciseSubstitution';
+import type { AdjustmentRequest } from '@/lib/planAdaptation';
+
+export const LLM_PROVIDERS = ['anthropic', 'openai', 'groq', 'fake'] as const;
+
+export type ProviderName = typeof LLM_PROVIDERS[number];
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export type GenerationTask =
+  | { kind: 'workout_plan'; request: PlanRequest }
+  | { kind: 'exercise_substitution'; request: SubstitutionRequest }
+  | { kind: 'plan_adjustment'; request: AdjustmentRequest };
+
+export interface CompletionRequest {
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  task: GenerationTask;
+  signal?: AbortSignal;
+}
+
+export interface ProviderConfig {
+  apiKey: string;
+  model: string;
+  timeoutMs: number;
+  maxRetries: number;
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  complete(request: CompletionRequest): Promise<string>;
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
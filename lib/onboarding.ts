@@ -0,0 +1,136 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import type { GoalType, MuscleGroup, WorkoutType } from '@/lib/workoutPlan';
+
+type OnboardingProgress = Database['public']['Tables']['onboarding_progress']['Row'];
+
+export type OnboardingStep = OnboardingProgress['current_step'];
+
+export const ONBOARDING_STEPS: OnboardingStep[] = [
+  'welcome',
+  'personal_info',
+  'fitness_assessment',
+  'goal_setting',
+  'equipment_check',
+  'schedule_setup',
+  'tutorial_complete'
+];
+
+export interface PlanPreferences {
+  goalType: GoalType | '';
+  workoutType: WorkoutType | '';
+  focusMuscles: MuscleGroup[];
+  durationWeeks: number;
+  daysPerWeek: number;
+}
+
+export const DEFAULT_PLAN_PREFERENCES: PlanPreferences = {
+  goalType: '',
+  workoutType: '',
+  focusMuscles: [],
+  durationWeeks: 4,
+  daysPerWeek: 3
+};
+
+export interface OnboardingState {
+  currentStep: OnboardingStep;
+  completedSteps: OnboardingStep[];
+  planPreferences: PlanPreferences;
+}
+
+export const getNextStep = (step: OnboardingStep): OnboardingStep =>
+  ONBOARDING_STEPS[Math.min(ONBOARDING_STEPS.indexOf(step) + 1, ONBOARDING_STEPS.length - 1)];
+
+export const getPreviousStep = (step: OnboardingStep): OnboardingStep =>
+  ONBOARDING_STEPS[Math.max(ONBOARDING_STEPS.indexOf(step) - 1, 0)];
+
+const toPlanPreferences = (value: Json): PlanPreferences => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_PLAN_PREFERENCES;
+  return { ...DEFAULT_PLAN_PREFERENCES, ...(value as Partial<PlanPreferences>) };
+};
+
+const toState = (row: OnboardingProgress): OnboardingState => ({
+  currentStep: row.current_step,
+  completedSteps: row.completed_steps.filter((step): step is OnboardingStep =>
+    ONBOARDING_STEPS.includes(step as OnboardingStep)
+  ),
+  planPreferences: toPlanPreferences(row.plan_preferences)
+});
+
+export async function loadOnboardingState(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<OnboardingState> {
+  const { data, error } = await supabase
+    .from('onboarding_progress')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return toState(data);
+
+  const { data: created, error: insertError } = await supabase
+    .from('onboarding_progress')
+    .insert({ user_id: userId, current_step: 'welcome', completed_steps: [] })
+    .select('*')
+    .single();
+
+  if (insertError) throw insertError;
+  return toState(created);
+}
+
+export async function saveOnboardingStep(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  state: OnboardingState,
+  step: OnboardingStep,
+  planPreferences: PlanPreferences = state.planPreferences
+): Promise<OnboardingState> {
+  const next: OnboardingState = {
+    currentStep: getNextStep(step),
+    completedSteps: state.completedSteps.includes(step) ? state.completedSteps : [...state.completedSteps, step],
+    planPreferences
+  };
+
+  const { error } = await supabase
+    .from('onboarding_progress')
+    .update({
+      current_step: next.currentStep,
+      completed_steps: next.completedSteps,
+      plan_preferences: { ...next.planPreferences },
+      last_interaction: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return next;
+}
+
+export async function completeOnboarding(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  state: OnboardingState
+): Promise<void> {
+  const completedSteps = state.completedSteps.includes('tutorial_complete')
+    ? state.completedSteps
+    : [...state.completedSteps, 'tutorial_complete'];
+
+  const { error: progressError } = await supabase
+    .from('onboarding_progress')
+    .update({
+      current_step: 'tutorial_complete',
+      completed_steps: completedSteps,
+      last_interaction: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (progressError) throw progressError;
+
+  const { error: profileError } = await supabase
+    .from('profiles')
+    .update({ has_completed_onboarding: true, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (profileError) throw profileError;
+}
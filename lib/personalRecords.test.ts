@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeLiftRecords,
+  detectNewRecords,
+  estimateOneRepMax,
+  formatRecord,
+  getLiftKey,
+  type LiftLogEntry
+} from '@/lib/personalRecords';
+
+const entry = (
+  workoutLogId: string,
+  completedAt: string,
+  weight: number,
+  reps: number,
+  liftKey = 'bench'
+): LiftLogEntry => ({
+  liftKey,
+  exerciseName: 'Barbell Bench Press',
+  workoutLogId,
+  completedAt,
+  sets: 3,
+  reps,
+  weight
+});
+
+describe('estimateOneRepMax', () => {
+  it('returns the weight itself for singles', () => {
+    expect(estimateOneRepMax(100, 1)).toBe(100);
+    expect(estimateOneRepMax(100, 0, 'brzycki')).toBe(100);
+  });
+
+  it('applies the Epley and Brzycki formulas', () => {
+    expect(estimateOneRepMax(100, 5)).toBeCloseTo(116.67, 2);
+    expect(estimateOneRepMax(100, 5, 'brzycki')).toBeCloseTo(112.5, 2);
+  });
+
+  it('caps Brzycki reps so high-rep sets stay finite', () => {
+    expect(Number.isFinite(estimateOneRepMax(20, 50, 'brzycki'))).toBe(true);
+  });
+});
+
+describe('getLiftKey', () => {
+  it('groups by catalog entry when linked', () => {
+    expect(getLiftKey({ catalog_id: 'cat-1', name: 'Flat Bench' })).toBe('cat-1');
+  });
+
+  it('falls back to the normalized name', () => {
+    expect(getLiftKey({ catalog_id: null, name: 'DB Curls' })).toBe('name:dumbbell curl');
+  });
+});
+
+describe('computeLiftRecords', () => {
+  const history = [
+    entry('a', '2026-10-01T10:00:00Z', 80, 5),
+    entry('a', '2026-10-01T10:00:00Z', 85, 3),
+    entry('b', '2026-10-08T10:00:00Z', 85, 5),
+    entry('c', '2026-10-08T11:00:00Z', 100, 5, 'squat')
+  ];
+
+  it('tracks heaviest weight, best e1RM and reps at each weight per lift', () => {
+    const [squat, bench] = computeLiftRecords(history);
+
+    expect(squat.liftKey).toBe('squat');
+    expect(bench.bestWeight).toMatchObject({ weight: 85, reps: 5 });
+    expect(bench.bestE1rm).toMatchObject({ weight: 85, reps: 5, e1rm: 99.2 });
+    expect(bench.repsAtWeight['85'].reps).toBe(5);
+    expect(bench.repsAtWeight['80'].reps).toBe(5);
+  });
+
+  it('keeps one e1RM point per session', () => {
+    const bench = computeLiftRecords(history).find(records => records.liftKey === 'bench');
+    expect(bench?.sessions).toBe(2);
+    expect(bench?.e1rmHistory.map(point => point.e1rm)).toEqual([93.5, 99.2]);
+  });
+
+  it('ignores entries without weight or reps', () => {
+    expect(computeLiftRecords([entry('a', '2026-10-01T10:00:00Z', 0, 5)])).toEqual([]);
+  });
+});
+
+describe('detectNewRecords', () => {
+  const history = [entry('a', '2026-10-01T10:00:00Z', 80, 5)];
+
+  it('reports each kind of record the session beat', () => {
+    const records = detectNewRecords(history, [entry('b', '2026-10-08T10:00:00Z', 85, 5)]);
+    expect(records.map(record => record.type)).toEqual(['weight', 'e1rm']);
+    expect(records[0].previous?.weight).toBe(80);
+  });
+
+  it('reports more reps at a weight already lifted', () => {
+    const records = detectNewRecords(history, [entry('b', '2026-10-08T10:00:00Z', 80, 7)]);
+    expect(records.map(record => record.type)).toEqual(['e1rm', 'reps_at_weight']);
+  });
+
+  it('does not celebrate the first session of a lift', () => {
+    expect(detectNewRecords([], [entry('a', '2026-10-01T10:00:00Z', 80, 5)])).toEqual([]);
+  });
+});
+
+describe('formatRecord', () => {
+  it('formats the record in the user’s units', () => {
+    const [record] = detectNewRecords(
+      [entry('a', '2026-10-01T10:00:00Z', 80, 5)],
+      [entry('b', '2026-10-08T10:00:00Z', 100, 1)]
+    );
+    expect(formatRecord(record)).toBe('Barbell Bench Press: heaviest weight 100 kg × 1');
+    expect(formatRecord(record, 'imperial')).toBe('Barbell Bench Press: heaviest weight 220.5 lb × 1');
+  });
+});
@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { normalizeExerciseName } from '@/lib/exerciseCatalog';
+import { DEFAULT_UNIT_SYSTEM, formatWeight, type UnitSystem } from '@/lib/units';
+
+export type OneRepMaxFormula = 'epley' | 'brzycki';
+
+export type RecordType = 'weight' | 'reps_at_weight' | 'e1rm';
+
+export interface LiftLogEntry {
+  liftKey: string;
+  exerciseName: string;
+  workoutLogId: string;
+  completedAt: string;
+  sets: number;
+  reps: number;
+  weight: number;
+}
+
+export interface RecordValue {
+  weight: number;
+  reps: number;
+  e1rm: number;
+  completedAt: string;
+}
+
+export interface LiftRecords {
+  liftKey: string;
+  exerciseName: string;
+  bestWeight: RecordValue;
+  bestE1rm: RecordValue;
+  repsAtWeight: Record<string, RecordValue>;
+  e1rmHistory: { completedAt: string; e1rm: number }[];
+  sessions: number;
+}
+
+export interface NewRecord {
+  liftKey: string;
+  exerciseName: string;
+  type: RecordType;
+  value: RecordValue;
+  previous: RecordValue | null;
+}
+
+const BRZYCKI_MAX_REPS = 36;
+const LIFT_HISTORY_PAGE_SIZE = 1000;
+
+export const estimateOneRepMax = (
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula = 'epley'
+): number => {
+  if (reps <= 1) return weight;
+  if (formula === 'brzycki') {
+    return weight * (BRZYCKI_MAX_REPS / (BRZYCKI_MAX_REPS + 1 - Math.min(reps, BRZYCKI_MAX_REPS)));
+  }
+  return weight * (1 + reps / 30);
+};
+
+export const getLiftKey = (exercise: { catalog_id: string | null; name: string }): string =>
+  exercise.catalog_id ?? `name:${normalizeExerciseName(exercise.name)}`;
+
+const toRecordValue = (entry: LiftLogEntry, formula: OneRepMaxFormula): RecordValue => ({
+  weight: entry.weight,
+  reps: entry.reps,
+  e1rm: Math.round(estimateOneRepMax(entry.weight, entry.reps, formula) * 10) / 10,
+  completedAt: entry.completedAt
+});
+
+export function computeLiftRecords(
+  entries: LiftLogEntry[],
+  formula: OneRepMaxFormula = 'epley'
+): LiftRecords[] {
+  const byLift = new Map<string, LiftLogEntry[]>();
+  for (const entry of entries) {
+    if (entry.weight <= 0 || entry.reps <= 0) continue;
+    byLift.set(entry.liftKey, [...(byLift.get(entry.liftKey) ?? []), entry]);
+  }
+
+  return [...byLift.values()].map(liftEntries => {
+    const sorted = [...liftEntries].sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+    const values = sorted.map(entry => toRecordValue(entry, formula));
+
+    const bestWeight = values.reduce((best, value) =>
+      value.weight > best.weight || (value.weight === best.weight && value.reps > best.reps) ? value : best
+    );
+    const bestE1rm = values.reduce((best, value) => (value.e1rm > best.e1rm ? value : best));
+
+    const repsAtWeight: Record<string, RecordValue> = {};
+    for (const value of values) {
+      const current = repsAtWeight[value.weight];
+      if (!current || value.reps > current.reps) repsAtWeight[value.weight] = value;
+    }
+
+    const sessionBests = new Map<string, { completedAt: string; e1rm: number }>();
+    sorted.forEach((entry, index) => {
+      const current = sessionBests.get(entry.workoutLogId);
+      if (!current || values[index].e1rm > current.e1rm) {
+        sessionBests.set(entry.workoutLogId, { completedAt: entry.completedAt, e1rm: values[index].e1rm });
+      }
+    });
+
+    return {
+      liftKey: sorted[0].liftKey,
+      exerciseName: sorted[sorted.length - 1].exerciseName,
+      bestWeight,
+      bestE1rm,
+      repsAtWeight,
+      e1rmHistory: [...sessionBests.values()],
+      sessions: sessionBests.size
+    };
+  }).sort((a, b) => b.bestE1rm.e1rm - a.bestE1rm.e1rm);
+}
+
+export function detectNewRecords(
+  history: LiftLogEntry[],
+  sessionEntries: LiftLogEntry[],
+  formula: OneRepMaxFormula = 'epley'
+): NewRecord[] {
+  const previousRecords = new Map(computeLiftRecords(history, formula).map(records => [records.liftKey, records]));
+  const newRecords: NewRecord[] = [];
+
+  for (const sessionRecords of computeLiftRecords(sessionEntries, formula)) {
+    const previous = previousRecords.get(sessionRecords.liftKey);
+    if (!previous) continue;
+
+    const base = { liftKey: sessionRecords.liftKey, exerciseName: sessionRecords.exerciseName };
+
+    if (sessionRecords.bestWeight.weight > previous.bestWeight.weight) {
+      newRecords.push({ ...base, type: 'weight', value: sessionRecords.bestWeight, previous: previous.bestWeight });
+    }
+
+    if (sessionRecords.bestE1rm.e1rm > previous.bestE1rm.e1rm) {
+      newRecords.push({ ...base, type: 'e1rm', value: sessionRecords.bestE1rm, previous: previous.bestE1rm });
+    }
+
+    for (const [weight, value] of Object.entries(sessionRecords.repsAtWeight)) {
+      const previousAtWeight = previous.repsAtWeight[weight];
+      if (previousAtWeight && value.reps > previousAtWeight.reps) {
+        newRecords.push({ ...base, type: 'reps_at_weight', value, previous: previousAtWeight });
+      }
+    }
+  }
+
+  return newRecords;
+}
+
+export const formatRecord = (record: NewRecord, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  switch (record.type) {
+    case 'weight':
+      return `${record.exerciseName}: heaviest weight ${formatWeight(record.value.weight, unitSystem)} × ${record.value.reps}`;
+    case 'e1rm':
+      return `${record.exerciseName}: estimated 1RM ${formatWeight(record.value.e1rm, unitSystem)}`;
+    case 'reps_at_weight':
+      return `${record.exerciseName}: ${record.value.reps} reps at ${formatWeight(record.value.weight, unitSystem)}`;
+  }
+};
+
+// Filters through the workout_logs join instead of an id list, which would
+// outgrow the request URL for long-time users.
+export async function fetchLiftHistory(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<LiftLogEntry[]> {
+  const exerciseLogs = [];
+
+  // PostgREST caps each response, so page through the history in a stable
+  // order instead of silently dropping everything past the first page.
+  for (let from = 0; ; from += LIFT_HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('exercise_logs')
+      .select('id, workout_log_id, sets_completed, reps_completed, weight_used, workout_logs!inner(user_id, completed_at), exercises(name, catalog_id)')
+      .eq('workout_logs.user_id', userId)
+      .not('weight_used', 'is', null)
+      .order('workout_logs(completed_at)')
+      .order('id')
+      .range(from, from + LIFT_HISTORY_PAGE_SIZE - 1);
+
+    if (error) throw error;
+    exerciseLogs.push(...(data ?? []));
+    if (!data || data.length < LIFT_HISTORY_PAGE_SIZE) break;
+  }
+
+  return exerciseLogs.flatMap(log => {
+    if (!log.exercises || log.weight_used === null) return [];
+    return [{
+      liftKey: getLiftKey(log.exercises),
+      exerciseName: log.exercises.name,
+      workoutLogId: log.workout_log_id,
+      completedAt: log.workout_logs.completed_at,
+      sets: log.sets_completed,
+      reps: log.reps_completed,
+      weight: log.weight_used
+    }];
+  });
+}
+
+export async function findSessionRecords(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workoutLogId: string
+): Promise<NewRecord[]> {
+  const history = await fetchLiftHistory(supabase, userId);
+  return detectNewRecords(
+    history.filter(entry => entry.workoutLogId !== workoutLogId),
+    history.filter(entry => entry.workoutLogId === workoutLogId)
+  );
+}
@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildChangelog,
+  findAdjustmentIssues,
+  getAdjustmentWeek,
+  parseAdjustment,
+  summarizeFeedback,
+  toExerciseChanges,
+  type Adjustment,
+  type ExercisePerformance
+} from '@/lib/planAdaptation';
+import { PlanValidationError } from '@/lib/workoutPlan';
+
+const performance = (exerciseId: string, name: string, sets: number, reps: number, weight: number | null): ExercisePerformance => ({
+  exerciseId,
+  name,
+  sets,
+  reps,
+  weight,
+  sessions: 2,
+  averageSetsCompleted: sets,
+  averageRepsCompleted: reps,
+  topWeightUsed: weight
+});
+
+const exercises = [
+  performance('squat', 'back squat', 3, 5, 100),
+  performance('pull-up', 'pull up', 3, 8, null)
+];
+
+const change = (exerciseId: string, sets: number, reps: number, weight: number | null): Adjustment['changes'][number] => ({
+  exercise_id: exerciseId,
+  sets,
+  reps,
+  weight,
+  reason: 'Sessions felt easy'
+});
+
+describe('findAdjustmentIssues', () => {
+  it('accepts changes within the set, rep and weight bounds', () => {
+    const adjustment = { summary: 'Progress', changes: [change('squat', 5, 9, 110), change('pull-up', 1, 4, null)] };
+    expect(findAdjustmentIssues(adjustment, exercises)).toEqual([]);
+  });
+
+  it('reports each bound a change exceeds', () => {
+    const adjustment = { summary: 'Too much', changes: [change('squat', 6, 10, 111)] };
+    expect(findAdjustmentIssues(adjustment, exercises)).toEqual([
+      'changes[0].sets: change back squat by at most 2 sets (currently 3)',
+      'changes[0].reps: change back squat by at most 4 reps (currently 5)',
+      'changes[0].weight: change back squat by at most 10% (currently 100 kg)'
+    ]);
+  });
+
+  it('rejects unknown and repeated exercises', () => {
+    const adjustment = { summary: 'Mixed', changes: [change('bench', 3, 5, 60), change('squat', 3, 5, 100), change('squat', 4, 5, 100)] };
+    expect(findAdjustmentIssues(adjustment, exercises)).toEqual([
+      'changes[0].exercise_id: "bench" is not an exercise in this plan',
+      'changes[2].exercise_id: back squat is changed more than once'
+    ]);
+  });
+});
+
+describe('parseAdjustment', () => {
+  const parseIssues = (content: string): string[] => {
+    try {
+      parseAdjustment(content, exercises);
+      return [];
+    } catch (error) {
+      return error instanceof PlanValidationError ? error.issues : ['unexpected error'];
+    }
+  };
+
+  it('parses a valid adjustment', () => {
+    const adjustment = { summary: 'Progress', changes: [change('squat', 3, 5, 105)] };
+    expect(parseAdjustment(JSON.stringify(adjustment), exercises)).toEqual(adjustment);
+  });
+
+  it('reports invalid JSON, schema errors and out-of-bounds changes as validation issues', () => {
+    expect(parseIssues('not json')[0]).toMatch(/^adjustment: Response is not valid JSON/);
+    expect(parseIssues(JSON.stringify({ summary: '', changes: [] })).length).toBeGreaterThan(0);
+    expect(parseIssues(JSON.stringify({ summary: 'Deload', changes: [change('squat', 3, 5, 50)] }))).toEqual([
+      'changes[0].weight: change back squat by at most 10% (currently 100 kg)'
+    ]);
+  });
+});
+
+describe('toExerciseChanges', () => {
+  it('drops unchanged and unknown exercises and keeps bodyweight exercises unweighted', () => {
+    const adjustment = {
+      summary: 'Progress',
+      changes: [change('squat', 3, 5, 100), change('pull-up', 4, 8, 10), change('bench', 3, 5, 60)]
+    };
+
+    expect(toExerciseChanges(adjustment, exercises)).toEqual([{
+      exercise_id: 'pull-up',
+      name: 'pull up',
+      sets: 4,
+      reps: 8,
+      weight: null,
+      previous: { sets: 3, reps: 8, weight: null },
+      reason: 'Sessions felt easy'
+    }]);
+  });
+
+  it('keeps the current weight when the change leaves it out', () => {
+    const [squat] = toExerciseChanges({ summary: 'More reps', changes: [change('squat', 3, 6, null)] }, exercises);
+    expect(squat.weight).toBe(100);
+  });
+});
+
+describe('buildChangelog', () => {
+  it('lists each change or says there are none', () => {
+    const changes = toExerciseChanges({ summary: 'Progress', changes: [change('squat', 3, 5, 105)] }, exercises);
+
+    expect(buildChangelog('Progress', changes)).toBe(
+      'Progress\n- Back Squat: 3 × 5 @ 100 kg → 3 × 5 @ 105 kg (Sessions felt easy)'
+    );
+    expect(buildChangelog('Hold', [])).toBe('Hold\n- No changes: keep the current prescription.');
+  });
+});
+
+describe('summarizeFeedback', () => {
+  it('averages ratings and aggregates logs per exercise', () => {
+    const summary = summarizeFeedback({
+      since: '2026-10-05',
+      plannedSessions: 6,
+      workoutLogs: [
+        { id: 'log-1', difficulty_rating: 3, mood: 'good' },
+        { id: 'log-2', difficulty_rating: 4, mood: 'tired' }
+      ],
+      restLogs: [
+        { was_followed: true, recovery_rating: 4 },
+        { was_followed: false, recovery_rating: null }
+      ],
+      exerciseLogs: [
+        { workout_log_id: 'log-1', exercise_id: 'squat', sets_completed: 3, reps_completed: 5, weight_used: 100 },
+        { workout_log_id: 'log-2', exercise_id: 'squat', sets_completed: 2, reps_completed: 4, weight_used: 102.5 }
+      ],
+      exercises: [
+        { id: 'squat', name: 'back squat', sets: 3, reps: 5, weight: 100 },
+        { id: 'pull-up', name: 'pull up', sets: 3, reps: 8, weight: null }
+      ]
+    });
+
+    expect(summary).toMatchObject({
+      sessions: 2,
+      averageDifficulty: 3.5,
+      averageRecovery: 4,
+      restDaysLogged: 2,
+      restDaysFollowed: 1
+    });
+    expect(summary.moods).toEqual({ great: 0, good: 1, okay: 0, tired: 1, exhausted: 0 });
+    expect(summary.exercises[0]).toMatchObject({ sessions: 2, averageSetsCompleted: 2.5, averageRepsCompleted: 4.5, topWeightUsed: 102.5 });
+    expect(summary.exercises[1]).toMatchObject({ sessions: 0, averageSetsCompleted: null, topWeightUsed: null });
+  });
+});
+
+describe('getAdjustmentWeek', () => {
+  const plan = { created_at: '2026-10-05T08:00:00Z', duration_weeks: 4 };
+
+  it('targets the week after the current one', () => {
+    expect(getAdjustmentWeek(plan, new Date('2026-10-06T12:00:00Z'))).toBe(2);
+    expect(getAdjustmentWeek(plan, new Date('2026-10-20T12:00:00Z'))).toBe(4);
+  });
+
+  it('has nothing to adjust in the final week', () => {
+    expect(getAdjustmentWeek(plan, new Date('2026-10-27T12:00:00Z'))).toBeNull();
+  });
+});
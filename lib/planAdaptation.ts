@@ -0,0 +1,424 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/supabase';
+import { PlanValidationError, formatPlanIssues } from '@/lib/workoutPlan';
+import { MOODS, type Mood } from '@/lib/workoutSession';
+import { getPlanWeek } from '@/lib/progression';
+import { formatPlanName } from '@/lib/utils';
+import { DEFAULT_UNIT_SYSTEM, formatWeight, type UnitSystem } from '@/lib/units';
+import type { LLMProvider } from '@/lib/llm';
+import { buildAdjustmentCompletion, buildRepairMessage, cleanJsonContent } from '@/lib/llm/prompts';
+
+type Tables = Database['public']['Tables'];
+type ExerciseRow = Tables['exercises']['Row'];
+
+export type PlanAdjustmentRow = Tables['plan_adjustments']['Row'];
+export type AdaptablePlan = Pick<Tables['workout_plans']['Row'], 'id' | 'user_id' | 'name' | 'created_at' | 'duration_weeks'>;
+
+export const FEEDBACK_WINDOW_DAYS = 14;
+const MAX_SET_CHANGE = 2;
+const MAX_REP_CHANGE = 4;
+const MAX_WEIGHT_CHANGE = 0.1;
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Each adjustment is an LLM call, so the scheduled job only takes this many
+// plans per run and works through the rest on later runs.
+export const ADAPTATION_BATCH_SIZE = 5;
+
+export interface ExercisePerformance {
+  exerciseId: string;
+  name: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  sessions: number;
+  averageSetsCompleted: number | null;
+  averageRepsCompleted: number | null;
+  topWeightUsed: number | null;
+}
+
+export interface FeedbackSummary {
+  since: string;
+  sessions: number;
+  plannedSessions: number;
+  averageDifficulty: number | null;
+  moods: Record<Mood, number>;
+  averageRecovery: number | null;
+  restDaysLogged: number;
+  restDaysFollowed: number;
+  exercises: ExercisePerformance[];
+}
+
+export interface AdjustmentRequest {
+  planName: string;
+  week: number;
+  durationWeeks: number;
+  feedback: FeedbackSummary;
+}
+
+export const AdjustmentSchema = z.object({
+  summary: z.string().trim().min(1),
+  changes: z.array(z.object({
+    exercise_id: z.string(),
+    sets: z.number().int().min(1).max(20),
+    reps: z.number().int().min(1).max(100),
+    weight: z.number().positive().nullable(),
+    reason: z.string().trim().min(1)
+  }))
+});
+
+export type Adjustment = z.infer<typeof AdjustmentSchema>;
+
+export interface ExerciseChange {
+  exercise_id: string;
+  name: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  previous: { sets: number; reps: number; weight: number | null };
+  reason: string;
+}
+
+interface FeedbackInput {
+  since: string;
+  plannedSessions: number;
+  workoutLogs: Pick<Tables['workout_logs']['Row'], 'id' | 'difficulty_rating' | 'mood'>[];
+  restLogs: Pick<Tables['rest_day_logs']['Row'], 'was_followed' | 'recovery_rating'>[];
+  exerciseLogs: Pick<Tables['exercise_logs']['Row'], 'workout_log_id' | 'exercise_id' | 'sets_completed' | 'reps_completed' | 'weight_used'>[];
+  exercises: Pick<ExerciseRow, 'id' | 'name' | 'sets' | 'reps' | 'weight'>[];
+}
+
+const average = (values: number[]): number | null =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+export const summarizeFeedback = (input: FeedbackInput): FeedbackSummary => {
+  const moods = Object.fromEntries(MOODS.map(mood => [mood, 0])) as Record<Mood, number>;
+  input.workoutLogs.forEach(log => { moods[log.mood] += 1; });
+
+  return {
+    since: input.since,
+    sessions: input.workoutLogs.length,
+    plannedSessions: input.plannedSessions,
+    averageDifficulty: average(input.workoutLogs.map(log => log.difficulty_rating)),
+    moods,
+    averageRecovery: average(input.restLogs.flatMap(log => (log.recovery_rating === null ? [] : [log.recovery_rating]))),
+    restDaysLogged: input.restLogs.length,
+    restDaysFollowed: input.restLogs.filter(log => log.was_followed).length,
+    exercises: input.exercises.map(exercise => {
+      const logs = input.exerciseLogs.filter(log => log.exercise_id === exercise.id);
+      const weights = logs.flatMap(log => (log.weight_used === null ? [] : [log.weight_used]));
+      return {
+        exerciseId: exercise.id,
+        name: exercise.name,
+        sets: exercise.sets,
+        reps: exercise.reps,
+        weight: exercise.weight,
+        sessions: new Set(logs.map(log => log.workout_log_id)).size,
+        averageSetsCompleted: average(logs.map(log => log.sets_completed)),
+        averageRepsCompleted: average(logs.map(log => log.reps_completed)),
+        topWeightUsed: weights.length ? Math.max(...weights) : null
+      };
+    })
+  };
+};
+
+export const findAdjustmentIssues = (adjustment: Adjustment, exercises: ExercisePerformance[]): string[] => {
+  const seen = new Set<string>();
+
+  return adjustment.changes.flatMap((change, index) => {
+    const path = `changes[${index}]`;
+    const exercise = exercises.find(e => e.exerciseId === change.exercise_id);
+    if (!exercise) return [`${path}.exercise_id: "${change.exercise_id}" is not an exercise in this plan`];
+
+    const issues: string[] = [];
+    if (seen.has(change.exercise_id)) issues.push(`${path}.exercise_id: ${exercise.name} is changed more than once`);
+    seen.add(change.exercise_id);
+
+    if (Math.abs(change.sets - exercise.sets) > MAX_SET_CHANGE) {
+      issues.push(`${path}.sets: change ${exercise.name} by at most ${MAX_SET_CHANGE} sets (currently ${exercise.sets})`);
+    }
+    if (Math.abs(change.reps - exercise.reps) > MAX_REP_CHANGE) {
+      issues.push(`${path}.reps: change ${exercise.name} by at most ${MAX_REP_CHANGE} reps (currently ${exercise.reps})`);
+    }
+    if (exercise.weight !== null && change.weight !== null
+      && Math.abs(change.weight - exercise.weight) > exercise.weight * MAX_WEIGHT_CHANGE) {
+      issues.push(`${path}.weight: change ${exercise.name} by at most ${MAX_WEIGHT_CHANGE * 100}% (currently ${formatWeight(exercise.weight)})`);
+    }
+    return issues;
+  });
+};
+
+export const parseAdjustment = (content: string, exercises: ExercisePerformance[]): Adjustment => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : 'Unknown error';
+    throw new PlanValidationError('Invalid JSON structure', [`adjustment: Response is not valid JSON (${reason})`]);
+  }
+
+  const result = AdjustmentSchema.safeParse(json);
+  if (!result.success) {
+    throw new PlanValidationError('Suggested adjustment failed validation', formatPlanIssues(result.error));
+  }
+
+  const issues = findAdjustmentIssues(result.data, exercises);
+  if (issues.length) {
+    throw new PlanValidationError('Suggested adjustment is out of bounds', issues);
+  }
+  return result.data;
+};
+
+// Changes that keep the current prescription are dropped so the changelog
+// only lists what the user is actually agreeing to.
+export const toExerciseChanges = (adjustment: Adjustment, exercises: ExercisePerformance[]): ExerciseChange[] =>
+  adjustment.changes.flatMap(change => {
+    const exercise = exercises.find(e => e.exerciseId === change.exercise_id);
+    if (!exercise) return [];
+
+    const weight = exercise.weight === null ? null : change.weight ?? exercise.weight;
+    if (change.sets === exercise.sets && change.reps === exercise.reps && weight === exercise.weight) return [];
+
+    return [{
+      exercise_id: exercise.exerciseId,
+      name: exercise.name,
+      sets: change.sets,
+      reps: change.reps,
+      weight,
+      previous: { sets: exercise.sets, reps: exercise.reps, weight: exercise.weight },
+      reason: change.reason
+    }];
+  });
+
+const formatTarget = ({ sets, reps, weight }: ExerciseChange['previous'], unitSystem: UnitSystem): string =>
+  `${sets} × ${reps}${weight !== null ? ` @ ${formatWeight(weight, unitSystem)}` : ''}`;
+
+export const formatExerciseChange = (change: ExerciseChange, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  `- ${formatPlanName(change.name)}: ${formatTarget(change.previous, unitSystem)} → ${formatTarget(change, unitSystem)} (${change.reason})`;
+
+export const buildChangelog = (summary: string, changes: ExerciseChange[], unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  [
+    summary,
+    ...(changes.length
+      ? changes.map(change => formatExerciseChange(change, unitSystem))
+      : ['- No changes: keep the current prescription.'])
+  ].join('\n');
+
+export const getAdjustmentWeek = (plan: { created_at: string; duration_weeks: number }, today: Date = new Date()): number | null => {
+  const week = getPlanWeek({ createdAt: plan.created_at, durationWeeks: plan.duration_weeks }, today) + 1;
+  return week > plan.duration_weeks ? null : week;
+};
+
+// Active plans without an adjustment for their upcoming week. Any such
+// adjustment was created within the last week, which bounds the lookup. A
+// rejected adjustment still counts: only the user regenerates it.
+export async function fetchPlansDueForAdjustment(
+  supabase: SupabaseClient<Database>,
+  today: Date = new Date()
+): Promise<AdaptablePlan[]> {
+  const since = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  const [plansResult, adjustmentsResult] = await Promise.all([
+    supabase
+      .from('workout_plans')
+      .select('id, user_id, name, created_at, duration_weeks')
+      .eq('is_active', true)
+      .order('created_at'),
+    supabase
+      .from('plan_adjustments')
+      .select('plan_id, week')
+      .gte('created_at', since)
+  ]);
+
+  if (plansResult.error) throw plansResult.error;
+  if (adjustmentsResult.error) throw adjustmentsResult.error;
+
+  const adjusted = new Set((adjustmentsResult.data ?? []).map(adjustment => `${adjustment.plan_id}:${adjustment.week}`));
+
+  return (plansResult.data ?? []).filter(plan => {
+    const week = getAdjustmentWeek(plan, today);
+    return week !== null && !adjusted.has(`${plan.id}:${week}`);
+  });
+}
+
+export async function fetchFeedbackSummary(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  planId: string,
+  today: Date = new Date()
+): Promise<FeedbackSummary> {
+  const since = new Date(today.getTime() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { data: workouts, error: workoutsError } = await supabase
+    .from('workouts')
+    .select('id')
+    .eq('plan_id', planId);
+
+  if (workoutsError) throw workoutsError;
+
+  const workoutIds = (workouts ?? []).map(workout => workout.id);
+  const { data: exercises, error: exercisesError } = await supabase
+    .from('exercises')
+    .select('id, name, sets, reps, weight')
+    .in('workout_id', workoutIds)
+    .is('retired_at', null)
+    .order('order_in_workout');
+
+  if (exercisesError) throw exercisesError;
+
+  const [workoutLogsResult, restLogsResult, exerciseLogsResult] = await Promise.all([
+    supabase
+      .from('workout_logs')
+      .select('id, difficulty_rating, mood')
+      .eq('user_id', userId)
+      .in('workout_id', workoutIds)
+      .gte('completed_at', since),
+    supabase
+      .from('rest_day_logs')
+      .select('was_followed, recovery_rating')
+      .eq('user_id', userId)
+      .eq('plan_id', planId)
+      .gte('rest_date', since.slice(0, 10)),
+    supabase
+      .from('exercise_logs')
+      .select('workout_log_id, exercise_id, sets_completed, reps_completed, weight_used, workout_logs!inner(user_id, workout_id, completed_at)')
+      .eq('workout_logs.user_id', userId)
+      .in('workout_logs.workout_id', workoutIds)
+      .gte('workout_logs.completed_at', since)
+  ]);
+
+  if (workoutLogsResult.error) throw workoutLogsResult.error;
+  if (restLogsResult.error) throw restLogsResult.error;
+  if (exerciseLogsResult.error) throw exerciseLogsResult.error;
+
+  return summarizeFeedback({
+    since,
+    plannedSessions: Math.round(workoutIds.length * FEEDBACK_WINDOW_DAYS / 7),
+    workoutLogs: workoutLogsResult.data ?? [],
+    restLogs: restLogsResult.data ?? [],
+    exerciseLogs: exerciseLogsResult.data ?? [],
+    exercises: exercises ?? []
+  });
+}
+
+export async function generateAdjustment(
+  llm: LLMProvider,
+  request: AdjustmentRequest,
+  signal?: AbortSignal
+): Promise<Adjustment> {
+  const completion = { ...buildAdjustmentCompletion(request), signal };
+  let lastError: PlanValidationError | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+    const content = await llm.complete(completion);
+    if (!content) throw new Error('No adjustment generated');
+
+    const cleanedContent = cleanJsonContent(content);
+    try {
+      return parseAdjustment(cleanedContent, request.feedback.exercises);
+    } catch (e) {
+      if (!(e instanceof PlanValidationError)) throw e;
+      console.error(`Adjustment validation failed (${llm.name}/${llm.model}, attempt ${attempt + 1}):`, e.issues);
+      lastError = e;
+      completion.messages = [
+        ...completion.messages,
+        { role: 'assistant', content: cleanedContent },
+        { role: 'user', content: buildRepairMessage(e.issues, 'adjustment') }
+      ];
+    }
+  }
+
+  throw new PlanValidationError(
+    `Failed to generate a valid adjustment after ${MAX_REPAIR_ATTEMPTS + 1} attempts`,
+    lastError?.issues ?? []
+  );
+}
+
+export interface AdjustmentOptions {
+  today?: Date;
+  // Set when the user asks again, so a rejected proposal is replaced.
+  regenerateRejected?: boolean;
+  signal?: AbortSignal;
+}
+
+// Returns the existing adjustment when the upcoming week was already
+// adapted, and null once the plan has no weeks left to adapt.
+export async function createPlanAdjustment(
+  supabase: SupabaseClient<Database>,
+  llm: LLMProvider,
+  userId: string,
+  plan: Pick<Tables['workout_plans']['Row'], 'id' | 'name' | 'created_at' | 'duration_weeks'>,
+  { today = new Date(), regenerateRejected = false, signal }: AdjustmentOptions = {}
+): Promise<PlanAdjustmentRow | null> {
+  const week = getAdjustmentWeek(plan, today);
+  if (week === null) return null;
+
+  const { data: existing, error: existingError } = await supabase
+    .from('plan_adjustments')
+    .select('*')
+    .eq('plan_id', plan.id)
+    .eq('week', week)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (existingError) throw existingError;
+  if (existing && !(regenerateRejected && existing.status === 'rejected')) return existing;
+
+  const feedback = await fetchFeedbackSummary(supabase, userId, plan.id, today);
+  const adjustment = await generateAdjustment(llm, {
+    planName: plan.name,
+    week,
+    durationWeeks: plan.duration_weeks,
+    feedback
+  }, signal);
+  const changes = toExerciseChanges(adjustment, feedback.exercises);
+
+  const { data, error } = await supabase
+    .from('plan_adjustments')
+    .insert({
+      user_id: userId,
+      plan_id: plan.id,
+      week,
+      feedback: feedback as unknown as Json,
+      changes: changes as unknown as Json,
+      changelog: buildChangelog(adjustment.summary, changes)
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchLatestAdjustment(
+  supabase: SupabaseClient<Database>,
+  planId: string
+): Promise<PlanAdjustmentRow | null> {
+  const { data, error } = await supabase
+    .from('plan_adjustments')
+    .select('*')
+    .eq('plan_id', planId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function acceptPlanAdjustment(supabase: SupabaseClient<Database>, adjustmentId: string): Promise<void> {
+  const { error } = await supabase.rpc('apply_plan_adjustment', { p_adjustment_id: adjustmentId });
+  if (error) throw error;
+}
+
+export async function rejectPlanAdjustment(supabase: SupabaseClient<Database>, adjustmentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('plan_adjustments')
+    .update({ status: 'rejected', resolved_at: new Date().toISOString() })
+    .eq('id', adjustmentId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
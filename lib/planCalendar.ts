@@ -0,0 +1,146 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { addDays, getDateWeekday, getLocalDate, getUserTimeZone, getWeekStart, type Weekday } from '@/lib/schedule';
+
+export type CalendarView = 'month' | 'week';
+
+export type CalendarDayStatus =
+  | 'completed'
+  | 'missed'
+  | 'today'
+  | 'upcoming'
+  | 'rest_logged'
+  | 'rest'
+  | 'outside';
+
+export interface CalendarPlan {
+  id: string;
+  created_at: string;
+  duration_weeks: number;
+  rest_days: number[] | null;
+  workouts: { id: string; name: string; day_of_week: number }[];
+}
+
+export interface PlanLogs {
+  workoutDates: Record<string, string[]>;
+  restDates: Record<string, boolean>;
+}
+
+export interface CalendarDay {
+  date: string;
+  weekday: Weekday;
+  inPlan: boolean;
+  inMonth: boolean;
+  workout: CalendarPlan['workouts'][number] | null;
+  status: CalendarDayStatus;
+}
+
+export interface PlanDateRange {
+  startDate: string;
+  endDate: string;
+}
+
+export const getPlanDateRange = (
+  plan: Pick<CalendarPlan, 'created_at' | 'duration_weeks'>,
+  timeZone: string = getUserTimeZone()
+): PlanDateRange => {
+  const startDate = getLocalDate(new Date(plan.created_at), timeZone);
+  return { startDate, endDate: addDays(startDate, plan.duration_weeks * 7 - 1) };
+};
+
+export const shiftCursor = (cursor: string, view: CalendarView, direction: 1 | -1): string => {
+  if (view === 'week') return addDays(cursor, direction * 7);
+  const [year, month] = cursor.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1 + direction, 1)).toISOString().slice(0, 10);
+};
+
+const getDayStatus = (
+  date: string,
+  workout: CalendarDay['workout'],
+  inPlan: boolean,
+  logs: PlanLogs,
+  today: string
+): CalendarDayStatus => {
+  if (!inPlan) return 'outside';
+  if (logs.workoutDates[date]?.length) return 'completed';
+
+  if (!workout) return date in logs.restDates ? 'rest_logged' : 'rest';
+  if (date === today) return 'today';
+  return date < today ? 'missed' : 'upcoming';
+};
+
+export function buildCalendarDays(
+  plan: CalendarPlan,
+  logs: PlanLogs,
+  view: CalendarView,
+  cursor: string,
+  today: string = getLocalDate(),
+  timeZone: string = getUserTimeZone()
+): CalendarDay[] {
+  const { startDate, endDate } = getPlanDateRange(plan, timeZone);
+  const month = cursor.slice(0, 7);
+
+  const firstDay = view === 'week' ? getWeekStart(cursor) : getWeekStart(`${month}-01`);
+  const lastDay = view === 'week'
+    ? addDays(firstDay, 6)
+    : addDays(getWeekStart(addDays(shiftCursor(`${month}-01`, 'month', 1), -1)), 6);
+
+  const days: CalendarDay[] = [];
+  for (let date = firstDay; date <= lastDay; date = addDays(date, 1)) {
+    const weekday = getDateWeekday(date);
+    const inPlan = date >= startDate && date <= endDate;
+    const isRestDay = plan.rest_days?.includes(weekday) ?? false;
+    const workout = isRestDay ? null : plan.workouts.find(w => w.day_of_week === weekday) ?? null;
+
+    days.push({
+      date,
+      weekday,
+      inPlan,
+      inMonth: view === 'week' || date.startsWith(month),
+      workout: inPlan ? workout : null,
+      status: getDayStatus(date, workout, inPlan, logs, today)
+    });
+  }
+
+  return days;
+}
+
+export async function fetchPlanLogs(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  plan: CalendarPlan,
+  timeZone: string = getUserTimeZone()
+): Promise<PlanLogs> {
+  const workoutIds = plan.workouts.map(workout => workout.id);
+
+  const [workoutLogs, restLogs] = await Promise.all([
+    workoutIds.length
+      ? supabase
+        .from('workout_logs')
+        .select('workout_id, completed_at')
+        .eq('user_id', userId)
+        .in('workout_id', workoutIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase
+      .from('rest_day_logs')
+      .select('rest_date, was_followed')
+      .eq('user_id', userId)
+      .eq('plan_id', plan.id)
+  ]);
+
+  if (workoutLogs.error) throw workoutLogs.error;
+  if (restLogs.error) throw restLogs.error;
+
+  const workoutDates: PlanLogs['workoutDates'] = {};
+  for (const log of workoutLogs.data ?? []) {
+    const date = getLocalDate(new Date(log.completed_at), timeZone);
+    workoutDates[date] = [...(workoutDates[date] ?? []), log.workout_id];
+  }
+
+  const restDates: PlanLogs['restDates'] = {};
+  for (const log of restLogs.data ?? []) {
+    restDates[log.rest_date.slice(0, 10)] = log.was_followed;
+  }
+
+  return { workoutDates, restDates };
+}
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import {
+  ExerciseSchema,
+  GOAL_TYPES,
+  PlanValidationError,
+  VALID_MUSCLE_GROUPS,
+  VALID_WORKOUT_TYPES,
+  WorkoutPlanFieldsSchema,
+  WorkoutSchema,
+  formatPlanIssues,
+  refinePlanSchedule,
+  type WorkoutType
+} from '@/lib/workoutPlan';
+import { WEEKDAYS, getRestDays } from '@/lib/schedule';
+
+export const PlanDetailsSchema = z.object({
+  name: z.string().trim().min(1),
+  goalType: z.enum(GOAL_TYPES),
+  workoutType: z.enum(VALID_WORKOUT_TYPES),
+  durationWeeks: z.number().int().min(1).max(52),
+  focusMuscles: z.array(z.enum(VALID_MUSCLE_GROUPS))
+});
+
+// Existing rows keep their id so edits don't detach logged sessions.
+export const EditableExerciseSchema = ExerciseSchema.extend({
+  id: z.string().uuid().optional()
+});
+
+export const EditableWorkoutSchema = WorkoutSchema.extend({
+  id: z.string().uuid().optional(),
+  exercises: z.array(EditableExerciseSchema).min(1)
+});
+
+export const PlanDraftSchema = z.object({
+  plan: PlanDetailsSchema,
+  workoutPlan: WorkoutPlanFieldsSchema.extend({
+    workouts: z.array(EditableWorkoutSchema).min(1)
+  }).superRefine(refinePlanSchedule)
+});
+
+export type PlanDetails = z.infer<typeof PlanDetailsSchema>;
+export type EditableExercise = z.infer<typeof EditableExerciseSchema>;
+export type EditableWorkout = z.infer<typeof EditableWorkoutSchema>;
+export type PlanDraft = z.infer<typeof PlanDraftSchema>;
+
+export const createBlankExercise = (orderInWorkout: number, exerciseType: WorkoutType): EditableExercise => ({
+  name: '',
+  description: '',
+  sets: 3,
+  reps: 10,
+  rest_duration: '60 seconds',
+  order_in_workout: orderInWorkout,
+  primary_muscles: [],
+  secondary_muscles: [],
+  equipment_needed: [],
+  exercise_type: exerciseType
+});
+
+export const createBlankWorkout = (dayOfWeek: number, workoutType: WorkoutType): EditableWorkout => ({
+  name: '',
+  description: '',
+  day_of_week: dayOfWeek,
+  estimated_duration: '60 minutes',
+  workout_type: workoutType,
+  exercises: [createBlankExercise(1, workoutType)]
+});
+
+export const createBlankDraft = (): PlanDraft => ({
+  plan: {
+    name: '',
+    goalType: 'strength',
+    workoutType: 'strength',
+    durationWeeks: 8,
+    focusMuscles: []
+  },
+  workoutPlan: {
+    description: '',
+    difficulty: 'beginner',
+    restDays: getRestDays([1]),
+    workouts: [createBlankWorkout(1, 'strength')]
+  }
+});
+
+const renumber = (exercises: EditableExercise[]): EditableExercise[] =>
+  exercises.map((exercise, index) => ({ ...exercise, order_in_workout: index + 1 }));
+
+export const addExercise = (workout: EditableWorkout): EditableWorkout => ({
+  ...workout,
+  exercises: [...workout.exercises, createBlankExercise(workout.exercises.length + 1, workout.workout_type)]
+});
+
+export const removeExercise = (workout: EditableWorkout, index: number): EditableWorkout => ({
+  ...workout,
+  exercises: renumber(workout.exercises.filter((_, i) => i !== index))
+});
+
+export const moveExercise = (workout: EditableWorkout, from: number, to: number): EditableWorkout => {
+  if (to < 0 || to >= workout.exercises.length) return workout;
+
+  const exercises = [...workout.exercises];
+  const [moved] = exercises.splice(from, 1);
+  exercises.splice(to, 0, moved);
+  return { ...workout, exercises: renumber(exercises) };
+};
+
+// Rest days are always the days without a workout, so reassigning or
+// adding a workout keeps the schedule consistent.
+export const setDraftWorkouts = (draft: PlanDraft, workouts: EditableWorkout[]): PlanDraft => ({
+  ...draft,
+  workoutPlan: {
+    ...draft.workoutPlan,
+    restDays: getRestDays(workouts.map(workout => workout.day_of_week)),
+    workouts: [...workouts].sort((a, b) => a.day_of_week - b.day_of_week)
+  }
+});
+
+export const getFreeDays = (draft: PlanDraft): number[] => {
+  const used = draft.workoutPlan.workouts.map(workout => workout.day_of_week);
+  return WEEKDAYS.filter(day => !used.includes(day));
+};
+
+export const findDraftIssues = (draft: unknown): string[] => {
+  const result = PlanDraftSchema.safeParse(draft);
+  return result.success ? [] : formatPlanIssues(result.error);
+};
+
+export const parsePlanDraft = (json: unknown): PlanDraft => {
+  const result = PlanDraftSchema.safeParse(json);
+  if (!result.success) {
+    throw new PlanValidationError('Plan failed validation', formatPlanIssues(result.error));
+  }
+  return result.data;
+};
+
+export async function fetchPlanDraft(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  planId: string
+): Promise<PlanDraft | null> {
+  const { data: plan, error: planError } = await supabase
+    .from('workout_plans')
+    .select('*')
+    .eq('id', planId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (planError) throw planError;
+  if (!plan) return null;
+
+  const [goalResult, workoutsResult] = await Promise.all([
+    supabase.from('fitness_goals').select('goal_type, specific_targets').eq('id', plan.goal_id).maybeSingle(),
+    supabase.from('workouts').select('*').eq('plan_id', plan.id).order('day_of_week')
+  ]);
+
+  if (goalResult.error) throw goalResult.error;
+  if (workoutsResult.error) throw workoutsResult.error;
+
+  const workouts = workoutsResult.data ?? [];
+  const { data: exercises, error: exercisesError } = await supabase
+    .from('exercises')
+    .select('*')
+    .in('workout_id', workouts.map(workout => workout.id))
+    .is('retired_at', null)
+    .order('order_in_workout');
+
+  if (exercisesError) throw exercisesError;
+
+  const targets = goalResult.data?.specific_targets as { workout_type?: string } | null;
+  const workoutType = VALID_WORKOUT_TYPES.find(type => type === targets?.workout_type)
+    ?? workouts[0]?.workout_type
+    ?? 'strength';
+
+  return {
+    plan: {
+      name: plan.name,
+      goalType: goalResult.data?.goal_type ?? 'strength',
+      workoutType,
+      durationWeeks: plan.duration_weeks,
+      focusMuscles: plan.focus_muscles
+    },
+    workoutPlan: {
+      description: plan.description || plan.name,
+      difficulty: plan.difficulty,
+      restDays: plan.rest_days ?? [],
+      workouts: workouts.map(workout => ({
+        id: workout.id,
+        name: workout.name,
+        description: workout.description ?? '',
+        day_of_week: workout.day_of_week,
+        estimated_duration: workout.estimated_duration,
+        workout_type: workout.workout_type,
+        exercises: (exercises ?? [])
+          .filter(exercise => exercise.workout_id === workout.id)
+          .map(exercise => ({
+            id: exercise.id,
+            name: exercise.name,
+            description: exercise.description ?? '',
+            sets: exercise.sets,
+            reps: exercise.reps,
+            weight: exercise.weight,
+            rest_duration: exercise.rest_duration,
+            order_in_workout: exercise.order_in_workout,
+            primary_muscles: exercise.primary_muscles,
+            secondary_muscles: exercise.secondary_muscles,
+            equipment_needed: exercise.equipment_needed,
+            exercise_type: exercise.exercise_type
+          }))
+      }))
+    }
+  };
+}
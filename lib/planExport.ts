@@ -0,0 +1,118 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import {
+  PlanValidationError,
+  WorkoutPlanSchema,
+  formatPlanIssues,
+  type WorkoutPlan
+} from '@/lib/workoutPlan';
+import { getWeekdayName } from '@/lib/schedule';
+import { PlanDetailsSchema, fetchPlanDraft } from '@/lib/planEditor';
+
+export const PLAN_EXPORT_FORMAT = 'athleto-plan';
+export const PLAN_EXPORT_VERSION = 1;
+
+export type PlanExportFormat = 'json' | 'csv';
+
+export const PlanExportSchema = z.object({
+  format: z.literal(PLAN_EXPORT_FORMAT),
+  version: z.literal(PLAN_EXPORT_VERSION),
+  exportedAt: z.string(),
+  plan: PlanDetailsSchema,
+  workoutPlan: WorkoutPlanSchema
+});
+
+export type PlanExport = z.infer<typeof PlanExportSchema>;
+
+const CSV_COLUMNS = [
+  'day_of_week',
+  'weekday',
+  'workout',
+  'workout_type',
+  'estimated_duration',
+  'order_in_workout',
+  'exercise',
+  'sets',
+  'reps',
+  'rest_duration',
+  'primary_muscles',
+  'secondary_muscles',
+  'equipment_needed',
+  'description'
+] as const;
+
+const escapeCsvValue = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const planExportToCsv = (planExport: PlanExport): string => {
+  const rows = [...planExport.workoutPlan.workouts]
+    .sort((a, b) => a.day_of_week - b.day_of_week)
+    .flatMap(workout => [...workout.exercises]
+      .sort((a, b) => a.order_in_workout - b.order_in_workout)
+      .map(exercise => [
+        workout.day_of_week,
+        getWeekdayName(workout.day_of_week),
+        workout.name,
+        workout.workout_type,
+        workout.estimated_duration,
+        exercise.order_in_workout,
+        exercise.name,
+        exercise.sets,
+        exercise.reps,
+        exercise.rest_duration,
+        exercise.primary_muscles.join(';'),
+        exercise.secondary_muscles.join(';'),
+        exercise.equipment_needed.join(';'),
+        exercise.description
+      ]));
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+};
+
+export const getExportFilename = (planExport: PlanExport, format: PlanExportFormat): string => {
+  const slug = planExport.plan.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'plan';
+  return `${slug}.${format}`;
+};
+
+export const parsePlanExport = (json: unknown): PlanExport => {
+  const version = (json as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > PLAN_EXPORT_VERSION) {
+    throw new PlanValidationError('Unsupported plan export version', [
+      `version: ${version} is newer than this app supports (${PLAN_EXPORT_VERSION})`
+    ]);
+  }
+
+  const result = PlanExportSchema.safeParse(json);
+  if (!result.success) {
+    throw new PlanValidationError('Imported plan failed validation', formatPlanIssues(result.error));
+  }
+  return result.data;
+};
+
+export async function fetchPlanExport(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  planId: string
+): Promise<PlanExport | null> {
+  const draft = await fetchPlanDraft(supabase, userId, planId);
+  if (!draft) return null;
+
+  const workoutPlan: WorkoutPlan = {
+    ...draft.workoutPlan,
+    workouts: draft.workoutPlan.workouts.map(({ id: _workoutId, exercises, ...workout }) => ({
+      ...workout,
+      exercises: exercises.map(({ id: _exerciseId, ...exercise }) => exercise)
+    }))
+  };
+
+  return {
+    format: PLAN_EXPORT_FORMAT,
+    version: PLAN_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    plan: draft.plan,
+    workoutPlan
+  };
+}
@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { Exercise, MuscleGroup, Workout, WorkoutPlan, WorkoutType } from '@/lib/workoutPlan';
+import type { PlanDraft } from '@/lib/planEditor';
+import { fetchExerciseCatalog, matchCatalogEntry, type CatalogEntry } from '@/lib/exerciseCatalog';
+
+export const ACTIVE_PLAN_MESSAGE = 'You already have an active workout plan. Please complete it before generating a new one.';
+
+export class PlanConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanConflictError';
+  }
+}
+
+export interface PlanParams {
+  name?: string;
+  durationWeeks: number;
+  workoutType: WorkoutType;
+  focusMuscles: MuscleGroup[];
+  daysPerWeek: number;
+}
+
+type PayloadWorkout = Omit<Workout, 'exercises'> & {
+  id?: string;
+  exercises: (Exercise & { id?: string })[];
+};
+
+const fetchCatalogOrEmpty = (supabase: SupabaseClient<Database>): Promise<CatalogEntry[]> =>
+  fetchExerciseCatalog(supabase).catch(catalogError => {
+    console.error('Exercise catalog unavailable, saving exercises unlinked:', catalogError);
+    return [];
+  });
+
+const buildWorkoutsPayload = (workouts: PayloadWorkout[], catalog: CatalogEntry[]) =>
+  workouts.map(workout => ({
+    id: workout.id,
+    name: workout.name,
+    description: workout.description,
+    day_of_week: workout.day_of_week,
+    estimated_duration: workout.estimated_duration,
+    workout_type: workout.workout_type,
+    // Exercises keep their generated name; the catalog link only groups history.
+    exercises: workout.exercises.map(exercise => ({
+      id: exercise.id,
+      catalog_id: matchCatalogEntry(exercise.name, catalog)?.id ?? null,
+      name: exercise.name,
+      description: exercise.description,
+      sets: exercise.sets,
+      reps: exercise.reps,
+      weight: exercise.weight ?? null,
+      rest_duration: exercise.rest_duration,
+      order_in_workout: exercise.order_in_workout,
+      exercise_type: exercise.exercise_type,
+      primary_muscles: exercise.primary_muscles,
+      secondary_muscles: exercise.secondary_muscles,
+      equipment_needed: exercise.equipment_needed
+    }))
+  }));
+
+export async function saveWorkoutPlan(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  goalType: string,
+  workoutPlan: WorkoutPlan,
+  planParams: PlanParams
+): Promise<{ id: string }> {
+  const catalog = await fetchCatalogOrEmpty(supabase);
+
+  const { data: planId, error } = await supabase.rpc('create_workout_plan', {
+    p_user_id: userId,
+    p_goal: {
+      goal_type: goalType,
+      target_date: new Date(Date.now() + planParams.durationWeeks * 7 * 24 * 60 * 60 * 1000).toISOString(),
+      specific_targets: {
+        workout_type: planParams.workoutType,
+        focus_muscles: planParams.focusMuscles,
+        days_per_week: planParams.daysPerWeek
+      }
+    },
+    p_plan: {
+      name: planParams.name ?? `${goalType} - ${planParams.workoutType} Plan`,
+      description: workoutPlan.description,
+      duration_weeks: planParams.durationWeeks,
+      difficulty: workoutPlan.difficulty,
+      focus_muscles: planParams.focusMuscles,
+      rest_days: workoutPlan.restDays,
+      workouts: buildWorkoutsPayload(workoutPlan.workouts, catalog)
+    }
+  });
+
+  if (error?.code === '23505') {
+    throw new Error(ACTIVE_PLAN_MESSAGE);
+  }
+
+  if (error) {
+    console.error('Plan creation error:', error);
+    throw new Error(`Failed to create workout plan: ${error.message}`);
+  }
+
+  return { id: planId };
+}
+
+export async function updateWorkoutPlan(
+  supabase: SupabaseClient<Database>,
+  planId: string,
+  draft: PlanDraft
+): Promise<{ id: string }> {
+  const catalog = await fetchCatalogOrEmpty(supabase);
+  const { plan, workoutPlan } = draft;
+
+  const { data, error } = await supabase.rpc('update_workout_plan', {
+    p_plan_id: planId,
+    p_plan: {
+      name: plan.name,
+      description: workoutPlan.description,
+      duration_weeks: plan.durationWeeks,
+      difficulty: workoutPlan.difficulty,
+      focus_muscles: plan.focusMuscles,
+      rest_days: workoutPlan.restDays,
+      workouts: buildWorkoutsPayload(workoutPlan.workouts, catalog)
+    }
+  });
+
+  if (error?.code === '23503') {
+    throw new PlanConflictError(error.message);
+  }
+
+  if (error) {
+    console.error('Plan update error:', error);
+    throw new Error(`Failed to update workout plan: ${error.message}`);
+  }
+
+  return { id: data };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkoutExtractor, encodePlanEvent, readPlanEvents, type PlanStreamEvent } from '@/lib/planStream';
+import type { Workout } from '@/lib/workoutPlan';
+
+const workout = (name: string, dayOfWeek: number): Workout => ({
+  name,
+  description: 'Heavy compound work; keep 1-2 reps in reserve. Use "straps" if needed.',
+  day_of_week: dayOfWeek,
+  estimated_duration: '60 minutes',
+  workout_type: 'strength',
+  exercises: [{
+    name: 'Deadlift',
+    description: 'Brace {hard} before each pull',
+    sets: 3,
+    reps: 5,
+    rest_duration: '3 minutes',
+    order_in_workout: 1,
+    primary_muscles: ['hamstrings', 'glutes'],
+    secondary_muscles: ['lower_back'],
+    equipment_needed: ['barbell'],
+    exercise_type: 'strength'
+  }]
+});
+
+// Splits a string into chunks of the given size, like tokens arriving from the model.
+const chunk = (text: string, size: number): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) => text.slice(i * size, (i + 1) * size));
+
+const streamOf = (chunks: Uint8Array[]): ReadableStream<Uint8Array> =>
+  new ReadableStream({
+    start(controller) {
+      chunks.forEach(part => controller.enqueue(part));
+      controller.close();
+    }
+  });
+
+describe('readPlanEvents', () => {
+  it('decodes encoded events split across arbitrary chunk boundaries', async () => {
+    const events: PlanStreamEvent[] = [
+      { type: 'workout', workout: workout('Pull Day', 1) },
+      { type: 'repair', attempt: 1, issues: ['workouts.0.day_of_week: Expected number'] },
+      { type: 'saving' },
+      { type: 'complete', plan: { id: 'plan-1', description: 'Strength block', difficulty: 'intermediate', workouts: 1 } }
+    ];
+    const bytes = new Uint8Array(events.flatMap(event => [...encodePlanEvent(event)]));
+    const chunks = Array.from({ length: Math.ceil(bytes.length / 7) }, (_, i) => bytes.slice(i * 7, (i + 1) * 7));
+
+    const received: PlanStreamEvent[] = [];
+    await readPlanEvents(streamOf(chunks), event => received.push(event));
+
+    expect(received).toEqual(events);
+  });
+
+  it('keeps multi-byte characters split between chunks intact', async () => {
+    const event: PlanStreamEvent = { type: 'error', error: 'Plan für Übungen failed', status: 500 };
+    const bytes = encodePlanEvent(event);
+    const split = bytes.indexOf(0xc3) + 1;
+
+    const received: PlanStreamEvent[] = [];
+    await readPlanEvents(streamOf([bytes.slice(0, split), bytes.slice(split)]), e => received.push(e));
+
+    expect(received).toEqual([event]);
+  });
+});
+
+describe('createWorkoutExtractor', () => {
+  const json = JSON.stringify({ description: 'Plan', workouts: [workout('Pull Day', 1), workout('Push Day', 3)] }, null, 2);
+
+  it('emits each workout once its object closes', () => {
+    const extract = createWorkoutExtractor();
+    const emitted = chunk(json, 5).map(part => extract(part).map(item => item.name));
+
+    expect(emitted.flat()).toEqual(['Pull Day', 'Push Day']);
+    // The first workout arrives before the stream reaches the second one.
+    const pullChunk = emitted.findIndex(names => names.includes('Pull Day'));
+    expect(pullChunk).toBeLessThan(Math.floor(json.indexOf('Push Day') / 5));
+  });
+
+  it('ignores braces and brackets inside strings', () => {
+    const extract = createWorkoutExtractor();
+    expect(extract(json).map(item => item.exercises[0].description)).toEqual([
+      'Brace {hard} before each pull',
+      'Brace {hard} before each pull'
+    ]);
+  });
+
+  it('skips workouts that fail validation', () => {
+    const extract = createWorkoutExtractor();
+    const invalid = { ...workout('Leg Day', 5), day_of_week: 9 };
+    const text = JSON.stringify({ workouts: [invalid, workout('Push Day', 3)] });
+
+    expect(extract(text).map(item => item.name)).toEqual(['Push Day']);
+  });
+
+  it('stops at the end of the workouts array', () => {
+    const extract = createWorkoutExtractor();
+    extract(JSON.stringify({ workouts: [workout('Pull Day', 1)] }).slice(0, -1));
+
+    expect(extract(', "extra": [{"name": "Not a workout"}]}')).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { WorkoutSchema, type Workout } from '@/lib/workoutPlan';
+import { cleanJsonContent } from '@/lib/llm/prompts';
+
+export type PlanStreamEvent =
+  | { type: 'workout'; workout: Workout }
+  | { type: 'repair'; attempt: number; issues: string[] }
+  | { type: 'saving' }
+  | { type: 'complete'; plan: { id: string; description: string; difficulty: string; workouts: number } }
+  | { type: 'error'; error: string; status: number; details?: string[] };
+
+const encoder = new TextEncoder();
+
+export const encodePlanEvent = (event: PlanStreamEvent): Uint8Array =>
+  encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+export async function readPlanEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: PlanStreamEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter(line => line.startsWith('data: '))
+        .map(line => line.slice(6))
+        .join('\n');
+      if (data) onEvent(JSON.parse(data) as PlanStreamEvent);
+    }
+  }
+}
+
+export function createWorkoutExtractor() {
+  let buffer = '';
+  let arrayStart = -1;
+  let cursor = 0;
+  let depth = 0;
+  let objectStart = -1;
+  let inString = false;
+  let escaped = false;
+  let finished = false;
+
+  return (chunk: string): Workout[] => {
+    buffer += chunk;
+    const completed: Workout[] = [];
+    if (finished) return completed;
+
+    if (arrayStart === -1) {
+      const match = /"workouts"\s*:\s*\[/.exec(buffer);
+      if (!match) return completed;
+      arrayStart = match.index + match[0].length;
+      cursor = arrayStart;
+    }
+
+    for (; cursor < buffer.length; cursor++) {
+      const char = buffer[cursor];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === ']' && depth === 0) {
+        finished = true;
+        break;
+      } else if (char === '{') {
+        if (depth === 0) objectStart = cursor;
+        depth++;
+      } else if (char === '}') {
+        depth--;
+        if (depth === 0 && objectStart !== -1) {
+          try {
+            const result = WorkoutSchema.safeParse(JSON.parse(cleanJsonContent(buffer.slice(objectStart, cursor + 1))));
+            if (result.success) completed.push(result.data);
+          } catch {
+            // Malformed workouts are reported by the full-plan validation once the stream ends.
+          }
+          objectStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  };
+}
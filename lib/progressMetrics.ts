@@ -0,0 +1,89 @@
+import type { Database } from '@/types/supabase';
+import { getUnitLabel, toCanonicalValue, toDisplayUnit, toDisplayValue, type Quantity, type UnitSystem } from '@/lib/units';
+
+type ProgressMetricRow = Database['public']['Tables']['progress_metrics']['Row'];
+
+export type MetricKey = keyof Pick<
+  ProgressMetricRow,
+  | 'weight'
+  | 'body_fat_percentage'
+  | 'chest_cm'
+  | 'waist_cm'
+  | 'hips_cm'
+  | 'biceps_cm'
+  | 'thighs_cm'
+  | 'energy_level'
+  | 'sleep_hours'
+>;
+
+export interface MetricField {
+  key: MetricKey;
+  label: string;
+  unit: string;
+  step: number;
+  min: number;
+  max: number;
+  quantity?: Quantity;
+}
+
+export const METRIC_FIELDS: MetricField[] = [
+  { key: 'weight', label: 'Weight', unit: 'kg', step: 0.1, min: 20, max: 400, quantity: 'weight' },
+  { key: 'body_fat_percentage', label: 'Body Fat', unit: '%', step: 0.1, min: 2, max: 70 },
+  { key: 'chest_cm', label: 'Chest', unit: 'cm', step: 0.1, min: 30, max: 250, quantity: 'length' },
+  { key: 'waist_cm', label: 'Waist', unit: 'cm', step: 0.1, min: 30, max: 250, quantity: 'length' },
+  { key: 'hips_cm', label: 'Hips', unit: 'cm', step: 0.1, min: 30, max: 250, quantity: 'length' },
+  { key: 'biceps_cm', label: 'Biceps', unit: 'cm', step: 0.1, min: 10, max: 100, quantity: 'length' },
+  { key: 'thighs_cm', label: 'Thighs', unit: 'cm', step: 0.1, min: 20, max: 150, quantity: 'length' },
+  { key: 'energy_level', label: 'Energy Level', unit: '/10', step: 1, min: 1, max: 10 },
+  { key: 'sleep_hours', label: 'Sleep', unit: 'h', step: 0.5, min: 0, max: 24 }
+];
+
+export const validateMetricValue = (field: MetricField, value: number | null): string | null => {
+  if (value === null) return null;
+  if (Number.isNaN(value)) return `${field.label} must be a number`;
+  if (value < field.min || value > field.max) {
+    return `${field.label} must be between ${field.min} and ${field.max} ${field.unit}`.trim();
+  }
+  return null;
+};
+
+// Bounds and labels for a field in the user's units. Bounds are widened to
+// whole numbers so a converted limit never rejects the canonical one.
+export const localizeMetricField = (field: MetricField, unitSystem: UnitSystem): MetricField =>
+  field.quantity
+    ? {
+        ...field,
+        unit: getUnitLabel(field.quantity, unitSystem),
+        min: Math.floor(toDisplayUnit(field.min, field.quantity, unitSystem)),
+        max: Math.ceil(toDisplayUnit(field.max, field.quantity, unitSystem))
+      }
+    : field;
+
+export const getMetricFields = (unitSystem: UnitSystem): MetricField[] =>
+  METRIC_FIELDS.map(field => localizeMetricField(field, unitSystem));
+
+export const toDisplayMetrics = <T extends Partial<Record<MetricKey, number | null>>>(metric: T, unitSystem: UnitSystem): T => ({
+  ...metric,
+  ...Object.fromEntries(
+    METRIC_FIELDS
+      .filter(field => field.quantity && metric[field.key] != null)
+      .map(field => [field.key, toDisplayValue(metric[field.key] as number, field.quantity as Quantity, unitSystem)])
+  )
+});
+
+// Values the user left untouched while editing keep their stored value rather
+// than picking up conversion rounding.
+export const toCanonicalMetrics = (
+  values: Record<MetricKey, number | null>,
+  unitSystem: UnitSystem,
+  previous?: Partial<Record<MetricKey, number | null>>
+): Record<MetricKey, number | null> =>
+  Object.fromEntries(
+    METRIC_FIELDS.map(field => {
+      const value = values[field.key];
+      const stored = previous?.[field.key];
+      if (!field.quantity) return [field.key, value];
+      if (stored != null && value === toDisplayUnit(stored, field.quantity, unitSystem)) return [field.key, stored];
+      return [field.key, toCanonicalValue(value, field.quantity, unitSystem)];
+    })
+  ) as Record<MetricKey, number | null>;
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildProgression,
+  formatProgressionNote,
+  getPlanWeek,
+  getWeeklyPrescription,
+  selectProgressionScheme,
+  type PerformanceEntry,
+  type ProgressionExercise
+} from '@/lib/progression';
+import { estimateOneRepMax } from '@/lib/personalRecords';
+
+const plan = { createdAt: '2026-10-05T08:00:00Z', durationWeeks: 6 };
+
+// Day N of the plan (1-based), at the same time of day it was created.
+const day = (n: number): Date => new Date(Date.parse(plan.createdAt) + (n - 1) * 24 * 60 * 60 * 1000);
+
+const session = (n: number, sets: number, reps: number, weight: number | null): PerformanceEntry => ({
+  completedAt: day(n).toISOString(),
+  setsCompleted: sets,
+  repsCompleted: reps,
+  weightUsed: weight
+});
+
+const bench: ProgressionExercise = {
+  sets: 3,
+  reps: 5,
+  weight: 60,
+  exercise_type: 'strength',
+  primary_muscles: ['chest']
+};
+
+describe('getPlanWeek', () => {
+  it('counts whole weeks from the plan start', () => {
+    expect(getPlanWeek(plan, day(1))).toBe(1);
+    expect(getPlanWeek(plan, day(7))).toBe(1);
+    expect(getPlanWeek(plan, day(8))).toBe(2);
+    expect(getPlanWeek(plan, day(22))).toBe(4);
+  });
+
+  it('clamps dates outside the plan to its first and last week', () => {
+    expect(getPlanWeek(plan, day(-10))).toBe(1);
+    expect(getPlanWeek(plan, day(100))).toBe(6);
+  });
+});
+
+describe('selectProgressionScheme', () => {
+  it.each([
+    ['powerlifting', 'percentage'],
+    ['strength', 'linear'],
+    ['crossfit', 'linear'],
+    ['isolation', 'double_progression'],
+    ['bodyweight', 'double_progression']
+  ] as const)('uses %s -> %s', (type, scheme) => {
+    expect(selectProgressionScheme(type)).toBe(scheme);
+  });
+});
+
+describe('buildProgression', () => {
+  it('adds weight after a completed week and holds it after a missed one', () => {
+    const history = [session(2, 3, 5, 60)];
+    const weights = buildProgression(bench, history, plan, day(15)).map(week => week.weight);
+
+    // Week 1 met, week 2 missed, week 3 onwards is projected as successful.
+    expect(weights).toEqual([60, 62.5, 62.5, 65, 67.5, 70]);
+  });
+
+  it('uses the larger increment for lower-body lifts', () => {
+    const squat = { ...bench, weight: 100, primary_muscles: ['quadriceps' as const] };
+    expect(buildProgression(squat, [], plan, day(1)).slice(0, 3).map(week => week.weight)).toEqual([100, 105, 110]);
+  });
+
+  it('deloads after two missed weeks in a row', () => {
+    const prescriptions = buildProgression(bench, [], plan, day(15));
+    expect(prescriptions[2].weight).toBe(53.75);
+  });
+
+  it('does not count a session that fell short of the target', () => {
+    const history = [session(2, 2, 5, 60), session(2, 1, 3, 60)];
+    expect(buildProgression(bench, history, plan, day(8))[1].weight).toBe(60);
+  });
+
+  it('climbs the rep range before adding weight for double progression', () => {
+    const curl = { ...bench, reps: 10, weight: 12.5, exercise_type: 'isolation' as const, primary_muscles: ['biceps' as const] };
+    const weeks = buildProgression(curl, [], plan, day(1));
+
+    expect(weeks.map(week => week.reps)).toEqual([10, 11, 12, 13, 14, 10]);
+    expect(weeks[5].weight).toBe(15);
+    expect(weeks[0].note).toEqual({ kind: 'reps_then_weight', topOfRange: 14, increment: 2.5 });
+  });
+
+  it('adds a set at the top of the rep range for bodyweight exercises', () => {
+    const pushUp = { sets: 3, reps: 10, weight: null, exercise_type: 'bodyweight' as const, primary_muscles: ['chest' as const] };
+    const weeks = buildProgression(pushUp, [], plan, day(1));
+
+    expect(weeks[5]).toMatchObject({ sets: 4, reps: 10, weight: null });
+    expect(weeks[0].note).toEqual({ kind: 'reps_then_set', topOfRange: 14 });
+  });
+
+  it('runs a percentage wave off a training max with a deload every fourth week', () => {
+    const deadlift = { ...bench, weight: 100, exercise_type: 'powerlifting' as const, primary_muscles: ['hamstrings' as const] };
+    const weeks = buildProgression(deadlift, [], plan, day(1));
+    const trainingMax = estimateOneRepMax(100, 5) * 0.9;
+
+    expect(weeks[0]).toMatchObject({ scheme: 'percentage', reps: 5, weight: Math.round((trainingMax * 0.7) / 2.5) * 2.5 });
+    expect(weeks[3]).toMatchObject({ isDeload: true, note: { kind: 'deload' } });
+    // The training max rises by the increment once the four-week wave ends.
+    expect(weeks[4].weight).toBe(Math.round(((trainingMax + 5) * 0.7) / 2.5) * 2.5);
+  });
+
+  it('starts from the first logged weight when the plan has none', () => {
+    const row = { ...bench, weight: null };
+    expect(buildProgression(row, [session(3, 3, 5, 40)], plan, day(8))[1].weight).toBe(42.5);
+  });
+});
+
+describe('getWeeklyPrescription', () => {
+  it('returns the prescription for the current plan week', () => {
+    expect(getWeeklyPrescription(bench, [], plan, day(9)).week).toBe(2);
+  });
+});
+
+describe('formatProgressionNote', () => {
+  it('shows increments in the user’s units', () => {
+    expect(formatProgressionNote({ kind: 'add_weight', increment: 2.5 })).toContain('2.5 kg');
+    expect(formatProgressionNote({ kind: 'add_weight', increment: 2.5 }, 'imperial')).toContain('5.5 lb');
+    expect(formatProgressionNote({ kind: 'percentage', percentage: 0.775 })).toBe('78% of your training max');
+  });
+});
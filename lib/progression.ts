@@ -0,0 +1,339 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import type { MuscleGroup, WorkoutType } from '@/lib/workoutPlan';
+import { estimateOneRepMax } from '@/lib/personalRecords';
+import { DEFAULT_UNIT_SYSTEM, formatWeight, type UnitSystem } from '@/lib/units';
+
+type ExerciseRow = Database['public']['Tables']['exercises']['Row'];
+
+export type ProgressionScheme = 'linear' | 'double_progression' | 'percentage';
+
+export type ProgressionExercise = Pick<ExerciseRow, 'sets' | 'reps' | 'weight' | 'exercise_type' | 'primary_muscles'>;
+
+export interface PerformanceEntry {
+  completedAt: string;
+  setsCompleted: number;
+  repsCompleted: number;
+  weightUsed: number | null;
+}
+
+// Notes are kept structured and formatted on display, so increments follow
+// the user's unit system.
+export type ProgressionNote =
+  | { kind: 'deload' }
+  | { kind: 'percentage'; percentage: number }
+  | { kind: 'reps_then_set'; topOfRange: number }
+  | { kind: 'pick_weight'; reps: number }
+  | { kind: 'add_weight'; increment: number }
+  | { kind: 'reps_then_weight'; topOfRange: number; increment: number };
+
+export interface WeeklyPrescription {
+  week: number;
+  scheme: ProgressionScheme;
+  sets: number;
+  reps: number;
+  weight: number | null;
+  isDeload: boolean;
+  note: ProgressionNote;
+}
+
+interface PlanTiming {
+  createdAt: string;
+  durationWeeks: number;
+}
+
+interface ProgressionState {
+  sets: number;
+  reps: number;
+  weight: number | null;
+  trainingMax: number | null;
+  failures: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REP_RANGE = 4;
+const MAX_EXTRA_SETS = 2;
+const DELOAD_AFTER_FAILURES = 2;
+const DELOAD_FACTOR = 0.9;
+const TRAINING_MAX_FACTOR = 0.9;
+const LOWER_BODY_MUSCLES: MuscleGroup[] = ['quadriceps', 'hamstrings', 'glutes', 'lower_back'];
+
+const PERCENTAGE_WAVE = [
+  { percentage: 0.7, reps: 5 },
+  { percentage: 0.775, reps: 3 },
+  { percentage: 0.85, reps: 2 },
+  { percentage: 0.6, reps: 5, deload: true }
+];
+
+export const selectProgressionScheme = (exerciseType: WorkoutType): ProgressionScheme => {
+  switch (exerciseType) {
+    case 'powerlifting':
+      return 'percentage';
+    case 'strength':
+    case 'crossfit':
+      return 'linear';
+    default:
+      return 'double_progression';
+  }
+};
+
+const getIncrement = (exercise: ProgressionExercise): number =>
+  exercise.primary_muscles.some(muscle => LOWER_BODY_MUSCLES.includes(muscle)) ? 5 : 2.5;
+
+const roundWeight = (weight: number, step: number = 1.25): number => Math.round(weight / step) * step;
+
+export const getPlanWeek = (plan: PlanTiming, date: Date | string = new Date()): number => {
+  const elapsedDays = Math.floor((new Date(date).getTime() - new Date(plan.createdAt).getTime()) / DAY_MS);
+  return Math.min(Math.max(Math.floor(elapsedDays / 7) + 1, 1), plan.durationWeeks);
+};
+
+const groupByWeek = (history: PerformanceEntry[], plan: PlanTiming): Map<number, PerformanceEntry[]> => {
+  const weeks = new Map<number, PerformanceEntry[]>();
+  for (const entry of history) {
+    const week = getPlanWeek(plan, entry.completedAt);
+    weeks.set(week, [...(weeks.get(week) ?? []), entry]);
+  }
+  return weeks;
+};
+
+const lastSession = (entries: PerformanceEntry[]): PerformanceEntry[] => {
+  const latest = entries.reduce((max, entry) => (entry.completedAt > max ? entry.completedAt : max), '');
+  return entries.filter(entry => entry.completedAt === latest);
+};
+
+const firstSession = (entries: PerformanceEntry[]): PerformanceEntry[] => {
+  const earliest = entries.reduce((min, entry) => (!min || entry.completedAt < min ? entry.completedAt : min), '');
+  return entries.filter(entry => entry.completedAt === earliest);
+};
+
+const topWeight = (session: PerformanceEntry[]): number | null => {
+  const weights = session.map(entry => entry.weightUsed).filter((weight): weight is number => weight !== null);
+  return weights.length ? Math.max(...weights) : null;
+};
+
+const bestOneRepMax = (session: PerformanceEntry[]): number | null => {
+  const estimates = session
+    .filter(entry => entry.weightUsed !== null)
+    .map(entry => estimateOneRepMax(entry.weightUsed as number, entry.repsCompleted));
+  return estimates.length ? Math.max(...estimates) : null;
+};
+
+const metTarget = (session: PerformanceEntry[], target: WeeklyPrescription): boolean => {
+  const qualifyingSets = session
+    .filter(entry => entry.repsCompleted >= target.reps)
+    .filter(entry => target.weight === null || (entry.weightUsed ?? 0) >= target.weight)
+    .reduce((total, entry) => total + entry.setsCompleted, 0);
+  return qualifyingSets >= target.sets;
+};
+
+const prescribe = (
+  scheme: ProgressionScheme,
+  state: ProgressionState,
+  exercise: ProgressionExercise,
+  week: number
+): WeeklyPrescription => {
+  if (scheme === 'percentage' && state.trainingMax !== null) {
+    const wave = PERCENTAGE_WAVE[(week - 1) % PERCENTAGE_WAVE.length];
+    return {
+      week,
+      scheme,
+      sets: state.sets,
+      reps: wave.reps,
+      weight: roundWeight(state.trainingMax * wave.percentage, 2.5),
+      isDeload: wave.deload ?? false,
+      note: wave.deload ? { kind: 'deload' } : { kind: 'percentage', percentage: wave.percentage }
+    };
+  }
+
+  const effectiveScheme = scheme === 'percentage' ? 'double_progression' : scheme;
+  const topOfRange = exercise.reps + REP_RANGE;
+  const note: ProgressionNote = state.weight === null
+    ? exercise.exercise_type === 'bodyweight'
+      ? { kind: 'reps_then_set', topOfRange }
+      : { kind: 'pick_weight', reps: state.reps }
+    : effectiveScheme === 'linear'
+      ? { kind: 'add_weight', increment: getIncrement(exercise) }
+      : { kind: 'reps_then_weight', topOfRange, increment: getIncrement(exercise) };
+
+  return {
+    week,
+    scheme: effectiveScheme,
+    sets: state.sets,
+    reps: state.reps,
+    weight: state.weight === null ? null : roundWeight(state.weight),
+    isDeload: false,
+    note
+  };
+};
+
+const advance = (
+  scheme: ProgressionScheme,
+  state: ProgressionState,
+  exercise: ProgressionExercise,
+  success: boolean,
+  week: number
+): ProgressionState => {
+  const increment = getIncrement(exercise);
+
+  if (scheme === 'percentage' && state.trainingMax !== null) {
+    const cycleEnded = week % PERCENTAGE_WAVE.length === 0;
+    return { ...state, trainingMax: cycleEnded ? state.trainingMax + increment : state.trainingMax };
+  }
+
+  if (!success) {
+    const failures = state.failures + 1;
+    if (failures >= DELOAD_AFTER_FAILURES && state.weight !== null) {
+      return { ...state, weight: state.weight * DELOAD_FACTOR, failures: 0 };
+    }
+    return { ...state, failures };
+  }
+
+  const topOfRange = exercise.reps + REP_RANGE;
+
+  if (scheme === 'linear') {
+    return state.weight === null
+      ? { ...state, reps: Math.min(state.reps + 1, topOfRange), failures: 0 }
+      : { ...state, weight: state.weight + increment, failures: 0 };
+  }
+
+  if (state.reps < topOfRange) {
+    return { ...state, reps: state.reps + 1, failures: 0 };
+  }
+
+  if (state.weight === null) {
+    return {
+      ...state,
+      reps: exercise.reps,
+      sets: Math.min(state.sets + 1, exercise.sets + MAX_EXTRA_SETS),
+      failures: 0
+    };
+  }
+
+  return { ...state, reps: exercise.reps, weight: state.weight + increment, failures: 0 };
+};
+
+export function buildProgression(
+  exercise: ProgressionExercise,
+  history: PerformanceEntry[],
+  plan: PlanTiming,
+  today: Date = new Date()
+): WeeklyPrescription[] {
+  const scheme = selectProgressionScheme(exercise.exercise_type);
+  const currentWeek = getPlanWeek(plan, today);
+  const sessionsByWeek = groupByWeek(history, plan);
+  const firstLoggedWeight = topWeight(firstSession(history));
+
+  let state: ProgressionState = {
+    sets: exercise.sets,
+    reps: exercise.reps,
+    weight: exercise.weight ?? firstLoggedWeight,
+    trainingMax: null,
+    failures: 0
+  };
+
+  if (scheme === 'percentage') {
+    const baseline = exercise.weight !== null
+      ? estimateOneRepMax(exercise.weight, exercise.reps)
+      : bestOneRepMax(history);
+    state.trainingMax = baseline === null ? null : baseline * TRAINING_MAX_FACTOR;
+  }
+
+  const prescriptions: WeeklyPrescription[] = [];
+
+  for (let week = 1; week <= plan.durationWeeks; week++) {
+    const target = prescribe(scheme, state, exercise, week);
+    prescriptions.push(target);
+
+    const entries = sessionsByWeek.get(week);
+    let success = week >= currentWeek;
+
+    if (entries?.length) {
+      const session = lastSession(entries);
+      success = metTarget(session, target);
+
+      if (state.weight === null) state = { ...state, weight: topWeight(session) };
+      if (scheme === 'percentage') {
+        const sessionMax = bestOneRepMax(session);
+        if (sessionMax !== null) {
+          const candidate = sessionMax * TRAINING_MAX_FACTOR;
+          state = { ...state, trainingMax: Math.max(state.trainingMax ?? 0, candidate) };
+        }
+      }
+    }
+
+    state = advance(scheme, state, exercise, success, week);
+  }
+
+  return prescriptions;
+}
+
+export const getWeeklyPrescription = (
+  exercise: ProgressionExercise,
+  history: PerformanceEntry[],
+  plan: PlanTiming,
+  today: Date = new Date()
+): WeeklyPrescription => buildProgression(exercise, history, plan, today)[getPlanWeek(plan, today) - 1];
+
+export const formatPrescription = (prescription: WeeklyPrescription, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  `${prescription.sets} × ${prescription.reps}${prescription.weight !== null ? ` @ ${formatWeight(prescription.weight, unitSystem)}` : ''}`;
+
+export const formatProgressionNote = (note: ProgressionNote, unitSystem: UnitSystem = DEFAULT_UNIT_SYSTEM): string => {
+  switch (note.kind) {
+    case 'deload':
+      return 'Deload week: keep the bar speed high';
+    case 'percentage':
+      return `${Math.round(note.percentage * 100)}% of your training max`;
+    case 'reps_then_set':
+      return `Add a rep each week up to ${note.topOfRange}, then add a set`;
+    case 'pick_weight':
+      return `Pick a weight you can lift for ${note.reps} clean reps`;
+    case 'add_weight':
+      return `Add ${formatWeight(note.increment, unitSystem)} next week once every set is complete`;
+    case 'reps_then_weight':
+      return `Add a rep each week up to ${note.topOfRange}, then add ${formatWeight(note.increment, unitSystem)}`;
+  }
+};
+
+export async function fetchExerciseHistory(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  exerciseIds: string[],
+  since: string
+): Promise<Record<string, PerformanceEntry[]>> {
+  if (exerciseIds.length === 0) return {};
+
+  const { data: exerciseLogs, error } = await supabase
+    .from('exercise_logs')
+    .select('exercise_id, sets_completed, reps_completed, weight_used, workout_logs!inner(user_id, completed_at)')
+    .eq('workout_logs.user_id', userId)
+    .gte('workout_logs.completed_at', since)
+    .in('exercise_id', exerciseIds);
+
+  if (error) throw error;
+
+  return (exerciseLogs ?? []).reduce<Record<string, PerformanceEntry[]>>((history, log) => {
+    const entry: PerformanceEntry = {
+      completedAt: log.workout_logs.completed_at,
+      setsCompleted: log.sets_completed,
+      repsCompleted: log.reps_completed,
+      weightUsed: log.weight_used
+    };
+    history[log.exercise_id] = [...(history[log.exercise_id] ?? []), entry];
+    return history;
+  }, {});
+}
+
+export async function fetchPlanPrescriptions(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  plan: { created_at: string; duration_weeks: number; workouts: { exercises?: (ProgressionExercise & { id: string })[] }[] },
+  today: Date = new Date()
+): Promise<Record<string, WeeklyPrescription>> {
+  const exercises = plan.workouts.flatMap(workout => workout.exercises ?? []);
+  const history = await fetchExerciseHistory(supabase, userId, exercises.map(exercise => exercise.id), plan.created_at);
+  const timing = { createdAt: plan.created_at, durationWeeks: plan.duration_weeks };
+
+  return Object.fromEntries(
+    exercises.map(exercise => [exercise.id, getWeeklyPrescription(exercise, history[exercise.id] ?? [], timing, today)])
+  );
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import {
+  WEEKDAYS,
+  getDateWeekday,
+  getDefaultRestDays,
+  getDefaultTrainingDays,
+  getIsoWeekday,
+  getTodaySchedule,
+  type Weekday
+} from '@/lib/schedule';
+
+// 2026-10-12 is a Monday, so day N of that week is 2026-10-(11 + N).
+const WEEK: [string, Weekday][] = WEEKDAYS.map(day => [`2026-10-${11 + day}`, day]);
+
+const plan = {
+  rest_days: [3, 7],
+  workouts: [
+    { id: 'push', day_of_week: 1 },
+    { id: 'pull', day_of_week: 2 },
+    { id: 'legs', day_of_week: 4 },
+    { id: 'upper', day_of_week: 5 },
+    { id: 'lower', day_of_week: 6 }
+  ]
+};
+
+describe('getDateWeekday', () => {
+  it.each(WEEK)('maps %s to ISO weekday %i', (date, weekday) => {
+    expect(getDateWeekday(date)).toBe(weekday);
+  });
+
+  it('maps Sunday to 7 rather than 0', () => {
+    expect(getDateWeekday('2026-10-18')).toBe(7);
+  });
+});
+
+describe('getIsoWeekday', () => {
+  it.each(WEEK)('maps noon UTC on %s to ISO weekday %i', (date, weekday) => {
+    expect(getIsoWeekday(new Date(`${date}T12:00:00Z`), 'UTC')).toBe(weekday);
+  });
+
+  it('uses the calendar day of the given time zone near midnight', () => {
+    // Sunday 23:30 UTC is already Monday morning in Tokyo...
+    expect(getIsoWeekday(new Date('2026-10-18T23:30:00Z'), 'UTC')).toBe(7);
+    expect(getIsoWeekday(new Date('2026-10-18T23:30:00Z'), 'Asia/Tokyo')).toBe(1);
+    // ...and Monday 05:30 UTC is still Sunday evening in Los Angeles.
+    expect(getIsoWeekday(new Date('2026-10-19T05:30:00Z'), 'America/Los_Angeles')).toBe(7);
+  });
+});
+
+describe('getTodaySchedule', () => {
+  it.each(WEEK)('returns the schedule for %s (weekday %i)', (date, weekday) => {
+    const schedule = getTodaySchedule(plan, new Date(`${date}T12:00:00Z`), 'UTC');
+
+    expect(schedule.date).toBe(date);
+    expect(schedule.weekday).toBe(weekday);
+    expect(schedule.isRestDay).toBe(plan.rest_days.includes(weekday));
+    expect(schedule.workout).toEqual(plan.workouts.find(workout => workout.day_of_week === weekday) ?? null);
+  });
+
+  it('treats Sunday as day 7 of the plan', () => {
+    const sundayPlan = { rest_days: [], workouts: [{ id: 'long-run', day_of_week: 7 }] };
+    const schedule = getTodaySchedule(sundayPlan, new Date('2026-10-18T12:00:00Z'), 'UTC');
+
+    expect(schedule.weekday).toBe(7);
+    expect(schedule.workout?.id).toBe('long-run');
+  });
+
+  it('picks the workout for the local day near midnight in a non-UTC time zone', () => {
+    const schedule = getTodaySchedule(plan, new Date('2026-10-18T23:30:00Z'), 'Asia/Tokyo');
+
+    expect(schedule).toEqual({ date: '2026-10-19', weekday: 1, isRestDay: false, workout: plan.workouts[0] });
+  });
+
+  it('returns an empty schedule without a plan', () => {
+    expect(getTodaySchedule(null, new Date('2026-10-14T12:00:00Z'), 'UTC')).toEqual({
+      date: '2026-10-14',
+      weekday: 3,
+      isRestDay: false,
+      workout: null
+    });
+  });
+});
+
+describe('getDefaultTrainingDays', () => {
+  it.each([
+    [1, [1]],
+    [2, [1, 4]],
+    [3, [1, 3, 5]],
+    [4, [1, 2, 4, 6]],
+    [5, [1, 2, 3, 5, 6]],
+    [6, [1, 2, 3, 4, 5, 6]],
+    [7, [1, 2, 3, 4, 5, 6, 7]]
+  ])('spreads %i training days across the week', (daysPerWeek, expected) => {
+    expect(getDefaultTrainingDays(daysPerWeek)).toEqual(expected);
+  });
+
+  it('clamps and rounds out-of-range input', () => {
+    expect(getDefaultTrainingDays(0)).toEqual([1]);
+    expect(getDefaultTrainingDays(10)).toEqual([...WEEKDAYS]);
+    expect(getDefaultTrainingDays(2.6)).toEqual([1, 3, 5]);
+  });
+
+  it('leaves the remaining days as rest days', () => {
+    expect(getDefaultRestDays(3)).toEqual([2, 4, 6, 7]);
+  });
+});
@@ -0,0 +1,150 @@
+// Weekdays follow ISO 8601 everywhere in the app and in the database:
+// 1 = Monday ... 7 = Sunday.
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 7] as const;
+
+export type Weekday = typeof WEEKDAYS[number];
+
+export const WEEKDAY_NAMES: Record<Weekday, string> = {
+  1: 'Monday',
+  2: 'Tuesday',
+  3: 'Wednesday',
+  4: 'Thursday',
+  5: 'Friday',
+  6: 'Saturday',
+  7: 'Sunday'
+};
+
+const SHORT_WEEKDAYS: Record<string, Weekday> = {
+  Mon: 1,
+  Tue: 2,
+  Wed: 3,
+  Thu: 4,
+  Fri: 5,
+  Sat: 6,
+  Sun: 7
+};
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: Weekday;
+}
+
+export interface ScheduledPlan<W extends { day_of_week: number }> {
+  rest_days: number[] | null;
+  workouts?: W[] | null;
+}
+
+export interface TodaySchedule<W> {
+  date: string;
+  weekday: Weekday;
+  isRestDay: boolean;
+  workout: W | null;
+}
+
+export const isWeekday = (value: unknown): value is Weekday =>
+  typeof value === 'number' && (WEEKDAYS as readonly number[]).includes(value);
+
+export const getWeekdayName = (day: number, format: 'long' | 'short' = 'long'): string => {
+  if (!isWeekday(day)) return `Day ${day}`;
+  return format === 'short' ? WEEKDAY_NAMES[day].slice(0, 3) : WEEKDAY_NAMES[day];
+};
+
+export const getUserTimeZone = (): string => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+};
+
+const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'short',
+      hourCycle: 'h23'
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: SHORT_WEEKDAYS[parts.weekday]
+  };
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+export const getIsoWeekday = (date: Date = new Date(), timeZone: string = getUserTimeZone()): Weekday =>
+  getZonedParts(date, timeZone).weekday;
+
+export const getLocalDate = (date: Date = new Date(), timeZone: string = getUserTimeZone()): string => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+export const getStartOfDay = (date: Date = new Date(), timeZone: string = getUserTimeZone()): Date => {
+  const parts = getZonedParts(date, timeZone);
+  const zonedAsUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const offset = zonedAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day) - offset);
+};
+
+export const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+export const getDateWeekday = (date: string): Weekday => {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return (day === 0 ? 7 : day) as Weekday;
+};
+
+export const getWeekStart = (date: string): string => addDays(date, 1 - getDateWeekday(date));
+
+export const getRestDays = (trainingDays: number[]): Weekday[] =>
+  WEEKDAYS.filter(day => !trainingDays.includes(day));
+
+export const getTrainingDays = (restDays: number[]): Weekday[] =>
+  WEEKDAYS.filter(day => !restDays.includes(day));
+
+// Spreads training days across the week (3 days → Mon/Wed/Fri) so rest days
+// fall between sessions instead of bunching up at the start of the week.
+export const getDefaultTrainingDays = (daysPerWeek: number): Weekday[] => {
+  const count = Math.min(Math.max(Math.round(daysPerWeek), 1), WEEKDAYS.length);
+  return Array.from({ length: count }, (_, i) => WEEKDAYS[Math.floor((i * WEEKDAYS.length) / count)]);
+};
+
+export const getDefaultRestDays = (daysPerWeek: number): Weekday[] =>
+  getRestDays(getDefaultTrainingDays(daysPerWeek));
+
+export function getTodaySchedule<W extends { day_of_week: number }>(
+  plan: ScheduledPlan<W> | null | undefined,
+  date: Date = new Date(),
+  timeZone: string = getUserTimeZone()
+): TodaySchedule<W> {
+  const weekday = getIsoWeekday(date, timeZone);
+  const isRestDay = plan?.rest_days?.includes(weekday) ?? false;
+
+  return {
+    date: getLocalDate(date, timeZone),
+    weekday,
+    isRestDay,
+    workout: isRestDay ? null : plan?.workouts?.find(workout => workout.day_of_week === weekday) ?? null
+  };
+}
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeVolumeAnalytics,
+  findVolumeWarnings,
+  summarizeExerciseVolume,
+  summarizeLoggedVolume,
+  type MuscleSets,
+  type VolumeExercise,
+  type VolumeLogEntry,
+  type VolumePlan
+} from '@/lib/trainingVolume';
+
+const bench: VolumeExercise = {
+  id: 'bench',
+  sets: 3,
+  reps: 5,
+  weight: 60,
+  exercise_type: 'strength',
+  primary_muscles: ['chest'],
+  secondary_muscles: ['triceps', 'chest']
+};
+
+const run: VolumeExercise = {
+  id: 'run',
+  sets: 1,
+  reps: 1,
+  weight: null,
+  exercise_type: 'cardio',
+  primary_muscles: ['quadriceps'],
+  secondary_muscles: []
+};
+
+// Swapped out of the plan after being logged.
+const retiredRow: VolumeExercise = {
+  id: 'row',
+  sets: 3,
+  reps: 8,
+  weight: 50,
+  exercise_type: 'strength',
+  primary_muscles: ['back'],
+  secondary_muscles: ['biceps']
+};
+
+const log = (exercise: VolumeExercise, completedAt: string, sets: number, exerciseRow: VolumeExercise | null = null): VolumeLogEntry => ({
+  exerciseId: exercise.id,
+  exercise: exerciseRow,
+  completedAt,
+  sets,
+  reps: exercise.reps,
+  weight: exercise.weight
+});
+
+const muscleSets = (sets: Partial<MuscleSets>): MuscleSets => ({
+  ...summarizeExerciseVolume([]).muscleSets,
+  ...sets
+});
+
+describe('summarizeExerciseVolume', () => {
+  it('gives secondary muscles half credit and leaves conditioning out of hard sets', () => {
+    const totals = summarizeExerciseVolume([bench, run]);
+
+    expect(totals).toMatchObject({ tonnage: 900, totalReps: 16, hardSets: 3 });
+    expect(totals.muscleSets).toMatchObject({ chest: 3, triceps: 1.5, quadriceps: 0 });
+  });
+});
+
+describe('summarizeLoggedVolume', () => {
+  it('counts logs of exercises no longer in the plan', () => {
+    const totals = summarizeLoggedVolume(
+      [log(bench, '2026-10-06T10:00:00Z', 2), log(retiredRow, '2026-10-06T10:00:00Z', 3, retiredRow)],
+      [bench]
+    );
+
+    expect(totals).toMatchObject({ tonnage: 600 + 1200, hardSets: 5 });
+    expect(totals.muscleSets).toMatchObject({ chest: 2, back: 3, biceps: 1.5 });
+  });
+
+  it('skips logs whose exercise is unknown', () => {
+    expect(summarizeLoggedVolume([log(retiredRow, '2026-10-06T10:00:00Z', 3)], [bench]).hardSets).toBe(0);
+  });
+});
+
+describe('findVolumeWarnings', () => {
+  it('flags focus muscles outside the weekly set range', () => {
+    const planned = muscleSets({ chest: 8, back: 12, quadriceps: 22 });
+    const logged = muscleSets({ chest: 12, back: 4, quadriceps: 15 });
+
+    expect(findVolumeWarnings(['chest', 'back', 'quadriceps'], planned, logged)).toEqual([
+      { muscle: 'chest', level: 'under', source: 'plan', sets: 8 },
+      { muscle: 'back', level: 'under', source: 'logged', sets: 4 },
+      { muscle: 'quadriceps', level: 'over', source: 'plan', sets: 22 }
+    ]);
+  });
+
+  it('checks only the plan when there is no finished week', () => {
+    expect(findVolumeWarnings(['chest'], muscleSets({ chest: 15 }), null)).toEqual([]);
+  });
+});
+
+describe('computeVolumeAnalytics', () => {
+  const plan: VolumePlan = {
+    created_at: '2026-10-05T08:00:00Z',
+    duration_weeks: 4,
+    focus_muscles: ['chest'],
+    workouts: [{ id: 'w-1', exercises: [bench, run] }]
+  };
+
+  const entries = [
+    log(bench, '2026-10-06T10:00:00Z', 3),
+    log(bench, '2026-10-13T10:00:00Z', 2),
+    log(retiredRow, '2026-10-14T10:00:00Z', 3, retiredRow),
+    log(bench, '2026-10-20T10:00:00Z', 1)
+  ];
+
+  it('buckets logs into plan weeks up to the current one', () => {
+    const { weeks } = computeVolumeAnalytics(plan, entries, new Date('2026-10-20T12:00:00Z'));
+
+    expect(weeks.map(week => week.week)).toEqual([1, 2, 3]);
+    expect(weeks.map(week => week.actual.hardSets)).toEqual([3, 5, 1]);
+    expect(weeks[1].actual.muscleSets.back).toBe(3);
+    expect(weeks.every(week => week.planned.hardSets === 3)).toBe(true);
+  });
+
+  it('warns on the last finished week rather than the current one', () => {
+    const { warnings } = computeVolumeAnalytics(plan, entries, new Date('2026-10-20T12:00:00Z'));
+
+    expect(warnings).toEqual([
+      { muscle: 'chest', level: 'under', source: 'plan', sets: 3 },
+      { muscle: 'chest', level: 'under', source: 'logged', sets: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,200 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, MuscleGroup } from '@/types/supabase';
+import { VALID_MUSCLE_GROUPS } from '@/lib/workoutPlan';
+import { getPlanWeek } from '@/lib/progression';
+
+type ExerciseRow = Database['public']['Tables']['exercises']['Row'];
+
+export type VolumeExercise = Pick<
+  ExerciseRow,
+  'id' | 'sets' | 'reps' | 'weight' | 'exercise_type' | 'primary_muscles' | 'secondary_muscles'
+>;
+
+export interface VolumePlan {
+  created_at: string;
+  duration_weeks: number;
+  focus_muscles: MuscleGroup[] | null;
+  workouts: { id: string; exercises: VolumeExercise[] }[];
+}
+
+export interface VolumeLogEntry {
+  exerciseId: string;
+  // The logged exercise as stored, which may since have been retired.
+  exercise: VolumeExercise | null;
+  completedAt: string;
+  sets: number;
+  reps: number;
+  weight: number | null;
+}
+
+export type MuscleSets = Record<MuscleGroup, number>;
+
+export interface VolumeTotals {
+  tonnage: number;
+  totalReps: number;
+  hardSets: number;
+  muscleSets: MuscleSets;
+}
+
+export interface WeeklyVolume {
+  week: number;
+  planned: VolumeTotals;
+  actual: VolumeTotals;
+}
+
+export interface VolumeWarning {
+  muscle: MuscleGroup;
+  level: 'under' | 'over';
+  source: 'plan' | 'logged';
+  sets: number;
+}
+
+export interface VolumeAnalytics {
+  weeks: WeeklyVolume[];
+  warnings: VolumeWarning[];
+}
+
+// Secondary movers get half credit, so a bench press set counts as one chest
+// set and half a triceps set.
+export const SECONDARY_MUSCLE_WEIGHT = 0.5;
+
+// Weekly hard-set range a focus muscle should land in.
+export const FOCUS_SET_RANGE = { min: 10, max: 20 };
+
+const CONDITIONING_TYPES: ExerciseRow['exercise_type'][] = ['cardio', 'endurance'];
+
+const emptyMuscleSets = (): MuscleSets =>
+  Object.fromEntries(VALID_MUSCLE_GROUPS.map(muscle => [muscle, 0])) as MuscleSets;
+
+const emptyTotals = (): VolumeTotals => ({ tonnage: 0, totalReps: 0, hardSets: 0, muscleSets: emptyMuscleSets() });
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const addSets = (
+  totals: VolumeTotals,
+  exercise: VolumeExercise,
+  sets: number,
+  reps: number,
+  weight: number | null
+): void => {
+  totals.totalReps += sets * reps;
+  totals.tonnage += sets * reps * (weight ?? 0);
+
+  if (CONDITIONING_TYPES.includes(exercise.exercise_type)) return;
+
+  totals.hardSets += sets;
+  exercise.primary_muscles.forEach(muscle => { totals.muscleSets[muscle] += sets; });
+  exercise.secondary_muscles
+    .filter(muscle => !exercise.primary_muscles.includes(muscle))
+    .forEach(muscle => { totals.muscleSets[muscle] += sets * SECONDARY_MUSCLE_WEIGHT; });
+};
+
+const finalize = (totals: VolumeTotals): VolumeTotals => ({
+  tonnage: round(totals.tonnage),
+  totalReps: totals.totalReps,
+  hardSets: totals.hardSets,
+  muscleSets: Object.fromEntries(
+    Object.entries(totals.muscleSets).map(([muscle, sets]) => [muscle, round(sets)])
+  ) as MuscleSets
+});
+
+export const summarizeExerciseVolume = (exercises: VolumeExercise[]): VolumeTotals => {
+  const totals = emptyTotals();
+  exercises.forEach(exercise => addSets(totals, exercise, exercise.sets, exercise.reps, exercise.weight));
+  return finalize(totals);
+};
+
+// Logs of swapped or retired exercises still count, using the exercise they
+// were logged against rather than only the plan's current exercises.
+export const summarizeLoggedVolume = (entries: VolumeLogEntry[], exercises: VolumeExercise[]): VolumeTotals => {
+  const logged = entries.flatMap(entry => (entry.exercise ? [entry.exercise] : []));
+  const exerciseById = new Map([...logged, ...exercises].map(exercise => [exercise.id, exercise]));
+  const totals = emptyTotals();
+
+  for (const entry of entries) {
+    const exercise = exerciseById.get(entry.exerciseId);
+    if (exercise) addSets(totals, exercise, entry.sets, entry.reps, entry.weight);
+  }
+
+  return finalize(totals);
+};
+
+export const findVolumeWarnings = (
+  focusMuscles: MuscleGroup[],
+  planned: MuscleSets,
+  logged: MuscleSets | null
+): VolumeWarning[] =>
+  focusMuscles.flatMap(muscle => {
+    const checks: [VolumeWarning['source'], number][] = [['plan', planned[muscle]]];
+    if (logged) checks.push(['logged', logged[muscle]]);
+
+    return checks.flatMap(([source, sets]): VolumeWarning[] => {
+      if (sets < FOCUS_SET_RANGE.min) return [{ muscle, level: 'under', source, sets }];
+      if (sets > FOCUS_SET_RANGE.max) return [{ muscle, level: 'over', source, sets }];
+      return [];
+    });
+  });
+
+export const formatVolumeWarning = (warning: VolumeWarning): string => {
+  const muscle = warning.muscle.replace('_', ' ');
+  const subject = warning.source === 'plan' ? 'Your plan schedules' : 'Last week you logged';
+  const range = `${FOCUS_SET_RANGE.min}-${FOCUS_SET_RANGE.max}`;
+  return warning.level === 'under'
+    ? `${subject} only ${warning.sets} hard sets for ${muscle}, below the ${range} a focus muscle needs to grow.`
+    : `${subject} ${warning.sets} hard sets for ${muscle}, above the ${range} most lifters can recover from.`;
+};
+
+// The plan repeats the same week, so planned volume is identical for every
+// week; logged volume is bucketed by plan week. Warnings on logged volume use
+// the last finished week so a half-done current week doesn't look undertrained.
+export function computeVolumeAnalytics(
+  plan: VolumePlan,
+  entries: VolumeLogEntry[],
+  now: Date = new Date()
+): VolumeAnalytics {
+  const timing = { createdAt: plan.created_at, durationWeeks: plan.duration_weeks };
+  const exercises = plan.workouts.flatMap(workout => workout.exercises);
+  const planned = summarizeExerciseVolume(exercises);
+  const currentWeek = getPlanWeek(timing, now);
+
+  const weeks = Array.from({ length: currentWeek }, (_, i) => ({
+    week: i + 1,
+    planned,
+    actual: summarizeLoggedVolume(
+      entries.filter(entry => getPlanWeek(timing, entry.completedAt) === i + 1),
+      exercises
+    )
+  }));
+
+  const lastFinished = weeks.length > 1 ? weeks[weeks.length - 2] : null;
+
+  return {
+    weeks,
+    warnings: findVolumeWarnings(plan.focus_muscles ?? [], planned.muscleSets, lastFinished?.actual.muscleSets ?? null)
+  };
+}
+
+export async function fetchVolumeLogs(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workoutIds: string[]
+): Promise<VolumeLogEntry[]> {
+  if (!workoutIds.length) return [];
+
+  const { data: exerciseLogs, error } = await supabase
+    .from('exercise_logs')
+    .select('exercise_id, sets_completed, reps_completed, weight_used, workout_logs!inner(user_id, workout_id, completed_at), exercises(id, sets, reps, weight, exercise_type, primary_muscles, secondary_muscles)')
+    .eq('workout_logs.user_id', userId)
+    .in('workout_logs.workout_id', workoutIds);
+
+  if (error) throw error;
+
+  return (exerciseLogs ?? []).map(log => ({
+    exerciseId: log.exercise_id,
+    exercise: log.exercises,
+    completedAt: log.workout_logs.completed_at,
+    sets: log.sets_completed,
+    reps: log.reps_completed,
+    weight: log.weight_used
+  }));
+}
@@ -0,0 +1,70 @@
+// Weights are stored in kg, lengths in cm and distances in km everywhere. Values are converted
+// to the user's unit system only when they are shown or entered.
+export const UNIT_SYSTEMS = ['metric', 'imperial'] as const;
+
+export type UnitSystem = typeof UNIT_SYSTEMS[number];
+
+export type Quantity = 'weight' | 'length' | 'distance';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+const LB_PER_KG = 1 / 0.45359237;
+const IN_PER_CM = 1 / 2.54;
+const MI_PER_KM = 1 / 1.609344;
+
+const IMPERIAL_FACTORS: Record<Quantity, number> = {
+  weight: LB_PER_KG,
+  length: IN_PER_CM,
+  distance: MI_PER_KM
+};
+
+const UNIT_LABELS: Record<Quantity, Record<UnitSystem, string>> = {
+  weight: { metric: 'kg', imperial: 'lb' },
+  length: { metric: 'cm', imperial: 'in' },
+  distance: { metric: 'km', imperial: 'mi' }
+};
+
+export const UNIT_SYSTEM_LABELS: Record<UnitSystem, string> = {
+  metric: 'Metric (kg, cm, km)',
+  imperial: 'Imperial (lb, in, mi)'
+};
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export const isUnitSystem = (value: unknown): value is UnitSystem =>
+  typeof value === 'string' && (UNIT_SYSTEMS as readonly string[]).includes(value);
+
+export const getUnitLabel = (quantity: Quantity, system: UnitSystem): string => UNIT_LABELS[quantity][system];
+
+export const toDisplayUnit = (value: number, quantity: Quantity, system: UnitSystem): number =>
+  system === 'metric' ? value : round(value * IMPERIAL_FACTORS[quantity], 1);
+
+// Canonical values keep two decimals so that re-displaying an entered value
+// rounds back to exactly what the user typed.
+export const toCanonicalUnit = (value: number, quantity: Quantity, system: UnitSystem): number =>
+  system === 'metric' ? value : round(value / IMPERIAL_FACTORS[quantity], 2);
+
+export const toDisplayValue = (value: number | null, quantity: Quantity, system: UnitSystem): number | null =>
+  value === null ? null : toDisplayUnit(value, quantity, system);
+
+export const toCanonicalValue = (value: number | null, quantity: Quantity, system: UnitSystem): number | null =>
+  value === null ? null : toCanonicalUnit(value, quantity, system);
+
+export const formatQuantity = (value: number, quantity: Quantity, system: UnitSystem): string =>
+  `${toDisplayUnit(value, quantity, system).toLocaleString()} ${getUnitLabel(quantity, system)}`;
+
+export const formatWeight = (kg: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  formatQuantity(kg, 'weight', system);
+
+export const formatLength = (cm: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  formatQuantity(cm, 'length', system);
+
+export const formatDistance = (km: number, system: UnitSystem = DEFAULT_UNIT_SYSTEM): string =>
+  formatQuantity(km, 'distance', system);
+
+// Parses a form input typed in the user's units into a canonical value.
+export const parseDisplayInput = (input: string, quantity: Quantity, system: UnitSystem): number | null =>
+  input.trim() ? toCanonicalUnit(Number(input), quantity, system) : null;
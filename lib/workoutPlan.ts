@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { getRestDays, getWeekdayName } from '@/lib/schedule';
+
+export const VALID_MUSCLE_GROUPS = ['chest', 'back', 'shoulders', 'biceps', 'triceps', 'forearms', 'core', 'quadriceps', 'hamstrings', 'calves', 'glutes', 'traps', 'lats', 'lower_back'] as const;
+export const VALID_WORKOUT_TYPES = ['powerlifting', 'bodyweight', 'hiit', 'strength', 'cardio', 'crossfit', 'endurance', 'circuit', 'isolation'] as const;
+export const VALID_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+export const GOAL_TYPES = ['muscle_gain', 'fat_loss', 'strength', 'endurance', 'flexibility'] as const;
+export const EQUIPMENT_OPTIONS = ['dumbbells', 'barbell', 'bench', 'pull-up bar', 'kettlebells', 'resistance bands', 'cable machine', 'squat rack', 'cardio machine'] as const;
+
+export type MuscleGroup = typeof VALID_MUSCLE_GROUPS[number];
+export type WorkoutType = typeof VALID_WORKOUT_TYPES[number];
+export type Difficulty = typeof VALID_DIFFICULTIES[number];
+export type GoalType = typeof GOAL_TYPES[number];
+
+const normalizeEnumValue = (value: unknown) =>
+  typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : value;
+
+const muscleGroupSchema = z.preprocess(normalizeEnumValue, z.enum(VALID_MUSCLE_GROUPS));
+const workoutTypeSchema = z.preprocess(normalizeEnumValue, z.enum(VALID_WORKOUT_TYPES));
+const difficultySchema = z.preprocess(normalizeEnumValue, z.enum(VALID_DIFFICULTIES));
+const dayOfWeekSchema = z.number().int().min(1).max(7);
+
+export const ExerciseSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string(),
+  sets: z.number().int().min(1).max(20),
+  reps: z.number().int().min(1).max(100),
+  weight: z.number().min(0).nullable().optional(),
+  rest_duration: z.string().trim().min(1),
+  order_in_workout: z.number().int().min(1),
+  primary_muscles: z.array(muscleGroupSchema).min(1),
+  secondary_muscles: z.array(muscleGroupSchema),
+  equipment_needed: z.array(z.string()),
+  exercise_type: workoutTypeSchema
+});
+
+export const WorkoutSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string(),
+  day_of_week: dayOfWeekSchema,
+  estimated_duration: z.string().trim().min(1),
+  workout_type: workoutTypeSchema,
+  exercises: z.array(ExerciseSchema).min(1)
+});
+
+export const WorkoutPlanFieldsSchema = z.object({
+  description: z.string().trim().min(1),
+  difficulty: difficultySchema,
+  restDays: z.array(dayOfWeekSchema),
+  workouts: z.array(WorkoutSchema).min(1)
+});
+
+export const refinePlanSchedule = (
+  plan: { restDays: number[]; workouts: { day_of_week: number }[] },
+  ctx: z.RefinementCtx
+) => {
+  const seenDays = new Set<number>();
+  plan.workouts.forEach((workout, index) => {
+    if (seenDays.has(workout.day_of_week)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['workouts', index, 'day_of_week'],
+        message: `Day ${workout.day_of_week} already has a workout`
+      });
+    }
+    if (plan.restDays.includes(workout.day_of_week)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['workouts', index, 'day_of_week'],
+        message: `Day ${workout.day_of_week} is a rest day`
+      });
+    }
+    seenDays.add(workout.day_of_week);
+  });
+};
+
+export const WorkoutPlanSchema = WorkoutPlanFieldsSchema.superRefine(refinePlanSchedule);
+
+export type Exercise = z.infer<typeof ExerciseSchema>;
+export type Workout = z.infer<typeof WorkoutSchema>;
+export type WorkoutPlan = z.infer<typeof WorkoutPlanSchema>;
+
+export class PlanValidationError extends Error {
+  constructor(message: string, public readonly issues: string[]) {
+    super(message);
+    this.name = 'PlanValidationError';
+  }
+}
+
+const formatIssuePath = (path: PropertyKey[]): string =>
+  path.reduce<string>((result, key) => (
+    typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${String(key)}` : String(key)
+  ), '');
+
+export const formatPlanIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${formatIssuePath(issue.path) || 'plan'}: ${issue.message}`);
+
+export const parseWorkoutPlan = (content: string): WorkoutPlan => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : 'Unknown error';
+    throw new PlanValidationError('Invalid JSON structure', [`plan: Response is not valid JSON (${reason})`]);
+  }
+
+  const result = WorkoutPlanSchema.safeParse(json);
+  if (!result.success) {
+    throw new PlanValidationError('Generated plan failed validation', formatPlanIssues(result.error));
+  }
+  return result.data;
+};
+
+const BODYWEIGHT_EQUIPMENT = ['none', 'bodyweight', 'body weight', 'mat', 'floor', 'wall'];
+
+const equipmentTokens = (name: string): string[] =>
+  name
+    .toLowerCase()
+    .replace(/\b(pull|chin)[\s-]+up/g, '$1up')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+const containsAll = (tokens: string[], required: string[]) => required.every(token => tokens.includes(token));
+
+export const isEquipmentAvailable = (needed: string, availableEquipment: string[]): boolean => {
+  const neededTokens = equipmentTokens(needed);
+  if (neededTokens.length === 0 || BODYWEIGHT_EQUIPMENT.includes(neededTokens.join(' '))) return true;
+
+  return availableEquipment.some(item => {
+    const availableTokens = equipmentTokens(item);
+    return availableTokens.length > 0
+      && (containsAll(neededTokens, availableTokens) || containsAll(availableTokens, neededTokens));
+  });
+};
+
+export const findEquipmentIssues = (plan: WorkoutPlan, availableEquipment: string[]): string[] => {
+  const available = availableEquipment.length ? availableEquipment.join(', ') : 'bodyweight only';
+  return plan.workouts.flatMap((workout, workoutIndex) =>
+    workout.exercises.flatMap((exercise, exerciseIndex) =>
+      exercise.equipment_needed
+        .filter(item => !isEquipmentAvailable(item, availableEquipment))
+        .map(item =>
+          `workouts[${workoutIndex}].exercises[${exerciseIndex}].equipment_needed: "${item}" is not available for ${exercise.name} (available: ${available})`
+        )
+    )
+  );
+};
+
+export const assertEquipmentAvailable = (plan: WorkoutPlan, availableEquipment: string[]): void => {
+  const issues = findEquipmentIssues(plan, availableEquipment);
+  if (issues.length) {
+    throw new PlanValidationError('Generated plan uses unavailable equipment', issues);
+  }
+};
+
+export const findScheduleIssues = (plan: WorkoutPlan, trainingDays: number[]): string[] => {
+  const expectedRestDays = getRestDays(trainingDays);
+  const scheduledDays = plan.workouts.map(workout => workout.day_of_week);
+  const issues = plan.workouts.flatMap((workout, index) =>
+    trainingDays.includes(workout.day_of_week)
+      ? []
+      : [`workouts[${index}].day_of_week: ${workout.day_of_week} (${getWeekdayName(workout.day_of_week)}) is not a chosen training day (${trainingDays.join(', ')})`]
+  );
+
+  trainingDays
+    .filter(day => !scheduledDays.includes(day))
+    .forEach(day => issues.push(`workouts: no workout scheduled for day_of_week ${day} (${getWeekdayName(day)})`));
+
+  const restDays = [...plan.restDays].sort((a, b) => a - b);
+  if (restDays.join(',') !== expectedRestDays.join(',')) {
+    issues.push(`restDays: must be [${expectedRestDays.join(', ')}]`);
+  }
+
+  return issues;
+};
+
+export const assertScheduleMatches = (plan: WorkoutPlan, trainingDays: number[]): void => {
+  const issues = findScheduleIssues(plan, trainingDays);
+  if (issues.length) {
+    throw new PlanValidationError('Generated plan does not match the chosen training days', issues);
+  }
+};
+
+export interface AthleteProfile {
+  fitnessLevel: Difficulty | null;
+  age: number | null;
+  medicalConditions: string[];
+  preferredWorkoutTime: string | null;
+}
+
+export interface PlanRequest {
+  goalType: string;
+  workoutType: WorkoutType;
+  durationWeeks: number;
+  daysPerWeek: number;
+  focusMuscles: MuscleGroup[];
+  trainingDays: number[];
+  restDays: number[];
+  availableEquipment: string[];
+  athlete?: AthleteProfile;
+  additionalNotes?: string;
+}
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/supabase';
+import { getStartOfDay } from '@/lib/schedule';
+import { findSessionRecords, type NewRecord } from '@/lib/personalRecords';
+
+type WorkoutLog = Database['public']['Tables']['workout_logs']['Row'];
+type Exercise = Database['public']['Tables']['exercises']['Row'];
+type ExerciseLogInsert = Database['public']['Tables']['exercise_logs']['Insert'];
+
+export type Mood = WorkoutLog['mood'];
+
+export const MOODS: Mood[] = ['great', 'good', 'okay', 'tired', 'exhausted'];
+
+// Exercises logged with a distance and time rather than only sets and reps.
+export const DISTANCE_EXERCISE_TYPES: Exercise['exercise_type'][] = ['cardio', 'endurance'];
+
+export interface LoggedSet {
+  reps: number;
+  weight: number | null;
+  completed: boolean;
+}
+
+export interface LoggedExercise {
+  exerciseId: string;
+  sets: LoggedSet[];
+  durationSeconds: number | null;
+  distanceKm: number | null;
+  timeSeconds: number | null;
+  notes: string;
+}
+
+export interface WorkoutSessionInput {
+  userId: string;
+  workoutId: string;
+  startedAt: Date;
+  finishedAt: Date;
+  difficultyRating: number;
+  mood: Mood;
+  notes: string;
+  exercises: LoggedExercise[];
+}
+
+export interface SavedWorkoutSession {
+  workoutLog: WorkoutLog;
+  newRecords: NewRecord[];
+}
+
+export const formatSeconds = (totalSeconds: number): string => {
+  const minutes = Math.max(1, Math.round(totalSeconds / 60));
+  return `${minutes} minutes`;
+};
+
+// Clock format for run times, e.g. 25:04 or 1:02:30.
+export const formatClockTime = (totalSeconds: number): string => {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = String(rounded % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const groupCompletedSets = (
+  workoutLogId: string,
+  exercise: LoggedExercise
+): ExerciseLogInsert[] => {
+  const rows: ExerciseLogInsert[] = [];
+
+  for (const set of exercise.sets.filter(s => s.completed)) {
+    const previous = rows[rows.length - 1];
+    if (previous && previous.reps_completed === set.reps && previous.weight_used === set.weight) {
+      previous.sets_completed += 1;
+      continue;
+    }
+    rows.push({
+      workout_log_id: workoutLogId,
+      exercise_id: exercise.exerciseId,
+      sets_completed: 1,
+      reps_completed: set.reps,
+      weight_used: set.weight,
+      duration_actual: null,
+      distance_km: null,
+      time_seconds: null,
+      notes: null
+    });
+  }
+
+  if (rows.length > 0) {
+    rows[0].duration_actual = exercise.durationSeconds ? formatSeconds(exercise.durationSeconds) : null;
+    rows[0].distance_km = exercise.distanceKm;
+    rows[0].time_seconds = exercise.timeSeconds;
+    rows[0].notes = exercise.notes.trim() || null;
+  }
+
+  return rows;
+};
+
+export async function hasLoggedWorkoutToday(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  workoutId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('workout_logs')
+    .select('id')
+    .eq('workout_id', workoutId)
+    .eq('user_id', userId)
+    .gte('completed_at', getStartOfDay().toISOString())
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+export async function saveWorkoutSession(
+  supabase: SupabaseClient<Database>,
+  session: WorkoutSessionInput
+): Promise<SavedWorkoutSession> {
+  const elapsedSeconds = (session.finishedAt.getTime() - session.startedAt.getTime()) / 1000;
+
+  const { data: workoutLog, error: logError } = await supabase
+    .from('workout_logs')
+    .insert({
+      user_id: session.userId,
+      workout_id: session.workoutId,
+      completed_at: session.finishedAt.toISOString(),
+      duration: formatSeconds(elapsedSeconds),
+      difficulty_rating: session.difficultyRating,
+      mood: session.mood,
+      notes: session.notes.trim() || null
+    })
+    .select('*')
+    .single();
+
+  if (logError) {
+    console.error('Workout log creation error:', logError);
+    throw new Error(`Failed to save workout: ${logError.message}`);
+  }
+
+  const exerciseLogs = session.exercises.flatMap(exercise => groupCompletedSets(workoutLog.id, exercise));
+  if (exerciseLogs.length === 0) return { workoutLog, newRecords: [] };
+
+  const { error: exerciseError } = await supabase
+    .from('exercise_logs')
+    .insert(exerciseLogs);
+
+  if (exerciseError) {
+    console.error('Exercise log creation error:', exerciseError);
+    await supabase.from('workout_logs').delete().eq('id', workoutLog.id);
+    throw new Error(`Failed to save exercise logs: ${exerciseError.message}`);
+  }
+
+  try {
+    const newRecords = await findSessionRecords(supabase, session.userId, workoutLog.id);
+    return { workoutLog, newRecords };
+  } catch (recordsError) {
+    console.error('Personal record detection error:', recordsError);
+    return { workoutLog, newRecords: [] };
+  }
+}
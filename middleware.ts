@@ -13,6 +13,20 @@ export async function middleware(req: NextRequest) {
     return res;
   }
 
+  // Calendar apps subscribe without a session; the token in the URL is the credential.
+  if (req.nextUrl.pathname.startsWith('/api/calendar/')) {
+    return res;
+  }
+
+  // Scheduled jobs authenticate with CRON_SECRET instead of a session.
+  if (req.nextUrl.pathname.startsWith('/api/cron/')) {
+    return res;
+  }
+
+  if (!session && req.nextUrl.pathname.startsWith('/api')) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
   if (!session && !req.nextUrl.pathname.startsWith('/auth')) {
     const redirectUrl = new URL('/auth', req.url);
     return NextResponse.redirect(redirectUrl);
@@ -23,9 +37,30 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(redirectUrl);
   }
 
+  const isDashboard = req.nextUrl.pathname.startsWith('/dashboard');
+  const isOnboarding = req.nextUrl.pathname.startsWith('/onboarding');
+
+  if (session && (isDashboard || isOnboarding)) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('has_completed_onboarding')
+      .eq('id', session.user.id)
+      .maybeSingle();
+
+    const hasCompletedOnboarding = profile?.has_completed_onboarding ?? false;
+
+    if (isDashboard && !hasCompletedOnboarding) {
+      return NextResponse.redirect(new URL('/onboarding', req.url));
+    }
+
+    if (isOnboarding && hasCompletedOnboarding) {
+      return NextResponse.redirect(new URL('/dashboard', req.url));
+    }
+  }
+
   return res;
 }
 
 export const config = {
-  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|auth/callback).*)'],
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|auth/callback).*)'],
 };
\ No newline at end of file
@@ -0,0 +1,60 @@
+-- Creates a fitness goal, workout plan, workouts and exercises in a single
+-- transaction so a failure midway never leaves orphaned rows behind.
+create or replace function public.create_workout_plan(
+  p_user_id uuid,
+  p_goal jsonb,
+  p_plan jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_goal_id uuid;
+  v_plan_id uuid;
+  v_workout_id uuid;
+  v_workout jsonb;
+begin
+  if jsonb_typeof(p_plan->'workouts') is distinct from 'array' or jsonb_array_length(p_plan->'workouts') = 0 then
+    raise exception 'Plan must contain at least one workout';
+  end if;
+
+  insert into fitness_goals (user_id, goal_type, target_date, status, specific_targets)
+  select p_user_id, g.goal_type, g.target_date, 'active', coalesce(p_goal->'specific_targets', '{}'::jsonb)
+  from jsonb_populate_record(null::fitness_goals, p_goal) g
+  returning id into v_goal_id;
+
+  insert into workout_plans (
+    user_id, goal_id, name, description, duration_weeks, difficulty,
+    is_active, focus_muscles, rest_days
+  )
+  select
+    p_user_id, v_goal_id, p.name, p.description, p.duration_weeks, p.difficulty,
+    true, p.focus_muscles, p.rest_days
+  from jsonb_populate_record(null::workout_plans, p_plan) p
+  returning id into v_plan_id;
+
+  for v_workout in select value from jsonb_array_elements(p_plan->'workouts')
+  loop
+    insert into workouts (plan_id, name, description, day_of_week, estimated_duration, workout_type)
+    select v_plan_id, w.name, w.description, w.day_of_week, w.estimated_duration, w.workout_type
+    from jsonb_populate_record(null::workouts, v_workout) w
+    returning id into v_workout_id;
+
+    insert into exercises (
+      workout_id, name, description, sets, reps, weight, duration, rest_duration,
+      order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+    )
+    select
+      v_workout_id, e.name, e.description, e.sets, e.reps, e.weight, e.duration, e.rest_duration,
+      e.order_in_workout, e.exercise_type, e.primary_muscles, e.secondary_muscles, e.equipment_needed
+    from jsonb_array_elements(coalesce(v_workout->'exercises', '[]'::jsonb)) as items(value),
+      jsonb_populate_record(null::exercises, items.value) e;
+  end loop;
+
+  return v_plan_id;
+end;
+$$;
+
+grant execute on function public.create_workout_plan(uuid, jsonb, jsonb) to authenticated, service_role;
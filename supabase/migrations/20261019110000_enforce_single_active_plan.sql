@@ -0,0 +1,81 @@
+-- Keep only the newest active plan per user before enforcing the rule.
+update workout_plans wp
+set is_active = false
+where wp.is_active
+  and exists (
+    select 1 from workout_plans newer
+    where newer.user_id = wp.user_id
+      and newer.is_active
+      and newer.created_at > wp.created_at
+  );
+
+create unique index if not exists workout_plans_one_active_per_user
+  on workout_plans (user_id)
+  where is_active;
+
+-- Only the authenticated user (or the service role) may create plans for
+-- themselves, and never while another plan is still active.
+create or replace function public.create_workout_plan(
+  p_user_id uuid,
+  p_goal jsonb,
+  p_plan jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_goal_id uuid;
+  v_plan_id uuid;
+  v_workout_id uuid;
+  v_workout jsonb;
+begin
+  if p_user_id is distinct from auth.uid() and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Cannot create a plan for another user' using errcode = 'insufficient_privilege';
+  end if;
+
+  if exists (select 1 from workout_plans where user_id = p_user_id and is_active) then
+    raise exception 'User already has an active workout plan' using errcode = 'unique_violation';
+  end if;
+
+  if jsonb_typeof(p_plan->'workouts') is distinct from 'array' or jsonb_array_length(p_plan->'workouts') = 0 then
+    raise exception 'Plan must contain at least one workout';
+  end if;
+
+  insert into fitness_goals (user_id, goal_type, target_date, status, specific_targets)
+  select p_user_id, g.goal_type, g.target_date, 'active', coalesce(p_goal->'specific_targets', '{}'::jsonb)
+  from jsonb_populate_record(null::fitness_goals, p_goal) g
+  returning id into v_goal_id;
+
+  insert into workout_plans (
+    user_id, goal_id, name, description, duration_weeks, difficulty,
+    is_active, focus_muscles, rest_days
+  )
+  select
+    p_user_id, v_goal_id, p.name, p.description, p.duration_weeks, p.difficulty,
+    true, p.focus_muscles, p.rest_days
+  from jsonb_populate_record(null::workout_plans, p_plan) p
+  returning id into v_plan_id;
+
+  for v_workout in select value from jsonb_array_elements(p_plan->'workouts')
+  loop
+    insert into workouts (plan_id, name, description, day_of_week, estimated_duration, workout_type)
+    select v_plan_id, w.name, w.description, w.day_of_week, w.estimated_duration, w.workout_type
+    from jsonb_populate_record(null::workouts, v_workout) w
+    returning id into v_workout_id;
+
+    insert into exercises (
+      workout_id, name, description, sets, reps, weight, duration, rest_duration,
+      order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+    )
+    select
+      v_workout_id, e.name, e.description, e.sets, e.reps, e.weight, e.duration, e.rest_duration,
+      e.order_in_workout, e.exercise_type, e.primary_muscles, e.secondary_muscles, e.equipment_needed
+    from jsonb_array_elements(coalesce(v_workout->'exercises', '[]'::jsonb)) as items(value),
+      jsonb_populate_record(null::exercises, items.value) e;
+  end loop;
+
+  return v_plan_id;
+end;
+$$;
@@ -0,0 +1,11 @@
+-- The onboarding wizard keeps the goal and schedule answers here until it
+-- generates the user's first plan from them.
+alter table onboarding_progress
+  add column if not exists plan_preferences jsonb not null default '{}'::jsonb;
+
+-- Users who already generated a plan before onboarding existed should not be
+-- sent back through it.
+update profiles p
+set has_completed_onboarding = true
+where not p.has_completed_onboarding
+  and exists (select 1 from workout_plans wp where wp.user_id = p.id);
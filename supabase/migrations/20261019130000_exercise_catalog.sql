@@ -0,0 +1,154 @@
+-- Canonical exercise identities. Generated plans link each exercise row to a
+-- catalog entry so that history can be tracked per lift across plans.
+create table if not exists exercise_catalog (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  aliases text[] not null default '{}',
+  primary_muscles text[] not null,
+  secondary_muscles text[] not null default '{}',
+  equipment text[] not null default '{}',
+  exercise_type text not null,
+  instructions text,
+  created_at timestamptz not null default now()
+);
+
+alter table exercise_catalog enable row level security;
+
+drop policy if exists "Exercise catalog is readable by everyone" on exercise_catalog;
+create policy "Exercise catalog is readable by everyone"
+  on exercise_catalog for select
+  using (true);
+
+alter table exercises
+  add column if not exists catalog_id uuid references exercise_catalog (id) on delete set null;
+
+create index if not exists exercises_catalog_id_idx on exercises (catalog_id);
+
+-- Aliases only name the same movement with the same implement; a variation
+-- with different equipment stays unlinked rather than sharing its history.
+insert into exercise_catalog (name, aliases, primary_muscles, secondary_muscles, equipment, exercise_type, instructions) values
+  ('Barbell Bench Press', '{"Bench Press","Flat Bench Press","Flat Barbell Bench Press"}', '{chest}', '{triceps,shoulders}', '{barbell,bench}', 'strength', 'Lower the bar to your mid chest with elbows tucked, then press back to lockout.'),
+  ('Incline Barbell Bench Press', '{"Incline Bench Press","Incline Press"}', '{chest}', '{shoulders,triceps}', '{barbell,bench}', 'strength', 'On a 30-45 degree bench, lower the bar to your upper chest and press up.'),
+  ('Dumbbell Bench Press', '{"DB Bench Press","Dumbbell Chest Press","Flat Dumbbell Press"}', '{chest}', '{triceps,shoulders}', '{dumbbells,bench}', 'strength', 'Press the dumbbells from chest level to lockout, keeping the shoulder blades pinned.'),
+  ('Incline Dumbbell Press', '{"Incline DB Press","Incline Dumbbell Bench Press"}', '{chest}', '{shoulders,triceps}', '{dumbbells,bench}', 'strength', 'On an incline bench, press the dumbbells up and slightly together.'),
+  ('Dumbbell Fly', '{"Dumbbell Flyes","Chest Fly","DB Fly"}', '{chest}', '{shoulders}', '{dumbbells,bench}', 'isolation', 'With a slight elbow bend, open the arms wide and squeeze them back together over the chest.'),
+  ('Push Up', '{"Push-Up","Pushup","Press Up"}', '{chest}', '{triceps,shoulders,core}', '{none}', 'bodyweight', 'Lower your chest to the floor in a straight line and press back up.'),
+  ('Diamond Push Up', '{"Diamond Pushup","Close Grip Push Up","Triangle Push Up"}', '{triceps}', '{chest,shoulders}', '{none}', 'bodyweight', 'Push up with your hands together under your chest.'),
+  ('Pike Push Up', '{"Pike Pushup"}', '{shoulders}', '{triceps}', '{none}', 'bodyweight', 'From a pike position, lower your head towards the floor and press back up.'),
+  ('Chest Dip', '{"Dip","Dips","Parallel Bar Dip"}', '{chest}', '{triceps,shoulders}', '{"dip bars"}', 'bodyweight', 'Lean forward slightly and lower until the shoulders are below the elbows, then press up.'),
+  ('Bench Dip', '{"Tricep Dip","Triceps Bench Dip"}', '{triceps}', '{chest,shoulders}', '{bench}', 'bodyweight', 'With hands on a bench behind you, lower your body and press back up.'),
+  ('Overhead Press', '{"Barbell Overhead Press","Military Press","Standing Press","OHP","Shoulder Press"}', '{shoulders}', '{triceps,core}', '{barbell}', 'strength', 'Press the bar from your collarbones to overhead lockout while bracing the core.'),
+  ('Dumbbell Shoulder Press', '{"Seated Dumbbell Press","DB Shoulder Press","Dumbbell Overhead Press"}', '{shoulders}', '{triceps}', '{dumbbells}', 'strength', 'Press the dumbbells from shoulder height to overhead.'),
+  ('Lateral Raise', '{"Dumbbell Lateral Raise","Side Raise","Side Lateral Raise"}', '{shoulders}', '{traps}', '{dumbbells}', 'isolation', 'Raise the dumbbells out to the sides until level with your shoulders.'),
+  ('Face Pull', '{"Cable Face Pull","Rope Face Pull"}', '{shoulders}', '{traps,back}', '{"cable machine"}', 'isolation', 'Pull the rope towards your face, separating the hands and squeezing the rear delts.'),
+  ('Pull Up', '{"Pull-Up","Pullup"}', '{lats}', '{biceps,back}', '{"pull-up bar"}', 'bodyweight', 'From a dead hang, pull your chin over the bar and lower under control.'),
+  ('Lat Pulldown', '{"Cable Lat Pulldown","Wide Grip Pulldown","Pulldown"}', '{lats}', '{biceps,back}', '{"cable machine"}', 'strength', 'Pull the bar to your upper chest while keeping the torso upright.'),
+  ('Barbell Row', '{"Bent Over Row","Bent-Over Barbell Row","Pendlay Row"}', '{back}', '{lats,biceps,lower_back}', '{barbell}', 'strength', 'Hinge forward and row the bar to your lower ribs.'),
+  ('Dumbbell Row', '{"One Arm Dumbbell Row","Single Arm Dumbbell Row","DB Row"}', '{back}', '{lats,biceps}', '{dumbbells,bench}', 'strength', 'Supporting yourself on a bench, row the dumbbell to your hip.'),
+  ('Seated Cable Row', '{"Cable Row","Seated Row"}', '{back}', '{lats,biceps}', '{"cable machine"}', 'strength', 'Row the handle to your stomach while keeping your chest tall.'),
+  ('Inverted Row', '{"Bodyweight Row","Australian Pull Up"}', '{back}', '{biceps,lats}', '{bar}', 'bodyweight', 'Pull your chest to a fixed bar while keeping your body straight.'),
+  ('Deadlift', '{"Barbell Deadlift","Conventional Deadlift"}', '{hamstrings}', '{glutes,lower_back,back,forearms}', '{barbell}', 'powerlifting', 'Brace, push the floor away and lock out the hips with the bar close to your legs.'),
+  ('Romanian Deadlift', '{"RDL","Dumbbell Romanian Deadlift"}', '{hamstrings}', '{glutes,lower_back}', '{dumbbells}', 'strength', 'Hinge at the hips with a soft knee bend until you feel the hamstrings stretch.'),
+  ('Back Squat', '{"Barbell Squat","Squat","Barbell Back Squat"}', '{quadriceps}', '{glutes,core,lower_back}', '{barbell,"squat rack"}', 'powerlifting', 'Squat below parallel with the bar on your upper back, then drive up.'),
+  ('Front Squat', '{"Barbell Front Squat"}', '{quadriceps}', '{glutes,core}', '{barbell,"squat rack"}', 'strength', 'Hold the bar on the front of your shoulders and squat with an upright torso.'),
+  ('Goblet Squat', '{"Dumbbell Goblet Squat"}', '{quadriceps}', '{glutes,core}', '{dumbbells}', 'strength', 'Hold a weight at your chest and squat to depth.'),
+  ('Bodyweight Squat', '{"Air Squat","Bodyweight Squats"}', '{quadriceps}', '{glutes,core}', '{none}', 'bodyweight', 'Squat to depth with your arms in front for balance.'),
+  ('Bulgarian Split Squat', '{"Rear Foot Elevated Split Squat"}', '{quadriceps}', '{glutes,hamstrings}', '{bench}', 'strength', 'With your rear foot on a bench, lower until the front thigh is parallel.'),
+  ('Walking Lunge', '{"Lunge","Lunges","Forward Lunge"}', '{quadriceps}', '{glutes,hamstrings}', '{none}', 'strength', 'Step forward and lower the back knee towards the floor, alternating legs.'),
+  ('Leg Press', '{"Machine Leg Press"}', '{quadriceps}', '{glutes,hamstrings}', '{machine}', 'strength', 'Lower the sled until the knees reach 90 degrees, then press back up.'),
+  ('Leg Curl', '{"Lying Leg Curl","Seated Leg Curl","Hamstring Curl"}', '{hamstrings}', '{calves}', '{machine}', 'isolation', 'Curl the pad towards your glutes and lower slowly.'),
+  ('Hip Thrust', '{"Barbell Hip Thrust"}', '{glutes}', '{hamstrings}', '{barbell,bench}', 'strength', 'With your upper back on a bench, drive your hips up and squeeze the glutes.'),
+  ('Glute Bridge', '{"Bridge","Bodyweight Glute Bridge"}', '{glutes}', '{hamstrings,core}', '{none}', 'bodyweight', 'Drive your hips up while squeezing the glutes.'),
+  ('Standing Calf Raise', '{"Calf Raise","Calf Raises"}', '{calves}', '{}', '{none}', 'isolation', 'Rise onto the balls of your feet and lower slowly.'),
+  ('Barbell Curl', '{"Bicep Curl","Biceps Curl","Standing Barbell Curl"}', '{biceps}', '{forearms}', '{barbell}', 'isolation', 'Curl the bar without swinging the torso.'),
+  ('Dumbbell Curl', '{"Dumbbell Bicep Curl","DB Curl","Alternating Dumbbell Curl"}', '{biceps}', '{forearms}', '{dumbbells}', 'isolation', 'Curl the dumbbells without swinging the torso.'),
+  ('Hammer Curl', '{"Dumbbell Hammer Curl"}', '{biceps}', '{forearms}', '{dumbbells}', 'isolation', 'Curl with a neutral grip, thumbs facing up.'),
+  ('Triceps Pushdown', '{"Tricep Pushdown","Cable Pushdown","Rope Pushdown"}', '{triceps}', '{}', '{"cable machine"}', 'isolation', 'Push the handle down until the elbows lock, keeping them pinned to your sides.'),
+  ('Skull Crusher', '{"Lying Triceps Extension","Skullcrusher"}', '{triceps}', '{}', '{barbell,bench}', 'isolation', 'Lower the bar towards your forehead by bending only the elbows, then extend.'),
+  ('Overhead Triceps Extension', '{"Dumbbell Overhead Extension","Tricep Extension"}', '{triceps}', '{}', '{dumbbells}', 'isolation', 'Lower the dumbbell behind your head and extend the arms overhead.'),
+  ('Dumbbell Shrug', '{"Shrug","Shrugs"}', '{traps}', '{forearms}', '{dumbbells}', 'isolation', 'Shrug the shoulders straight up and pause.'),
+  ('Farmer Carry', '{"Farmers Walk","Farmer''s Walk","Farmers Carry"}', '{forearms}', '{traps,core}', '{dumbbells}', 'strength', 'Walk with heavy weights held at your sides.'),
+  ('Plank', '{"Front Plank","Forearm Plank"}', '{core}', '{shoulders}', '{none}', 'bodyweight', 'Hold a straight line from head to heels.'),
+  ('Hanging Leg Raise', '{"Leg Raise","Hanging Knee Raise"}', '{core}', '{forearms}', '{"pull-up bar"}', 'bodyweight', 'Hang from a bar and raise your legs without swinging.'),
+  ('Russian Twist', '{"Seated Russian Twist"}', '{core}', '{}', '{none}', 'bodyweight', 'Sit with your feet off the floor and rotate your torso side to side.'),
+  ('Mountain Climber', '{"Mountain Climbers"}', '{core}', '{shoulders,quadriceps}', '{none}', 'hiit', 'From a high plank, drive your knees towards your chest alternately at pace.'),
+  ('Burpee', '{"Burpees"}', '{quadriceps}', '{chest,core,shoulders}', '{none}', 'hiit', 'Drop to a push up, jump the feet in and jump up explosively.'),
+  ('Kettlebell Swing', '{"Russian Kettlebell Swing","KB Swing"}', '{glutes}', '{hamstrings,core,lower_back}', '{kettlebells}', 'hiit', 'Hinge and snap the hips forward to swing the kettlebell to chest height.'),
+  ('Superman Hold', '{"Superman","Supermans"}', '{lower_back}', '{glutes}', '{none}', 'bodyweight', 'Lift arms and legs off the floor while lying prone.'),
+  ('Back Extension', '{"Hyperextension","Back Hyperextension"}', '{lower_back}', '{glutes,hamstrings}', '{machine}', 'strength', 'Hinge over the pad and extend until your body is straight.')
+on conflict (name) do nothing;
+
+-- Link existing exercise rows whose name matches a catalog entry or alias.
+update exercises e
+set catalog_id = c.id
+from exercise_catalog c
+where e.catalog_id is null
+  and (
+    lower(e.name) = lower(c.name)
+    or lower(e.name) = any (select lower(alias) from unnest(c.aliases) as alias)
+  );
+
+create or replace function public.create_workout_plan(
+  p_user_id uuid,
+  p_goal jsonb,
+  p_plan jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_goal_id uuid;
+  v_plan_id uuid;
+  v_workout_id uuid;
+  v_workout jsonb;
+begin
+  if p_user_id is distinct from auth.uid() and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'Cannot create a plan for another user' using errcode = 'insufficient_privilege';
+  end if;
+
+  if exists (select 1 from workout_plans where user_id = p_user_id and is_active) then
+    raise exception 'User already has an active workout plan' using errcode = 'unique_violation';
+  end if;
+
+  if jsonb_typeof(p_plan->'workouts') is distinct from 'array' or jsonb_array_length(p_plan->'workouts') = 0 then
+    raise exception 'Plan must contain at least one workout';
+  end if;
+
+  insert into fitness_goals (user_id, goal_type, target_date, status, specific_targets)
+  select p_user_id, g.goal_type, g.target_date, 'active', coalesce(p_goal->'specific_targets', '{}'::jsonb)
+  from jsonb_populate_record(null::fitness_goals, p_goal) g
+  returning id into v_goal_id;
+
+  insert into workout_plans (
+    user_id, goal_id, name, description, duration_weeks, difficulty,
+    is_active, focus_muscles, rest_days
+  )
+  select
+    p_user_id, v_goal_id, p.name, p.description, p.duration_weeks, p.difficulty,
+    true, p.focus_muscles, p.rest_days
+  from jsonb_populate_record(null::workout_plans, p_plan) p
+  returning id into v_plan_id;
+
+  for v_workout in select value from jsonb_array_elements(p_plan->'workouts')
+  loop
+    insert into workouts (plan_id, name, description, day_of_week, estimated_duration, workout_type)
+    select v_plan_id, w.name, w.description, w.day_of_week, w.estimated_duration, w.workout_type
+    from jsonb_populate_record(null::workouts, v_workout) w
+    returning id into v_workout_id;
+
+    insert into exercises (
+      workout_id, catalog_id, name, description, sets, reps, weight, duration, rest_duration,
+      order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+    )
+    select
+      v_workout_id, e.catalog_id, e.name, e.description, e.sets, e.reps, e.weight, e.duration, e.rest_duration,
+      e.order_in_workout, e.exercise_type, e.primary_muscles, e.secondary_muscles, e.equipment_needed
+    from jsonb_array_elements(coalesce(v_workout->'exercises', '[]'::jsonb)) as items(value),
+      jsonb_populate_record(null::exercises, items.value) e;
+  end loop;
+
+  return v_plan_id;
+end;
+$$;
@@ -0,0 +1,38 @@
+-- Weekdays are stored as ISO 8601 numbers: 1 = Monday ... 7 = Sunday.
+-- Older clients disagreed on the convention (the plan view treated 1 as
+-- Sunday) and the generator picked rest days as simply 1..(7 - days per week),
+-- so normalise what is already stored before enforcing the range.
+
+-- JavaScript's getDay() numbering stores Sunday as 0.
+update workouts
+set day_of_week = 7
+where day_of_week = 0;
+
+update workout_plans
+set rest_days = array_replace(rest_days, 0, 7)
+where 0 = any(rest_days);
+
+-- A day is either a training day or a rest day, so derive rest days from the
+-- days the plan actually has workouts on.
+update workout_plans wp
+set rest_days = coalesce((
+  select array_agg(d order by d)
+  from generate_series(1, 7) as d
+  where not exists (
+    select 1 from workouts w where w.plan_id = wp.id and w.day_of_week = d
+  )
+), '{}')
+where exists (select 1 from workouts w where w.plan_id = wp.id);
+
+alter table workouts
+  drop constraint if exists workouts_day_of_week_iso;
+alter table workouts
+  add constraint workouts_day_of_week_iso check (day_of_week between 1 and 7);
+
+alter table workout_plans
+  drop constraint if exists workout_plans_rest_days_iso;
+alter table workout_plans
+  add constraint workout_plans_rest_days_iso check (rest_days <@ array[1, 2, 3, 4, 5, 6, 7]);
+
+comment on column workouts.day_of_week is 'ISO weekday: 1 = Monday ... 7 = Sunday';
+comment on column workout_plans.rest_days is 'ISO weekdays: 1 = Monday ... 7 = Sunday';
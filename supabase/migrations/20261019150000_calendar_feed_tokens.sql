@@ -0,0 +1,84 @@
+-- Secret per-user tokens for the iCalendar subscription feed. Calendar apps
+-- fetch the feed without a session, so the token is the only credential;
+-- rotating it revokes every previously shared URL.
+create table if not exists calendar_feed_tokens (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  token text not null unique default replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  created_at timestamptz not null default now()
+);
+
+alter table calendar_feed_tokens enable row level security;
+
+drop policy if exists "Users can read their calendar feed token" on calendar_feed_tokens;
+create policy "Users can read their calendar feed token"
+  on calendar_feed_tokens for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can revoke their calendar feed token" on calendar_feed_tokens;
+create policy "Users can revoke their calendar feed token"
+  on calendar_feed_tokens for delete
+  using (auth.uid() = user_id);
+
+create or replace function public.rotate_calendar_feed_token()
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_token text;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = 'insufficient_privilege';
+  end if;
+
+  insert into calendar_feed_tokens (user_id)
+  values (auth.uid())
+  on conflict (user_id) do update
+    set token = replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+        created_at = now()
+  returning token into v_token;
+
+  return v_token;
+end;
+$$;
+
+grant execute on function public.rotate_calendar_feed_token() to authenticated;
+
+-- Returns the active plan of the token's owner, or null when the token is
+-- unknown. Runs as definer so the anonymous feed request can bypass RLS for
+-- exactly this one user.
+create or replace function public.get_calendar_feed(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'preferred_workout_time', p.preferred_workout_time,
+    'plan', (
+      select to_jsonb(wp) || jsonb_build_object(
+        'workouts', coalesce((
+          select jsonb_agg(to_jsonb(w) || jsonb_build_object(
+            'exercises', coalesce((
+              select jsonb_agg(to_jsonb(e) order by e.order_in_workout)
+              from exercises e
+              where e.workout_id = w.id
+            ), '[]'::jsonb)
+          ) order by w.day_of_week)
+          from workouts w
+          where w.plan_id = wp.id
+        ), '[]'::jsonb)
+      )
+      from workout_plans wp
+      where wp.user_id = t.user_id
+        and wp.is_active
+    )
+  )
+  from calendar_feed_tokens t
+  left join profiles p on p.id = t.user_id
+  where t.token = p_token;
+$$;
+
+grant execute on function public.get_calendar_feed(text) to anon, authenticated;
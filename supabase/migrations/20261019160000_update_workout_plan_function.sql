@@ -0,0 +1,132 @@
+-- Saves an edited plan in one transaction. Workouts and exercises that carry
+-- an existing id are updated in place so their logs stay attached; the rest
+-- are inserted, and rows missing from the payload are deleted unless they
+-- already have logged sessions.
+create or replace function public.update_workout_plan(
+  p_plan_id uuid,
+  p_plan jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_workout jsonb;
+  v_exercise jsonb;
+  v_workout_id uuid;
+  v_exercise_id uuid;
+  v_kept_workouts uuid[] := '{}';
+  v_kept_exercises uuid[] := '{}';
+begin
+  if not exists (select 1 from workout_plans where id = p_plan_id and user_id = auth.uid()) then
+    raise exception 'Workout plan not found' using errcode = 'no_data_found';
+  end if;
+
+  if jsonb_typeof(p_plan->'workouts') is distinct from 'array' or jsonb_array_length(p_plan->'workouts') = 0 then
+    raise exception 'Plan must contain at least one workout';
+  end if;
+
+  update workout_plans wp
+  set name = p.name,
+      description = p.description,
+      duration_weeks = p.duration_weeks,
+      difficulty = p.difficulty,
+      focus_muscles = p.focus_muscles,
+      rest_days = p.rest_days,
+      updated_at = now()
+  from jsonb_populate_record(null::workout_plans, p_plan) p
+  where wp.id = p_plan_id;
+
+  for v_workout in select value from jsonb_array_elements(p_plan->'workouts')
+  loop
+    update workouts w
+    set name = n.name,
+        description = n.description,
+        day_of_week = n.day_of_week,
+        estimated_duration = n.estimated_duration,
+        workout_type = n.workout_type
+    from jsonb_populate_record(null::workouts, v_workout) n
+    where w.id = (v_workout->>'id')::uuid
+      and w.plan_id = p_plan_id
+    returning w.id into v_workout_id;
+
+    if v_workout_id is null then
+      insert into workouts (plan_id, name, description, day_of_week, estimated_duration, workout_type)
+      select p_plan_id, n.name, n.description, n.day_of_week, n.estimated_duration, n.workout_type
+      from jsonb_populate_record(null::workouts, v_workout) n
+      returning id into v_workout_id;
+    end if;
+
+    v_kept_workouts := v_kept_workouts || v_workout_id;
+
+    for v_exercise in select value from jsonb_array_elements(coalesce(v_workout->'exercises', '[]'::jsonb))
+    loop
+      update exercises e
+      set workout_id = v_workout_id,
+          catalog_id = n.catalog_id,
+          name = n.name,
+          description = n.description,
+          sets = n.sets,
+          reps = n.reps,
+          rest_duration = n.rest_duration,
+          order_in_workout = n.order_in_workout,
+          exercise_type = n.exercise_type,
+          primary_muscles = n.primary_muscles,
+          secondary_muscles = n.secondary_muscles,
+          equipment_needed = n.equipment_needed
+      from jsonb_populate_record(null::exercises, v_exercise) n
+      where e.id = (v_exercise->>'id')::uuid
+        and e.workout_id in (select id from workouts where plan_id = p_plan_id)
+      returning e.id into v_exercise_id;
+
+      if v_exercise_id is null then
+        insert into exercises (
+          workout_id, catalog_id, name, description, sets, reps, rest_duration,
+          order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+        )
+        select
+          v_workout_id, n.catalog_id, n.name, n.description, n.sets, n.reps, n.rest_duration,
+          n.order_in_workout, n.exercise_type, n.primary_muscles, n.secondary_muscles, n.equipment_needed
+        from jsonb_populate_record(null::exercises, v_exercise) n
+        returning id into v_exercise_id;
+      end if;
+
+      v_kept_exercises := v_kept_exercises || v_exercise_id;
+    end loop;
+  end loop;
+
+  if exists (
+    select 1
+    from exercises e
+    join workouts w on w.id = e.workout_id
+    where w.plan_id = p_plan_id
+      and not (e.id = any (v_kept_exercises))
+      and exists (select 1 from exercise_logs l where l.exercise_id = e.id)
+  ) then
+    raise exception 'Exercises with logged sessions cannot be removed' using errcode = 'foreign_key_violation';
+  end if;
+
+  if exists (
+    select 1
+    from workouts w
+    where w.plan_id = p_plan_id
+      and not (w.id = any (v_kept_workouts))
+      and exists (select 1 from workout_logs l where l.workout_id = w.id)
+  ) then
+    raise exception 'Workouts with logged sessions cannot be removed' using errcode = 'foreign_key_violation';
+  end if;
+
+  delete from exercises e
+  using workouts w
+  where w.id = e.workout_id
+    and w.plan_id = p_plan_id
+    and not (e.id = any (v_kept_exercises));
+
+  delete from workouts
+  where plan_id = p_plan_id
+    and not (id = any (v_kept_workouts));
+
+  return p_plan_id;
+end;
+$$;
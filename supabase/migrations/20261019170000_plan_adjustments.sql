@@ -0,0 +1,82 @@
+-- Weekly adaptations of a plan's exercises based on logged sessions and
+-- recovery. An adjustment is proposed as 'pending' and only touches the
+-- exercises once the user accepts it.
+create table if not exists plan_adjustments (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  plan_id uuid not null references workout_plans (id) on delete cascade,
+  week integer not null check (week >= 1),
+  feedback jsonb not null,
+  changes jsonb not null default '[]'::jsonb,
+  changelog text not null,
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'rejected')),
+  created_at timestamptz not null default now(),
+  resolved_at timestamptz
+);
+
+-- A rejected adjustment can be regenerated; otherwise one per plan week.
+create unique index if not exists plan_adjustments_plan_week_key
+  on plan_adjustments (plan_id, week)
+  where status <> 'rejected';
+
+alter table plan_adjustments enable row level security;
+
+drop policy if exists "Users can read their plan adjustments" on plan_adjustments;
+create policy "Users can read their plan adjustments"
+  on plan_adjustments for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can create their plan adjustments" on plan_adjustments;
+create policy "Users can create their plan adjustments"
+  on plan_adjustments for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can resolve their plan adjustments" on plan_adjustments;
+create policy "Users can resolve their plan adjustments"
+  on plan_adjustments for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create or replace function public.apply_plan_adjustment(p_adjustment_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_adjustment plan_adjustments%rowtype;
+begin
+  select * into v_adjustment
+  from plan_adjustments
+  where id = p_adjustment_id
+    and user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Plan adjustment not found' using errcode = 'no_data_found';
+  end if;
+
+  if v_adjustment.status <> 'pending' then
+    raise exception 'Plan adjustment was already %', v_adjustment.status using errcode = 'check_violation';
+  end if;
+
+  update exercises e
+  set sets = c.sets,
+      reps = c.reps,
+      weight = c.weight
+  from jsonb_to_recordset(v_adjustment.changes) as c(exercise_id uuid, sets integer, reps integer, weight numeric)
+  where e.id = c.exercise_id
+    and e.workout_id in (select id from workouts where plan_id = v_adjustment.plan_id);
+
+  update plan_adjustments
+  set status = 'accepted',
+      resolved_at = now()
+  where id = p_adjustment_id;
+
+  update workout_plans
+  set updated_at = now()
+  where id = v_adjustment.plan_id;
+
+  return v_adjustment.plan_id;
+end;
+$$;
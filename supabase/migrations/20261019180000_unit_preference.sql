@@ -0,0 +1,10 @@
+-- Display preference only: weights stay in kg and lengths in cm in every
+-- table, and the app converts on input and display.
+alter table profiles
+  add column if not exists unit_system text not null default 'metric';
+
+alter table profiles
+  drop constraint if exists profiles_unit_system_check;
+
+alter table profiles
+  add constraint profiles_unit_system_check check (unit_system in ('metric', 'imperial'));
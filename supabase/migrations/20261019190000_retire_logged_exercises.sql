@@ -0,0 +1,187 @@
+-- Exercises that already have logged sessions are never renamed or re-targeted
+-- in place, since that would rewrite what their past logs mean. They are
+-- retired instead: hidden from the plan but kept so their logs stay attached.
+alter table exercises
+  add column if not exists retired_at timestamptz;
+
+create or replace function public.update_workout_plan(
+  p_plan_id uuid,
+  p_plan jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_workout jsonb;
+  v_exercise jsonb;
+  v_workout_id uuid;
+  v_exercise_id uuid;
+  v_kept_workouts uuid[] := '{}';
+  v_kept_exercises uuid[] := '{}';
+begin
+  if not exists (select 1 from workout_plans where id = p_plan_id and user_id = auth.uid()) then
+    raise exception 'Workout plan not found' using errcode = 'no_data_found';
+  end if;
+
+  if jsonb_typeof(p_plan->'workouts') is distinct from 'array' or jsonb_array_length(p_plan->'workouts') = 0 then
+    raise exception 'Plan must contain at least one workout';
+  end if;
+
+  update workout_plans wp
+  set name = p.name,
+      description = p.description,
+      duration_weeks = p.duration_weeks,
+      difficulty = p.difficulty,
+      focus_muscles = p.focus_muscles,
+      rest_days = p.rest_days,
+      updated_at = now()
+  from jsonb_populate_record(null::workout_plans, p_plan) p
+  where wp.id = p_plan_id;
+
+  for v_workout in select value from jsonb_array_elements(p_plan->'workouts')
+  loop
+    update workouts w
+    set name = n.name,
+        description = n.description,
+        day_of_week = n.day_of_week,
+        estimated_duration = n.estimated_duration,
+        workout_type = n.workout_type
+    from jsonb_populate_record(null::workouts, v_workout) n
+    where w.id = (v_workout->>'id')::uuid
+      and w.plan_id = p_plan_id
+    returning w.id into v_workout_id;
+
+    if v_workout_id is null then
+      insert into workouts (plan_id, name, description, day_of_week, estimated_duration, workout_type)
+      select p_plan_id, n.name, n.description, n.day_of_week, n.estimated_duration, n.workout_type
+      from jsonb_populate_record(null::workouts, v_workout) n
+      returning id into v_workout_id;
+    end if;
+
+    v_kept_workouts := v_kept_workouts || v_workout_id;
+
+    for v_exercise in select value from jsonb_array_elements(coalesce(v_workout->'exercises', '[]'::jsonb))
+    loop
+      -- A logged exercise that becomes a different movement is retired so its
+      -- logs keep their meaning; the update below then misses and inserts.
+      update exercises e
+      set retired_at = now()
+      from jsonb_populate_record(null::exercises, v_exercise) n
+      where e.id = (v_exercise->>'id')::uuid
+        and e.workout_id in (select id from workouts where plan_id = p_plan_id)
+        and e.retired_at is null
+        and (
+          e.name is distinct from n.name
+          or e.primary_muscles is distinct from n.primary_muscles
+          or e.secondary_muscles is distinct from n.secondary_muscles
+        )
+        and exists (select 1 from exercise_logs l where l.exercise_id = e.id);
+
+      update exercises e
+      set workout_id = v_workout_id,
+          catalog_id = n.catalog_id,
+          name = n.name,
+          description = n.description,
+          sets = n.sets,
+          reps = n.reps,
+          rest_duration = n.rest_duration,
+          order_in_workout = n.order_in_workout,
+          exercise_type = n.exercise_type,
+          primary_muscles = n.primary_muscles,
+          secondary_muscles = n.secondary_muscles,
+          equipment_needed = n.equipment_needed
+      from jsonb_populate_record(null::exercises, v_exercise) n
+      where e.id = (v_exercise->>'id')::uuid
+        and e.workout_id in (select id from workouts where plan_id = p_plan_id)
+        and e.retired_at is null
+      returning e.id into v_exercise_id;
+
+      if v_exercise_id is null then
+        insert into exercises (
+          workout_id, catalog_id, name, description, sets, reps, rest_duration,
+          order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+        )
+        select
+          v_workout_id, n.catalog_id, n.name, n.description, n.sets, n.reps, n.rest_duration,
+          n.order_in_workout, n.exercise_type, n.primary_muscles, n.secondary_muscles, n.equipment_needed
+        from jsonb_populate_record(null::exercises, v_exercise) n
+        returning id into v_exercise_id;
+      end if;
+
+      v_kept_exercises := v_kept_exercises || v_exercise_id;
+    end loop;
+  end loop;
+
+  -- Removed exercises with logged sessions are retired rather than deleted.
+  update exercises e
+  set retired_at = now()
+  from workouts w
+  where w.id = e.workout_id
+    and w.plan_id = p_plan_id
+    and e.retired_at is null
+    and not (e.id = any (v_kept_exercises))
+    and exists (select 1 from exercise_logs l where l.exercise_id = e.id);
+
+  if exists (
+    select 1
+    from workouts w
+    where w.plan_id = p_plan_id
+      and not (w.id = any (v_kept_workouts))
+      and exists (select 1 from workout_logs l where l.workout_id = w.id)
+  ) then
+    raise exception 'Workouts with logged sessions cannot be removed' using errcode = 'foreign_key_violation';
+  end if;
+
+  delete from exercises e
+  using workouts w
+  where w.id = e.workout_id
+    and w.plan_id = p_plan_id
+    and e.retired_at is null
+    and not (e.id = any (v_kept_exercises));
+
+  delete from workouts
+  where plan_id = p_plan_id
+    and not (id = any (v_kept_workouts));
+
+  return p_plan_id;
+end;
+$$;
+
+-- The calendar feed only lists exercises that are still part of the plan.
+create or replace function public.get_calendar_feed(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'preferred_workout_time', p.preferred_workout_time,
+    'plan', (
+      select to_jsonb(wp) || jsonb_build_object(
+        'workouts', coalesce((
+          select jsonb_agg(to_jsonb(w) || jsonb_build_object(
+            'exercises', coalesce((
+              select jsonb_agg(to_jsonb(e) order by e.order_in_workout)
+              from exercises e
+              where e.workout_id = w.id
+                and e.retired_at is null
+            ), '[]'::jsonb)
+          ) order by w.day_of_week)
+          from workouts w
+          where w.plan_id = wp.id
+        ), '[]'::jsonb)
+      )
+      from workout_plans wp
+      where wp.user_id = t.user_id
+        and wp.is_active
+    )
+  )
+  from calendar_feed_tokens t
+  left join profiles p on p.id = t.user_id
+  where t.token = p_token;
+$$;
+
+grant execute on function public.get_calendar_feed(text) to anon, authenticated;
@@ -0,0 +1,64 @@
+-- Swaps an exercise for an alternative in one transaction. An exercise with
+-- logged sessions is retired and a copy takes its place, so the swap never
+-- leaves both rows active or neither.
+create or replace function public.replace_exercise(
+  p_exercise_id uuid,
+  p_replacement jsonb
+)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_exercise exercises%rowtype;
+  v_exercise_id uuid;
+begin
+  select e.* into v_exercise
+  from exercises e
+  join workouts w on w.id = e.workout_id
+  join workout_plans wp on wp.id = w.plan_id
+  where e.id = p_exercise_id
+    and e.retired_at is null
+    and wp.user_id = auth.uid()
+  for update of e;
+
+  if not found then
+    raise exception 'Exercise not found' using errcode = 'no_data_found';
+  end if;
+
+  if not exists (select 1 from exercise_logs l where l.exercise_id = p_exercise_id) then
+    update exercises e
+    set catalog_id = r.catalog_id,
+        name = r.name,
+        description = r.description,
+        primary_muscles = r.primary_muscles,
+        secondary_muscles = r.secondary_muscles,
+        equipment_needed = r.equipment_needed,
+        weight = null
+    from jsonb_populate_record(null::exercises, p_replacement) r
+    where e.id = p_exercise_id;
+
+    return p_exercise_id;
+  end if;
+
+  insert into exercises (
+    workout_id, catalog_id, name, description, sets, reps, duration, rest_duration,
+    order_in_workout, exercise_type, primary_muscles, secondary_muscles, equipment_needed
+  )
+  select
+    v_exercise.workout_id, r.catalog_id, r.name, r.description, v_exercise.sets, v_exercise.reps,
+    v_exercise.duration, v_exercise.rest_duration, v_exercise.order_in_workout, v_exercise.exercise_type,
+    r.primary_muscles, r.secondary_muscles, r.equipment_needed
+  from jsonb_populate_record(null::exercises, p_replacement) r
+  returning id into v_exercise_id;
+
+  update exercises
+  set retired_at = now()
+  where id = p_exercise_id;
+
+  return v_exercise_id;
+end;
+$$;
+
+grant execute on function public.replace_exercise(uuid, jsonb) to authenticated;
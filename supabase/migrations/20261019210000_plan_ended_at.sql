@@ -0,0 +1,10 @@
+-- When a plan was deactivated. updated_at also moves on edits and accepted
+-- adjustments, so it cannot tell adherence where an ended plan stopped.
+alter table workout_plans
+  add column if not exists ended_at timestamptz;
+
+-- Plans ended before this column existed fall back to their last update.
+update workout_plans
+set ended_at = updated_at
+where not is_active
+  and ended_at is null;
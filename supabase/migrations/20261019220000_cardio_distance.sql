@@ -0,0 +1,6 @@
+-- Distance and time entered for cardio exercises, stored in km and seconds.
+-- duration_actual stays the time spent on the exercise screen, which says
+-- nothing about how far or fast the athlete went.
+alter table exercise_logs
+  add column if not exists distance_km numeric check (distance_km > 0),
+  add column if not exists time_seconds integer check (time_seconds > 0);
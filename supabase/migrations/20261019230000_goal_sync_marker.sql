@@ -0,0 +1,9 @@
+-- When the daily goal job last recomputed a goal, so a run that stops at its
+-- deadline leaves the remaining users for the next run instead of redoing the
+-- same ones.
+alter table fitness_goals
+  add column if not exists synced_at timestamptz;
+
+create index if not exists fitness_goals_active_synced_at
+  on fitness_goals (synced_at nulls first)
+  where status = 'active';
@@ -43,6 +43,7 @@ export interface Database {
           medical_conditions: string[] | null
           preferred_workout_time: string | null
           available_equipment: string[] | null
+          unit_system: 'metric' | 'imperial'
         }
         Insert: {
           id: string
@@ -61,6 +62,7 @@ export interface Database {
           medical_conditions?: string[] | null
           preferred_workout_time?: string | null
           available_equipment?: string[] | null
+          unit_system?: 'metric' | 'imperial'
         }
         Update: {
           id?: string
@@ -79,13 +81,16 @@ export interface Database {
           medical_conditions?: string[] | null
           preferred_workout_time?: string | null
           available_equipment?: string[] | null
+          unit_system?: 'metric' | 'imperial'
         }
+        Relationships: []
       }
       onboarding_progress: {
         Row: {
           user_id: string
           current_step: 'welcome' | 'personal_info' | 'fitness_assessment' | 'goal_setting' | 'equipment_check' | 'schedule_setup' | 'tutorial_complete'
           completed_steps: string[]
+          plan_preferences: Json
           last_interaction: string
           created_at: string
         }
@@ -93,6 +98,7 @@ export interface Database {
           user_id: string
           current_step?: 'welcome' | 'personal_info' | 'fitness_assessment' | 'goal_setting' | 'equipment_check' | 'schedule_setup' | 'tutorial_complete'
           completed_steps?: string[]
+          plan_preferences?: Json
           last_interaction?: string
           created_at?: string
         }
@@ -100,9 +106,11 @@ export interface Database {
           user_id?: string
           current_step?: 'welcome' | 'personal_info' | 'fitness_assessment' | 'goal_setting' | 'equipment_check' | 'schedule_setup' | 'tutorial_complete'
           completed_steps?: string[]
+          plan_preferences?: Json
           last_interaction?: string
           created_at?: string
         }
+        Relationships: []
       }
       fitness_goals: {
         Row: {
@@ -113,6 +121,7 @@ export interface Database {
           status: 'active' | 'completed' | 'abandoned'
           created_at: string
           updated_at: string
+          synced_at: string | null
           specific_targets: Json
         }
         Insert: {
@@ -123,6 +132,7 @@ export interface Database {
           status?: 'active' | 'completed' | 'abandoned'
           created_at?: string
           updated_at?: string
+          synced_at?: string | null
           specific_targets?: Json
         }
         Update: {
@@ -133,8 +143,10 @@ export interface Database {
           status?: 'active' | 'completed' | 'abandoned'
           created_at?: string
           updated_at?: string
+          synced_at?: string | null
           specific_targets?: Json
         }
+        Relationships: []
       }
       workout_plans: {
         Row: {
@@ -147,6 +159,7 @@ export interface Database {
           difficulty: 'beginner' | 'intermediate' | 'advanced'
           created_at: string
           updated_at: string
+          ended_at: string | null
           is_active: boolean
           focus_muscles: MuscleGroup[]
           rest_days: number[]
@@ -161,6 +174,7 @@ export interface Database {
           difficulty: 'beginner' | 'intermediate' | 'advanced'
           created_at?: string
           updated_at?: string
+          ended_at?: string | null
           is_active?: boolean
           focus_muscles: MuscleGroup[]
           rest_days: number[]
@@ -175,10 +189,12 @@ export interface Database {
           difficulty?: 'beginner' | 'intermediate' | 'advanced'
           created_at?: string
           updated_at?: string
+          ended_at?: string | null
           is_active?: boolean
           focus_muscles?: MuscleGroup[]
           rest_days?: number[]
         }
+        Relationships: []
       }
       workouts: {
         Row: {
@@ -208,11 +224,49 @@ export interface Database {
           estimated_duration?: string
           workout_type?: 'powerlifting' | 'bodyweight' | 'hiit' | 'strength' | 'cardio' | 'crossfit' | 'endurance' | 'circuit' | 'isolation'
         }
+        Relationships: []
+      }
+      exercise_catalog: {
+        Row: {
+          id: string
+          name: string
+          aliases: string[]
+          primary_muscles: MuscleGroup[]
+          secondary_muscles: MuscleGroup[]
+          equipment: string[]
+          exercise_type: 'powerlifting' | 'bodyweight' | 'hiit' | 'strength' | 'cardio' | 'crossfit' | 'endurance' | 'circuit' | 'isolation'
+          instructions: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          aliases?: string[]
+          primary_muscles: MuscleGroup[]
+          secondary_muscles?: MuscleGroup[]
+          equipment?: string[]
+          exercise_type: 'powerlifting' | 'bodyweight' | 'hiit' | 'strength' | 'cardio' | 'crossfit' | 'endurance' | 'circuit' | 'isolation'
+          instructions?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          aliases?: string[]
+          primary_muscles?: MuscleGroup[]
+          secondary_muscles?: MuscleGroup[]
+          equipment?: string[]
+          exercise_type?: 'powerlifting' | 'bodyweight' | 'hiit' | 'strength' | 'cardio' | 'crossfit' | 'endurance' | 'circuit' | 'isolation'
+          instructions?: string | null
+          created_at?: string
+        }
+        Relationships: []
       }
       exercises: {
         Row: {
           id: string
           workout_id: string
+          catalog_id: string | null
           name: string
           description: string | null
           sets: number
@@ -225,10 +279,12 @@ export interface Database {
           primary_muscles: MuscleGroup[]
           secondary_muscles: MuscleGroup[]
           equipment_needed: string[]
+          retired_at: string | null
         }
         Insert: {
           id?: string
           workout_id: string
+          catalog_id?: string | null
           name: string
           description?: string | null
           sets: number
@@ -241,10 +297,12 @@ export interface Database {
           primary_muscles: MuscleGroup[]
           secondary_muscles: MuscleGroup[]
           equipment_needed: string[]
+          retired_at?: string | null
         }
         Update: {
           id?: string
           workout_id?: string
+          catalog_id?: string | null
           name?: string
           description?: string | null
           sets?: number
@@ -257,7 +315,9 @@ export interface Database {
           primary_muscles?: MuscleGroup[]
           secondary_muscles?: MuscleGroup[]
           equipment_needed?: string[]
+          retired_at?: string | null
         }
+        Relationships: []
       }
       workout_logs: {
         Row: {
@@ -290,6 +350,7 @@ export interface Database {
           notes?: string | null
           mood?: 'great' | 'good' | 'okay' | 'tired' | 'exhausted'
         }
+        Relationships: []
       }
       exercise_logs: {
         Row: {
@@ -300,6 +361,8 @@ export interface Database {
           reps_completed: number
           weight_used: number | null
           duration_actual: string | null
+          distance_km: number | null
+          time_seconds: number | null
           notes: string | null
         }
         Insert: {
@@ -310,6 +373,8 @@ export interface Database {
           reps_completed: number
           weight_used?: number | null
           duration_actual?: string | null
+          distance_km?: number | null
+          time_seconds?: number | null
           notes?: string | null
         }
         Update: {
@@ -320,8 +385,26 @@ export interface Database {
           reps_completed?: number
           weight_used?: number | null
           duration_actual?: string | null
+          distance_km?: number | null
+          time_seconds?: number | null
           notes?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'exercise_logs_workout_log_id_fkey'
+            columns: ['workout_log_id']
+            isOneToOne: false
+            referencedRelation: 'workout_logs'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'exercise_logs_exercise_id_fkey'
+            columns: ['exercise_id']
+            isOneToOne: false
+            referencedRelation: 'exercises'
+            referencedColumns: ['id']
+          }
+        ]
       }
       progress_metrics: {
         Row: {
@@ -369,6 +452,7 @@ export interface Database {
           sleep_hours?: number | null
           notes?: string | null
         }
+        Relationships: []
       }
       rest_day_logs: {
         Row: {
@@ -407,7 +491,111 @@ export interface Database {
           notes?: string | null
           created_at?: string
         }
+        Relationships: []
       }
+      calendar_feed_tokens: {
+        Row: {
+          user_id: string
+          token: string
+          created_at: string
+        }
+        Insert: {
+          user_id: string
+          token?: string
+          created_at?: string
+        }
+        Update: {
+          user_id?: string
+          token?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      plan_adjustments: {
+        Row: {
+          id: string
+          user_id: string
+          plan_id: string
+          week: number
+          feedback: Json
+          changes: Json
+          changelog: string
+          status: 'pending' | 'accepted' | 'rejected'
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          plan_id: string
+          week: number
+          feedback: Json
+          changes?: Json
+          changelog: string
+          status?: 'pending' | 'accepted' | 'rejected'
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          plan_id?: string
+          week?: number
+          feedback?: Json
+          changes?: Json
+          changelog?: string
+          status?: 'pending' | 'accepted' | 'rejected'
+          created_at?: string
+          resolved_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      create_workout_plan: {
+        Args: {
+          p_user_id: string
+          p_goal: Json
+          p_plan: Json
+        }
+        Returns: string
+      }
+      update_workout_plan: {
+        Args: {
+          p_plan_id: string
+          p_plan: Json
+        }
+        Returns: string
+      }
+      apply_plan_adjustment: {
+        Args: {
+          p_adjustment_id: string
+        }
+        Returns: string
+      }
+      replace_exercise: {
+        Args: {
+          p_exercise_id: string
+          p_replacement: Json
+        }
+        Returns: string
+      }
+      rotate_calendar_feed_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      get_calendar_feed: {
+        Args: {
+          p_token: string
+        }
+        Returns: Json
+      }
+    }
+    Enums: {
+      [_ in never]: never
     }
   }
 }